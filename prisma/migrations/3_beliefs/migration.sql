@@ -0,0 +1,56 @@
+-- Belief Memory Tables
+-- Migration: 3_beliefs
+
+-- Beliefs (owned by a user, optionally scoped to a project)
+CREATE TABLE IF NOT EXISTS beliefs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+    belief TEXT NOT NULL,
+    scope TEXT NOT NULL,
+    confidence FLOAT NOT NULL DEFAULT 0.6,
+    evidence JSONB DEFAULT '[]'::jsonb,
+    status TEXT NOT NULL DEFAULT 'active',
+    last_reinforced TIMESTAMPTZ DEFAULT timezone('utc'::text, now()) NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Indexes for beliefs
+CREATE INDEX IF NOT EXISTS idx_beliefs_user ON beliefs(user_id);
+CREATE INDEX IF NOT EXISTS idx_beliefs_user_project ON beliefs(user_id, project_id);
+
+-- Belief Events (history of changes; kept after a belief is deleted)
+CREATE TABLE IF NOT EXISTS belief_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL,
+    project_id UUID,
+    belief_id UUID NOT NULL,
+    type TEXT NOT NULL,
+    belief_text TEXT,
+    delta_confidence FLOAT,
+    note TEXT,
+    created_at TIMESTAMPTZ DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Indexes for belief_events
+CREATE INDEX IF NOT EXISTS idx_belief_events_user_created ON belief_events(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_belief_events_belief ON belief_events(belief_id);
+
+-- Belief Contradictions
+CREATE TABLE IF NOT EXISTS belief_contradictions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    belief_id UUID NOT NULL REFERENCES beliefs(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Indexes for belief_contradictions
+CREATE INDEX IF NOT EXISTS idx_belief_contradictions_belief ON belief_contradictions(belief_id);
+
+-- Trigger for updated_at
+DROP TRIGGER IF EXISTS update_beliefs_updated_at ON beliefs;
+CREATE TRIGGER update_beliefs_updated_at
+    BEFORE UPDATE ON beliefs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
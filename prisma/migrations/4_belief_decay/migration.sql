@@ -0,0 +1,8 @@
+-- Belief Confidence Decay
+-- Migration: 4_belief_decay
+
+-- Time of the last decay applied to a belief (decay runs from the later of this and last_reinforced)
+ALTER TABLE beliefs ADD COLUMN IF NOT EXISTS last_decayed TIMESTAMPTZ;
+
+-- Index for the decay sweep
+CREATE INDEX IF NOT EXISTS idx_beliefs_status ON beliefs(status);
@@ -0,0 +1,6 @@
+-- Belief Embeddings
+-- Migration: 5_belief_embeddings
+
+-- Vector from the belief embedder, tagged with the embedder that produced it
+ALTER TABLE beliefs ADD COLUMN IF NOT EXISTS embedding JSONB;
+ALTER TABLE beliefs ADD COLUMN IF NOT EXISTS embedding_model TEXT;
@@ -0,0 +1,5 @@
+-- Belief Event Snapshots
+-- Migration: 6_belief_event_snapshots
+
+-- Belief state after each event, used to replay the store at a point in time
+ALTER TABLE belief_events ADD COLUMN IF NOT EXISTS snapshot JSONB;
@@ -0,0 +1,40 @@
+-- Docker Cloud Services State
+-- Migration: 7_docker_state
+
+-- Docker projects (one network and set of containers per Evolvo project)
+CREATE TABLE IF NOT EXISTS docker_projects (
+    project_id TEXT PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    network_id TEXT,
+    created_at TIMESTAMPTZ DEFAULT timezone('utc'::text, now()) NOT NULL,
+    last_activity TIMESTAMPTZ DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_docker_projects_user ON docker_projects(user_id);
+
+-- Docker containers
+CREATE TABLE IF NOT EXISTS docker_containers (
+    id TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL REFERENCES docker_projects(project_id) ON DELETE CASCADE,
+    type TEXT NOT NULL,
+    container_id TEXT,
+    name TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    host TEXT NOT NULL DEFAULT 'localhost',
+    port INTEGER NOT NULL,
+    connection_string TEXT,
+    error TEXT,
+    created_at TIMESTAMPTZ DEFAULT timezone('utc'::text, now()) NOT NULL,
+    last_health_check TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_docker_containers_project ON docker_containers(project_id);
+
+-- Host port leases (primary key makes concurrent leases of the same port fail)
+CREATE TABLE IF NOT EXISTS docker_port_leases (
+    port INTEGER PRIMARY KEY,
+    project_id TEXT NOT NULL,
+    leased_at TIMESTAMPTZ DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_docker_port_leases_project ON docker_port_leases(project_id);
@@ -0,0 +1,18 @@
+-- Docker Container Health History
+-- Migration: 8_docker_health_events
+
+-- Consecutive failed health checks, reset on success or restart
+ALTER TABLE docker_containers ADD COLUMN IF NOT EXISTS failure_count INTEGER NOT NULL DEFAULT 0;
+
+-- Status transitions and restarts recorded by the health monitor
+CREATE TABLE IF NOT EXISTS docker_health_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    container_id TEXT NOT NULL REFERENCES docker_containers(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL,
+    from_status TEXT NOT NULL,
+    to_status TEXT NOT NULL,
+    reason TEXT,
+    created_at TIMESTAMPTZ DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_docker_health_events_container_created ON docker_health_events(container_id, created_at);
@@ -0,0 +1,16 @@
+-- Docker Database Snapshots
+-- Migration: 9_docker_snapshots
+
+-- pg_dump snapshots of postgres/pgvector containers (dump files are kept inside the container)
+CREATE TABLE IF NOT EXISTS docker_snapshots (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id TEXT NOT NULL REFERENCES docker_projects(project_id) ON DELETE CASCADE,
+    container_type TEXT NOT NULL,
+    name TEXT NOT NULL,
+    path TEXT NOT NULL,
+    size_bytes BIGINT NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT timezone('utc'::text, now()) NOT NULL,
+    UNIQUE(project_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_docker_snapshots_project_created ON docker_snapshots(project_id, created_at);
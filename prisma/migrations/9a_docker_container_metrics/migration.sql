@@ -0,0 +1,21 @@
+-- Docker Container Resource Metrics
+-- Migration: 9a_docker_container_metrics
+-- Prisma applies migrations in lexicographic order of directory name, so
+-- this sorts after 9_docker_snapshots (a 10_ prefix would run before 2_).
+
+-- CPU, memory, network and disk usage samples recorded by the health monitor
+CREATE TABLE IF NOT EXISTS docker_container_metrics (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    container_id TEXT NOT NULL REFERENCES docker_containers(id) ON DELETE CASCADE,
+    cpu_percent DOUBLE PRECISION NOT NULL,
+    memory_bytes BIGINT NOT NULL,
+    memory_limit_bytes BIGINT NOT NULL,
+    network_rx_bytes BIGINT NOT NULL,
+    network_tx_bytes BIGINT NOT NULL,
+    disk_read_bytes BIGINT NOT NULL,
+    disk_write_bytes BIGINT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_docker_container_metrics_container_created ON docker_container_metrics(container_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_docker_container_metrics_created ON docker_container_metrics(created_at);
@@ -0,0 +1,11 @@
+-- Docker Leases
+-- Migration: 9b_docker_leases
+-- Sorts after 9a_docker_container_metrics (see the note there on ordering).
+
+-- Every server instance starts a health monitor; the instance holding the
+-- lease runs it, and another takes over once the lease expires
+CREATE TABLE IF NOT EXISTS docker_leases (
+    name TEXT PRIMARY KEY,
+    holder TEXT NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL
+);
@@ -6,6 +6,7 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { getFleetUsage } from "@/lib/docker";
 
 // Verify admin token middleware
 async function verifyAdminToken(token: string | null): Promise<boolean> {
@@ -96,6 +97,9 @@ export async function GET(request: NextRequest) {
       take: 100
     }).catch(() => []);
 
+    // Fleet-wide container resource usage
+    const dockerUsage = await getFleetUsage(startDate.getTime()).catch(() => null);
+
     // Event type distribution
     const eventTypeCounts: Record<string, number> = {};
     recentEvents.forEach((event: { eventType: string }) => {
@@ -141,7 +145,8 @@ export async function GET(request: NextRequest) {
       events: {
         distribution: eventTypeCounts,
         recent: recentEvents.slice(0, 20)
-      }
+      },
+      docker: dockerUsage
     });
 
   } catch (error) {
@@ -0,0 +1,51 @@
+/**
+ * Admin Belief Decay API
+ * 
+ * Runs the belief confidence decay sweep across all users.
+ * Intended to be called by a scheduled job.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { sweepBeliefDecay } from "@/lib/beliefs";
+
+// Verify admin token middleware
+async function verifyAdminToken(token: string | null): Promise<boolean> {
+  if (!token) return false;
+  
+  const session = await prisma.adminSession.findFirst({
+    where: {
+      token,
+      expiresAt: { gt: new Date() }
+    }
+  });
+  
+  return !!session;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.headers.get("x-admin-token");
+    
+    if (!await verifyAdminToken(token)) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const result = await sweepBeliefDecay({
+      halfLifeDays: typeof body.halfLifeDays === "object" ? body.halfLifeDays : undefined,
+    });
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error("Belief decay sweep error:", error);
+    return NextResponse.json(
+      { error: "Failed to run belief decay sweep" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * AI Generation API Route
+ *
+ * Streams an app generation from the model's provider client (or the mock
+ * client when AI_CLIENT=mock) as Server-Sent Events. The prompt includes the
+ * user's beliefs, plus the project's when a projectId is given.
+ *
+ * Events: `start` (generation ID), `text` chunks, then `result` with token
+ * usage and cost, or `error`, and finally `[DONE]`. Closing the connection
+ * cancels the generation.
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions, getTierFromSession } from "@/lib/auth";
+import { getUserByEmail, getProject } from "@/lib/db/supabase";
+import { getTierFeatures } from "@/lib/subscription/tiers";
+import { BELIEF_SCOPES, BeliefScope } from "@/lib/beliefs";
+import {
+  AIGenerationError,
+  buildPrompt,
+  canUseModel,
+  getAIClient,
+  getDefaultModel,
+  getModel,
+} from "@/lib/ai";
+
+// Provider SDK calls and belief lookups need the Node.js runtime
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+interface RequestBody {
+  prompt: string;
+  /** Model ID from AI_MODELS (defaults to the default model) */
+  modelId?: string;
+  backendEnabled?: boolean;
+  /** Project whose beliefs are added to the user's own */
+  projectId?: string;
+  beliefScopes?: BeliefScope[];
+}
+
+/**
+ * POST /api/ai/generate - Stream a generation
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const user = await getUserByEmail(session.user.email);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const body: RequestBody = await request.json();
+    const { prompt, modelId, backendEnabled, projectId, beliefScopes } = body;
+
+    if (typeof prompt !== "string" || !prompt.trim()) {
+      return NextResponse.json(
+        { error: "Prompt is required" },
+        { status: 400 }
+      );
+    }
+
+    if (beliefScopes !== undefined && (!Array.isArray(beliefScopes) || !beliefScopes.every(scope => BELIEF_SCOPES.some(s => s.value === scope)))) {
+      return NextResponse.json(
+        { error: "Invalid belief scopes" },
+        { status: 400 }
+      );
+    }
+
+    const model = modelId ? getModel(modelId) : getDefaultModel();
+
+    if (!model) {
+      return NextResponse.json(
+        { error: `Unknown model: ${modelId}` },
+        { status: 400 }
+      );
+    }
+
+    // Model access is gated by the tier on the session, not the request body
+    if (!canUseModel(model, getTierFromSession(session))) {
+      const requiredTier = getTierFeatures(model.minTier || "free").name;
+      return NextResponse.json(
+        { error: `${model.name} requires a ${requiredTier} subscription or higher.`, requiresUpgrade: true },
+        { status: 403 }
+      );
+    }
+
+    if (projectId) {
+      const project = await getProject(projectId);
+      if (!project || project.user_id !== user.id) {
+        return NextResponse.json(
+          { error: "Project not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    const structuredPrompt = await buildPrompt({
+      userPrompt: prompt,
+      modelId: model.id,
+      backendEnabled,
+      beliefScopes,
+      beliefOwner: { userId: user.id, projectId: projectId || null },
+    });
+    const client = getAIClient(model);
+
+    const encoder = new TextEncoder();
+    const stream = new TransformStream();
+    const writer = stream.writable.getWriter();
+    // Writes fail once the client has disconnected; the generation is cancelled then
+    const send = (data: object) =>
+      writer.write(encoder.encode(`data: ${JSON.stringify(data)}\n\n`)).catch(() => {});
+
+    let generationId: string | null = null;
+    const cancel = () => {
+      if (generationId) {
+        client.cancelGeneration(generationId);
+      }
+    };
+    request.signal.addEventListener("abort", cancel);
+
+    (async () => {
+      try {
+        const result = await client.streamGenerate(
+          structuredPrompt,
+          chunk => send({ type: "text", text: chunk }),
+          {
+            onStart: id => {
+              generationId = id;
+              send({ type: "start", id, model: { id: model.id, name: model.name, provider: model.provider } });
+            },
+          }
+        );
+        const { id, model: resultModel, tokensUsed, duration, cost } = result;
+        await send({ type: "result", id, model: resultModel, tokensUsed, duration, cost });
+      } catch (error) {
+        const code = error instanceof AIGenerationError ? error.code : "request_failed";
+        const message = error instanceof Error ? error.message : "Unknown error";
+        await send({ type: "error", code, message });
+      } finally {
+        request.signal.removeEventListener("abort", cancel);
+        await writer.write(encoder.encode("data: [DONE]\n\n")).catch(() => {});
+        await writer.close().catch(() => {});
+      }
+    })();
+
+    return new Response(stream.readable, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive"
+      }
+    });
+  } catch (error) {
+    console.error("Error starting generation:", error);
+    return NextResponse.json(
+      { error: "Failed to start generation" },
+      { status: 500 }
+    );
+  }
+}
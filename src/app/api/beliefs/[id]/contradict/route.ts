@@ -0,0 +1,88 @@
+/**
+ * Contradict Belief API Route
+ * 
+ * Records a contradiction against a belief and lowers its confidence.
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserByEmail, getProject } from "@/lib/db/supabase";
+import { getBelief, contradictBelief } from "@/lib/beliefs";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/beliefs/[id]/contradict - Contradict a belief
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+    
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    
+    const user = await getUserByEmail(session.user.email);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+    
+    const body = await request.json();
+    const { reason, evidence, projectId } = body;
+    
+    if (!reason || typeof reason !== "string" || !reason.trim()) {
+      return NextResponse.json(
+        { error: "A reason is required" },
+        { status: 400 }
+      );
+    }
+    
+    if (evidence !== undefined && typeof evidence !== "string") {
+      return NextResponse.json(
+        { error: "Evidence must be a string" },
+        { status: 400 }
+      );
+    }
+    
+    if (projectId) {
+      const project = await getProject(projectId);
+      if (!project || project.user_id !== user.id) {
+        return NextResponse.json(
+          { error: "Project not found" },
+          { status: 404 }
+        );
+      }
+    }
+    
+    const owner = { userId: user.id, projectId: projectId || null };
+    
+    if (!(await getBelief(owner, id))) {
+      return NextResponse.json(
+        { error: "Belief not found" },
+        { status: 404 }
+      );
+    }
+    
+    const belief = await contradictBelief(owner, id, reason, evidence);
+    
+    return NextResponse.json({ belief });
+    
+  } catch (error) {
+    console.error("Error contradicting belief:", error);
+    return NextResponse.json(
+      { error: "Failed to contradict belief" },
+      { status: 500 }
+    );
+  }
+}
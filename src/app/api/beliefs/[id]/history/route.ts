@@ -0,0 +1,71 @@
+/**
+ * Belief History API Route
+ * 
+ * Returns the confidence series of a belief, one point per event.
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserByEmail, getProject } from "@/lib/db/supabase";
+import { getConfidenceHistory } from "@/lib/beliefs";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/beliefs/[id]/history - Confidence history of a belief
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+    
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    
+    const user = await getUserByEmail(session.user.email);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+    
+    const projectId = new URL(request.url).searchParams.get("projectId");
+    
+    if (projectId) {
+      const project = await getProject(projectId);
+      if (!project || project.user_id !== user.id) {
+        return NextResponse.json(
+          { error: "Project not found" },
+          { status: 404 }
+        );
+      }
+    }
+    
+    const history = await getConfidenceHistory({ userId: user.id, projectId }, id);
+    
+    if (history.length === 0) {
+      return NextResponse.json(
+        { error: "Belief not found" },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ history });
+    
+  } catch (error) {
+    console.error("Error fetching belief history:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch belief history" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Reinforce Belief API Route
+ * 
+ * Increases a belief's confidence, optionally recording evidence.
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserByEmail, getProject } from "@/lib/db/supabase";
+import { getBelief, reinforceBelief } from "@/lib/beliefs";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/beliefs/[id]/reinforce - Reinforce a belief
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+    
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    
+    const user = await getUserByEmail(session.user.email);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+    
+    const body = await request.json().catch(() => ({}));
+    const { evidence, projectId } = body;
+    
+    if (evidence !== undefined && typeof evidence !== "string") {
+      return NextResponse.json(
+        { error: "Evidence must be a string" },
+        { status: 400 }
+      );
+    }
+    
+    if (projectId) {
+      const project = await getProject(projectId);
+      if (!project || project.user_id !== user.id) {
+        return NextResponse.json(
+          { error: "Project not found" },
+          { status: 404 }
+        );
+      }
+    }
+    
+    const owner = { userId: user.id, projectId: projectId || null };
+    
+    if (!(await getBelief(owner, id))) {
+      return NextResponse.json(
+        { error: "Belief not found" },
+        { status: 404 }
+      );
+    }
+    
+    const belief = await reinforceBelief(owner, id, evidence);
+    
+    return NextResponse.json({ belief });
+    
+  } catch (error) {
+    console.error("Error reinforcing belief:", error);
+    return NextResponse.json(
+      { error: "Failed to reinforce belief" },
+      { status: 500 }
+    );
+  }
+}
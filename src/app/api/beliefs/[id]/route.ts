@@ -0,0 +1,130 @@
+/**
+ * Single Belief API Route
+ * 
+ * Reads and deletes a specific belief.
+ * Pass ?projectId= for beliefs scoped to a project.
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserByEmail, getProject } from "@/lib/db/supabase";
+import { getBelief, deleteBelief } from "@/lib/beliefs";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/beliefs/[id] - Get a specific belief
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+    
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    
+    const user = await getUserByEmail(session.user.email);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+    
+    const projectId = new URL(request.url).searchParams.get("projectId");
+    
+    if (projectId) {
+      const project = await getProject(projectId);
+      if (!project || project.user_id !== user.id) {
+        return NextResponse.json(
+          { error: "Project not found" },
+          { status: 404 }
+        );
+      }
+    }
+    
+    const belief = await getBelief({ userId: user.id, projectId }, id);
+    
+    if (!belief) {
+      return NextResponse.json(
+        { error: "Belief not found" },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ belief });
+    
+  } catch (error) {
+    console.error("Error fetching belief:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch belief" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/beliefs/[id] - Permanently delete a belief
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+    
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    
+    const user = await getUserByEmail(session.user.email);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+    
+    const projectId = new URL(request.url).searchParams.get("projectId");
+    
+    if (projectId) {
+      const project = await getProject(projectId);
+      if (!project || project.user_id !== user.id) {
+        return NextResponse.json(
+          { error: "Project not found" },
+          { status: 404 }
+        );
+      }
+    }
+    
+    const owner = { userId: user.id, projectId };
+    
+    if (!(await getBelief(owner, id))) {
+      return NextResponse.json(
+        { error: "Belief not found" },
+        { status: 404 }
+      );
+    }
+    
+    await deleteBelief(owner, id);
+    
+    return NextResponse.json({ success: true });
+    
+  } catch (error) {
+    console.error("Error deleting belief:", error);
+    return NextResponse.json(
+      { error: "Failed to delete belief" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Belief Export API Route
+ * 
+ * Exports the current user's beliefs and event history as a versioned JSON document.
+ * Pass ?projectId= to export a project's beliefs instead of user-wide ones.
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserByEmail, getProject } from "@/lib/db/supabase";
+import { exportBeliefs } from "@/lib/beliefs";
+
+/**
+ * GET /api/beliefs/export - Download beliefs as JSON
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    
+    const user = await getUserByEmail(session.user.email);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+    
+    const projectId = new URL(request.url).searchParams.get("projectId");
+    
+    if (projectId) {
+      const project = await getProject(projectId);
+      if (!project || project.user_id !== user.id) {
+        return NextResponse.json(
+          { error: "Project not found" },
+          { status: 404 }
+        );
+      }
+    }
+    
+    const store = await exportBeliefs({ userId: user.id, projectId });
+    const filename = projectId ? `beliefs-${projectId}.json` : "beliefs.json";
+    
+    return NextResponse.json(store, {
+      headers: {
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+    
+  } catch (error) {
+    console.error("Error exporting beliefs:", error);
+    return NextResponse.json(
+      { error: "Failed to export beliefs" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Belief Import API Route
+ * 
+ * Imports a belief document (from /api/beliefs/export) into the current user's
+ * store or a project. Older document versions are migrated automatically.
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserByEmail, getProject } from "@/lib/db/supabase";
+import { importBeliefs, BeliefDocumentError, BeliefMergeStrategy } from "@/lib/beliefs";
+
+const MERGE_STRATEGIES: BeliefMergeStrategy[] = ["replace", "keep-higher-confidence", "union-evidence"];
+
+/**
+ * POST /api/beliefs/import - Import beliefs (body: data, strategy?, projectId?)
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    
+    const user = await getUserByEmail(session.user.email);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+    
+    const body = await request.json();
+    const { data, strategy = "keep-higher-confidence", projectId } = body;
+    
+    if (!data) {
+      return NextResponse.json(
+        { error: "Belief document is required" },
+        { status: 400 }
+      );
+    }
+    
+    if (!MERGE_STRATEGIES.includes(strategy)) {
+      return NextResponse.json(
+        { error: `Invalid strategy. Use one of: ${MERGE_STRATEGIES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    
+    if (projectId) {
+      const project = await getProject(projectId);
+      if (!project || project.user_id !== user.id) {
+        return NextResponse.json(
+          { error: "Project not found" },
+          { status: 404 }
+        );
+      }
+    }
+    
+    let result;
+    try {
+      result = await importBeliefs({ userId: user.id, projectId: projectId || null }, data, strategy);
+    } catch (error) {
+      // Malformed or unsupported documents are rejected before anything is written
+      if (error instanceof BeliefDocumentError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+    
+    return NextResponse.json({ success: true, ...result });
+    
+  } catch (error) {
+    console.error("Error importing beliefs:", error);
+    return NextResponse.json(
+      { error: "Failed to import beliefs" },
+      { status: 500 }
+    );
+  }
+}
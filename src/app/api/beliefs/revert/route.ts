@@ -0,0 +1,68 @@
+/**
+ * Belief Revert API Route
+ * 
+ * Reverts beliefs to their state at a point in time (e.g. to undo a bad batch of changes).
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserByEmail, getProject } from "@/lib/db/supabase";
+import { revertBeliefs } from "@/lib/beliefs";
+
+/**
+ * POST /api/beliefs/revert - Revert beliefs (body: at as ms or ISO date, projectId?)
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    
+    const user = await getUserByEmail(session.user.email);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+    
+    const body = await request.json();
+    const { projectId } = body;
+    const at = typeof body.at === "number" ? body.at : Date.parse(body.at);
+    
+    if (Number.isNaN(at) || at > Date.now()) {
+      return NextResponse.json(
+        { error: "A past timestamp is required" },
+        { status: 400 }
+      );
+    }
+    
+    if (projectId) {
+      const project = await getProject(projectId);
+      if (!project || project.user_id !== user.id) {
+        return NextResponse.json(
+          { error: "Project not found" },
+          { status: 404 }
+        );
+      }
+    }
+    
+    const result = await revertBeliefs({ userId: user.id, projectId: projectId || null }, at);
+    
+    return NextResponse.json({ success: true, ...result });
+    
+  } catch (error) {
+    console.error("Error reverting beliefs:", error);
+    return NextResponse.json(
+      { error: "Failed to revert beliefs" },
+      { status: 500 }
+    );
+  }
+}
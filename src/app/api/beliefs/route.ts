@@ -0,0 +1,201 @@
+/**
+ * Beliefs API Route
+ * 
+ * Lists and creates beliefs for the current user.
+ * Pass ?projectId= to work with a project's beliefs (user-wide beliefs are included on read).
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserByEmail, getProject } from "@/lib/db/supabase";
+import {
+  BELIEF_SCOPES,
+  BeliefScope,
+  BeliefStatus,
+  getBeliefs,
+  searchBeliefs,
+  upsertBelief,
+} from "@/lib/beliefs";
+
+const BELIEF_STATUSES: BeliefStatus[] = ["active", "unstable", "deprecated"];
+
+function isBeliefScope(value: unknown): value is BeliefScope {
+  return BELIEF_SCOPES.some(s => s.value === value);
+}
+
+/**
+ * GET /api/beliefs - List beliefs (optional projectId, scope, status, q)
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    
+    const user = await getUserByEmail(session.user.email);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+    
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get("projectId");
+    const scope = searchParams.get("scope");
+    const status = searchParams.get("status");
+    const query = searchParams.get("q");
+    
+    if (projectId) {
+      const project = await getProject(projectId);
+      if (!project || project.user_id !== user.id) {
+        return NextResponse.json(
+          { error: "Project not found" },
+          { status: 404 }
+        );
+      }
+    }
+    
+    if (scope && !isBeliefScope(scope)) {
+      return NextResponse.json(
+        { error: `Invalid scope: ${scope}` },
+        { status: 400 }
+      );
+    }
+    
+    if (status && !BELIEF_STATUSES.includes(status as BeliefStatus)) {
+      return NextResponse.json(
+        { error: `Invalid status: ${status}` },
+        { status: 400 }
+      );
+    }
+    
+    const owner = { userId: user.id, projectId };
+    
+    let beliefs = query
+      ? await searchBeliefs(owner, query)
+      : await getBeliefs(owner);
+    
+    if (scope) {
+      beliefs = beliefs.filter(b => b.scope === scope);
+    }
+    if (status) {
+      beliefs = beliefs.filter(b => b.status === status);
+    }
+    
+    return NextResponse.json({ beliefs });
+    
+  } catch (error) {
+    console.error("Error fetching beliefs:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch beliefs" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/beliefs - Create a belief
+ * Near-duplicates are reinforced instead. Likely contradictions return 409 with a
+ * conflict report unless onConflict is "contradict".
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    
+    const user = await getUserByEmail(session.user.email);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+    
+    const body = await request.json();
+    const { belief, scope = "general", evidence = [], projectId, onConflict = "report" } = body;
+    
+    if (!belief || typeof belief !== "string" || !belief.trim()) {
+      return NextResponse.json(
+        { error: "Belief text is required" },
+        { status: 400 }
+      );
+    }
+    
+    if (!isBeliefScope(scope)) {
+      return NextResponse.json(
+        { error: `Invalid scope: ${scope}` },
+        { status: 400 }
+      );
+    }
+    
+    if (!Array.isArray(evidence) || !evidence.every(e => typeof e === "string")) {
+      return NextResponse.json(
+        { error: "Evidence must be an array of strings" },
+        { status: 400 }
+      );
+    }
+    
+    if (onConflict !== "report" && onConflict !== "contradict") {
+      return NextResponse.json(
+        { error: "onConflict must be \"report\" or \"contradict\"" },
+        { status: 400 }
+      );
+    }
+    
+    if (projectId) {
+      const project = await getProject(projectId);
+      if (!project || project.user_id !== user.id) {
+        return NextResponse.json(
+          { error: "Project not found" },
+          { status: 404 }
+        );
+      }
+    }
+    
+    const result = await upsertBelief(
+      { userId: user.id, projectId: projectId || null },
+      belief,
+      scope,
+      evidence,
+      { onConflict }
+    );
+    
+    const conflicts = result.conflicts.map(c => ({
+      id: c.belief.id,
+      belief: c.belief.belief,
+      confidence: c.belief.confidence,
+      similarity: c.similarity,
+    }));
+    
+    if (result.action === "conflict") {
+      return NextResponse.json(
+        { error: "Belief contradicts existing beliefs", conflicts },
+        { status: 409 }
+      );
+    }
+    
+    return NextResponse.json({ action: result.action, belief: result.belief, conflicts });
+    
+  } catch (error) {
+    console.error("Error creating belief:", error);
+    return NextResponse.json(
+      { error: "Failed to create belief" },
+      { status: 500 }
+    );
+  }
+}
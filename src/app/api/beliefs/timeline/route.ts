@@ -0,0 +1,69 @@
+/**
+ * Belief Timeline API Route
+ * 
+ * Rebuilds the beliefs as they were at a point in time by replaying events.
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserByEmail, getProject } from "@/lib/db/supabase";
+import { getBeliefsAt } from "@/lib/beliefs";
+
+/**
+ * GET /api/beliefs/timeline?at= - Beliefs as of a timestamp (ms or ISO date; defaults to now)
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+    
+    const user = await getUserByEmail(session.user.email);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+    
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get("projectId");
+    const atParam = searchParams.get("at");
+    const at = !atParam ? Date.now() : /^\d+$/.test(atParam) ? Number(atParam) : Date.parse(atParam);
+    
+    if (Number.isNaN(at)) {
+      return NextResponse.json(
+        { error: "Invalid timestamp" },
+        { status: 400 }
+      );
+    }
+    
+    if (projectId) {
+      const project = await getProject(projectId);
+      if (!project || project.user_id !== user.id) {
+        return NextResponse.json(
+          { error: "Project not found" },
+          { status: 404 }
+        );
+      }
+    }
+    
+    const beliefs = await getBeliefsAt({ userId: user.id, projectId }, at);
+    
+    return NextResponse.json({ at, beliefs });
+    
+  } catch (error) {
+    console.error("Error replaying beliefs:", error);
+    return NextResponse.json(
+      { error: "Failed to replay beliefs" },
+      { status: 500 }
+    );
+  }
+}
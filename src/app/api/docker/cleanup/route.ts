@@ -47,7 +47,7 @@ export async function DELETE(request: Request) {
     }
     
     // Get project containers
-    const project = getProjectContainers(projectId);
+    const project = await getProjectContainers(projectId);
     
     if (!project) {
       return NextResponse.json({
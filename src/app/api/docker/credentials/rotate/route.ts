@@ -0,0 +1,117 @@
+/**
+ * Docker Credential Rotation API Route
+ *
+ * Rotates the password of a project's Postgres, pgvector or Redis container
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserByEmail } from "@/lib/db/supabase";
+import {
+  CredentialError,
+  getProjectContainers,
+  rotateCredentials,
+  ROTATABLE_CONTAINER_TYPES,
+  updateProjectActivity,
+  type RotatableContainerType,
+} from "@/lib/docker";
+
+const CREDENTIAL_ERROR_STATUS: Record<CredentialError["code"], number> = {
+  not_found: 404,
+  unsupported: 400,
+  failed: 500,
+};
+
+/**
+ * POST /api/docker/credentials/rotate - Rotate a container's password
+ * Body: { projectId, containerType: "postgres" | "pgvector" | "redis" }
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const user = await getUserByEmail(session.user.email);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { projectId, containerType } = body as {
+      projectId: string;
+      containerType: RotatableContainerType;
+    };
+
+    if (!projectId || typeof projectId !== "string") {
+      return NextResponse.json(
+        { error: "Project ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!ROTATABLE_CONTAINER_TYPES.includes(containerType)) {
+      return NextResponse.json(
+        { error: `Valid container type is required (${ROTATABLE_CONTAINER_TYPES.join(", ")})` },
+        { status: 400 }
+      );
+    }
+
+    // Get project containers
+    const project = await getProjectContainers(projectId);
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project has no active containers" },
+        { status: 404 }
+      );
+    }
+
+    // Verify user owns this project
+    if (project.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    if (!project.containers.some(c => c.type === containerType)) {
+      return NextResponse.json(
+        { error: `Project has no ${containerType} container` },
+        { status: 404 }
+      );
+    }
+
+    await updateProjectActivity(projectId);
+
+    const rotation = await rotateCredentials(projectId, containerType);
+
+    return NextResponse.json({
+      success: true,
+      ...rotation,
+    });
+
+  } catch (error) {
+    if (error instanceof CredentialError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: CREDENTIAL_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error("Error rotating credentials:", error);
+    return NextResponse.json(
+      { error: "Failed to rotate credentials" },
+      { status: 500 }
+    );
+  }
+}
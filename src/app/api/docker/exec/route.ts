@@ -1,22 +1,34 @@
 /**
  * Docker Exec API Route
  * 
- * Execute commands in Docker containers (SQL, Redis commands)
+ * Execute commands in Docker containers (SQL, Redis and MongoDB commands)
  */
 
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
-import { getUserByEmail } from "@/lib/db/supabase";
+import { getUserByEmail, getUserSubscription } from "@/lib/db/supabase";
 import {
   executeSql,
   executeRedisCommand,
+  executeMysql,
+  executeMongoCommand,
   getProjectContainers,
   updateProjectActivity,
+  checkStatements,
+  parseStatements,
+  checkRedisCommand,
+  tokenizeRedisCommand,
+  RedisCommandError,
+  RedisReply,
+  SqlResult,
 } from "@/lib/docker";
 
 /**
  * POST /api/docker/exec - Execute a command in a container
+ * SQL runs read-only unless allowWrites is set and returns columns, rows
+ * and rowCount; limit/offset page through the rows. Redis commands are
+ * limited by subscription tier and return the decoded reply.
  */
 export async function POST(request: Request) {
   try {
@@ -39,10 +51,13 @@ export async function POST(request: Request) {
     }
     
     const body = await request.json();
-    const { projectId, containerType, command } = body as {
+    const { projectId, containerType, command, allowWrites, limit, offset } = body as {
       projectId: string;
-      containerType: "postgres" | "pgvector" | "redis";
+      containerType: "postgres" | "pgvector" | "redis" | "mysql" | "mongodb";
       command: string;
+      allowWrites?: boolean;
+      limit?: number;
+      offset?: number;
     };
     
     if (!projectId || typeof projectId !== "string") {
@@ -52,9 +67,9 @@ export async function POST(request: Request) {
       );
     }
     
-    if (!containerType || !["postgres", "pgvector", "redis"].includes(containerType)) {
+    if (!containerType || !["postgres", "pgvector", "redis", "mysql", "mongodb"].includes(containerType)) {
       return NextResponse.json(
-        { error: "Valid container type is required (postgres, pgvector, redis)" },
+        { error: "Valid container type is required (postgres, pgvector, redis, mysql, mongodb)" },
         { status: 400 }
       );
     }
@@ -67,21 +82,19 @@ export async function POST(request: Request) {
     }
     
     // Basic command sanitization (prevent dangerous commands)
+    // Redis commands are checked against the tier's allowlist below
     const dangerousPatterns = [
       /DROP\s+DATABASE/i,
       /DROP\s+SCHEMA/i,
       /TRUNCATE/i,
       /DELETE\s+FROM\s+(?!.*WHERE)/i, // DELETE without WHERE
-      /FLUSHALL/i,
-      /FLUSHDB/i,
-      /CONFIG\s+SET/i,
-      /SHUTDOWN/i,
-      /DEBUG/i,
+      /dropDatabase/i,
+      /\.drop\s*\(/i, // MongoDB collection drop
       /;.*;/s, // Multiple statements
     ];
     
     for (const pattern of dangerousPatterns) {
-      if (pattern.test(command)) {
+      if (containerType !== "redis" && pattern.test(command)) {
         return NextResponse.json(
           { error: "This command is not allowed for security reasons" },
           { status: 403 }
@@ -89,8 +102,34 @@ export async function POST(request: Request) {
       }
     }
     
+    if (containerType === "postgres" || containerType === "pgvector") {
+      const rejected = checkStatements(parseStatements(command), allowWrites === true);
+      if (rejected) {
+        return NextResponse.json(
+          { error: rejected },
+          { status: 403 }
+        );
+      }
+    }
+    
+    // Redis commands allowed depend on the subscription tier
+    const subscription = await getUserSubscription(user.id);
+    const tier = subscription?.tier || "free";
+    
+    if (containerType === "redis") {
+      try {
+        checkRedisCommand(tokenizeRedisCommand(command), tier);
+      } catch (error) {
+        if (!(error instanceof RedisCommandError)) throw error;
+        return NextResponse.json(
+          { error: error.message },
+          { status: 403 }
+        );
+      }
+    }
+    
     // Get project containers
-    const project = getProjectContainers(projectId);
+    const project = await getProjectContainers(projectId);
     
     if (!project) {
       return NextResponse.json(
@@ -108,15 +147,23 @@ export async function POST(request: Request) {
     }
     
     // Update activity timestamp
-    updateProjectActivity(projectId);
+    await updateProjectActivity(projectId);
     
     // Execute command based on container type
-    let result;
+    let result: { success: boolean; output: string; result?: SqlResult; reply?: RedisReply; error?: string };
     
     if (containerType === "redis") {
-      result = await executeRedisCommand(projectId, command);
+      result = await executeRedisCommand(projectId, command, tier);
+    } else if (containerType === "mysql") {
+      result = await executeMysql(projectId, command);
+    } else if (containerType === "mongodb") {
+      result = await executeMongoCommand(projectId, command);
     } else {
-      result = await executeSql(projectId, command, containerType);
+      result = await executeSql(projectId, command, containerType, {
+        allowWrites: allowWrites === true,
+        limit: typeof limit === "number" ? limit : undefined,
+        offset: typeof offset === "number" ? offset : undefined,
+      });
     }
     
     if (!result.success) {
@@ -132,6 +179,8 @@ export async function POST(request: Request) {
     return NextResponse.json({
       success: true,
       output: result.output,
+      result: result.result,
+      reply: result.reply,
     });
     
   } catch (error) {
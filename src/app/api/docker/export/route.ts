@@ -0,0 +1,107 @@
+/**
+ * Docker Export API Route
+ *
+ * Exports a project's services as docker-compose.yml and .env.example
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserByEmail } from "@/lib/db/supabase";
+import { exportProjectCompose, getProjectContainers } from "@/lib/docker";
+
+const EXPORT_FILES = ["docker-compose.yml", ".env.example"];
+
+/**
+ * GET /api/docker/export?projectId=xxx - Get docker-compose.yml and .env.example
+ * Optional: file=docker-compose.yml or file=.env.example to download one file
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const user = await getUserByEmail(session.user.email);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get("projectId");
+    const file = searchParams.get("file");
+
+    if (!projectId) {
+      return NextResponse.json(
+        { error: "Project ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (file && !EXPORT_FILES.includes(file)) {
+      return NextResponse.json(
+        { error: `file must be one of ${EXPORT_FILES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // Get project containers
+    const project = await getProjectContainers(projectId);
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project has no active containers" },
+        { status: 404 }
+      );
+    }
+
+    // Verify user owns this project
+    if (project.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const exported = await exportProjectCompose(projectId);
+
+    if (!exported) {
+      return NextResponse.json(
+        { error: "Project has no active containers" },
+        { status: 404 }
+      );
+    }
+
+    if (file) {
+      return new Response(file === ".env.example" ? exported.envExample : exported.compose, {
+        headers: {
+          "Content-Type": file === ".env.example" ? "text/plain; charset=utf-8" : "application/yaml; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${file}"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      files: {
+        "docker-compose.yml": exported.compose,
+        ".env.example": exported.envExample,
+      },
+    });
+
+  } catch (error) {
+    console.error("Error exporting Docker services:", error);
+    return NextResponse.json(
+      { error: "Failed to export services" },
+      { status: 500 }
+    );
+  }
+}
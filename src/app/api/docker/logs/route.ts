@@ -0,0 +1,170 @@
+/**
+ * Docker Logs API Route
+ *
+ * Streams container stdout/stderr over Server-Sent Events
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserByEmail } from "@/lib/db/supabase";
+import {
+  ContainerType,
+  getProjectContainers,
+  streamContainerLogs,
+  updateProjectActivity,
+} from "@/lib/docker";
+
+const CONTAINER_TYPES: ContainerType[] = ["postgres", "pgvector", "redis", "mysql", "mongodb", "app"];
+const DEFAULT_TAIL = 100;
+
+/**
+ * Parse `since` as unix seconds or an ISO date
+ */
+function parseSince(value: string | null): number | undefined | null {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  const time = Date.parse(value);
+  return Number.isFinite(time) ? Math.floor(time / 1000) : null;
+}
+
+/**
+ * Parse `tail` as a line count or "all"
+ */
+function parseTail(value: string | null): number | "all" | null {
+  if (!value) return DEFAULT_TAIL;
+  if (value === "all") return "all";
+  return /^\d+$/.test(value) ? parseInt(value, 10) : null;
+}
+
+/**
+ * GET /api/docker/logs?projectId=xxx&containerType=postgres - Stream container logs
+ * Optional: since (unix seconds or ISO date), tail (line count or "all"), follow=false
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const user = await getUserByEmail(session.user.email);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get("projectId");
+    const containerType = searchParams.get("containerType") as ContainerType | null;
+    const since = parseSince(searchParams.get("since"));
+    const tail = parseTail(searchParams.get("tail"));
+    const follow = searchParams.get("follow") !== "false";
+
+    if (!projectId) {
+      return NextResponse.json(
+        { error: "Project ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!containerType || !CONTAINER_TYPES.includes(containerType)) {
+      return NextResponse.json(
+        { error: `Valid container type is required (${CONTAINER_TYPES.join(", ")})` },
+        { status: 400 }
+      );
+    }
+
+    if (since === null) {
+      return NextResponse.json(
+        { error: "since must be unix seconds or an ISO date" },
+        { status: 400 }
+      );
+    }
+
+    if (tail === null) {
+      return NextResponse.json(
+        { error: "tail must be a line count or \"all\"" },
+        { status: 400 }
+      );
+    }
+
+    // Get project containers
+    const project = await getProjectContainers(projectId);
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project has no active containers" },
+        { status: 404 }
+      );
+    }
+
+    // Verify user owns this project
+    if (project.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    if (!project.containers.some(c => c.type === containerType)) {
+      return NextResponse.json(
+        { error: `Project has no ${containerType} container` },
+        { status: 404 }
+      );
+    }
+
+    // Update activity timestamp
+    await updateProjectActivity(projectId);
+
+    // Create streaming response
+    const encoder = new TextEncoder();
+    const stream = new TransformStream();
+    const writer = stream.writable.getWriter();
+
+    // Stop following when the client disconnects
+    const signal = request.signal;
+
+    (async () => {
+      try {
+        for await (const line of streamContainerLogs(projectId, containerType, { since, tail, follow }, signal)) {
+          await writer.write(encoder.encode(`data: ${JSON.stringify({ type: "log", ...line })}\n\n`));
+        }
+
+        await writer.write(encoder.encode("data: [DONE]\n\n"));
+        await writer.close();
+      } catch (error) {
+        if (signal.aborted) {
+          // Client went away; nothing left to write to
+          await writer.abort().catch(() => undefined);
+          return;
+        }
+        const message = error instanceof Error ? error.message : "Unknown error";
+        await writer.write(encoder.encode(`data: ${JSON.stringify({ type: "error", message })}\n\n`));
+        await writer.close();
+      }
+    })();
+
+    return new Response(stream.readable, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive"
+      }
+    });
+
+  } catch (error) {
+    console.error("Error streaming Docker logs:", error);
+    return NextResponse.json(
+      { error: "Failed to stream container logs" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Docker Migrations API Route
+ *
+ * Reports which of a project's migration and seed files have been applied
+ * to its database container
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserByEmail } from "@/lib/db/supabase";
+import {
+  getMigrationStatus,
+  getProjectContainers,
+  MigrationError,
+  updateProjectActivity,
+  type MigrationContainerType,
+} from "@/lib/docker";
+
+const CONTAINER_TYPES: MigrationContainerType[] = ["postgres", "pgvector"];
+
+/**
+ * GET /api/docker/migrations?projectId=xxx - Migration status
+ * Optional: containerType=postgres|pgvector (default postgres)
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const user = await getUserByEmail(session.user.email);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get("projectId");
+    const containerType = (searchParams.get("containerType") || "postgres") as MigrationContainerType;
+
+    if (!projectId) {
+      return NextResponse.json(
+        { error: "Project ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!CONTAINER_TYPES.includes(containerType)) {
+      return NextResponse.json(
+        { error: "containerType must be postgres or pgvector" },
+        { status: 400 }
+      );
+    }
+
+    // Get project containers
+    const project = await getProjectContainers(projectId);
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project has no active containers" },
+        { status: 404 }
+      );
+    }
+
+    // Verify user owns this project
+    if (project.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    if (!project.containers.some(c => c.type === containerType)) {
+      return NextResponse.json(
+        { error: `Project has no ${containerType} container` },
+        { status: 404 }
+      );
+    }
+
+    await updateProjectActivity(projectId);
+
+    const migrations = await getMigrationStatus(projectId, containerType);
+
+    return NextResponse.json({
+      success: true,
+      migrations,
+      pending: migrations.filter(m => m.state === "pending").length,
+    });
+
+  } catch (error) {
+    if (error instanceof MigrationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      );
+    }
+    console.error("Error reading migration status:", error);
+    return NextResponse.json(
+      { error: "Failed to read migration status" },
+      { status: 500 }
+    );
+  }
+}
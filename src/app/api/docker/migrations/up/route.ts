@@ -0,0 +1,126 @@
+/**
+ * Apply Docker Migrations API Route
+ *
+ * Applies a project's pending migrations (and optionally seeds) to its
+ * database container
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserByEmail } from "@/lib/db/supabase";
+import {
+  applyMigrations,
+  getProjectContainers,
+  MigrationError,
+  updateProjectActivity,
+  type MigrationContainerType,
+} from "@/lib/docker";
+
+const CONTAINER_TYPES: MigrationContainerType[] = ["postgres", "pgvector"];
+
+/**
+ * POST /api/docker/migrations/up - Apply pending migrations
+ * Body: { projectId, containerType?: "postgres" | "pgvector", seed?: boolean }
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const user = await getUserByEmail(session.user.email);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { projectId, containerType = "postgres", seed } = body as {
+      projectId: string;
+      containerType?: MigrationContainerType;
+      seed?: boolean;
+    };
+
+    if (!projectId || typeof projectId !== "string") {
+      return NextResponse.json(
+        { error: "Project ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!CONTAINER_TYPES.includes(containerType)) {
+      return NextResponse.json(
+        { error: "containerType must be postgres or pgvector" },
+        { status: 400 }
+      );
+    }
+
+    // Get project containers
+    const project = await getProjectContainers(projectId);
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project has no active containers" },
+        { status: 404 }
+      );
+    }
+
+    // Verify user owns this project
+    if (project.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    if (!project.containers.some(c => c.type === containerType)) {
+      return NextResponse.json(
+        { error: `Project has no ${containerType} container` },
+        { status: 404 }
+      );
+    }
+
+    await updateProjectActivity(projectId);
+
+    const result = await applyMigrations(projectId, { containerType, seed: seed === true });
+
+    if (result.failed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `${result.failed.kind === "seed" ? "Seed" : "Migration"} ${result.failed.version} failed: ${result.failed.error}`,
+          applied: result.applied,
+          failed: result.failed,
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      applied: result.applied,
+    });
+
+  } catch (error) {
+    if (error instanceof MigrationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      );
+    }
+    console.error("Error applying migrations:", error);
+    return NextResponse.json(
+      { error: "Failed to apply migrations" },
+      { status: 500 }
+    );
+  }
+}
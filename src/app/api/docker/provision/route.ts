@@ -7,7 +7,7 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
-import { getUserByEmail, getUserSubscription } from "@/lib/db/supabase";
+import { getUserByEmail, getUserSubscription, getProject } from "@/lib/db/supabase";
 import {
   provisionContainers,
   canProvision,
@@ -59,7 +59,7 @@ export async function POST(request: Request) {
     }
     
     // Validate service types
-    const validServices: ContainerType[] = ["postgres", "redis", "pgvector"];
+    const validServices: ContainerType[] = ["postgres", "redis", "pgvector", "mysql", "mongodb", "app"];
     for (const service of services) {
       if (!validServices.includes(service)) {
         return NextResponse.json(
@@ -69,6 +69,17 @@ export async function POST(request: Request) {
       }
     }
     
+    // The app container runs the project's own files
+    if (services.includes("app")) {
+      const project = await getProject(projectId);
+      if (!project || project.user_id !== user.id) {
+        return NextResponse.json(
+          { error: "Project not found" },
+          { status: 404 }
+        );
+      }
+    }
+    
     // Get user's subscription to check tier
     const subscription = await getUserSubscription(user.id);
     const tier = subscription?.tier || "free";
@@ -76,7 +87,7 @@ export async function POST(request: Request) {
     console.log("[Docker Provision] User:", user.id, "Subscription:", subscription, "Tier:", tier);
     
     // Get current Docker projects count for user
-    const userDockerProjects = getDockerProjects(user.id);
+    const userDockerProjects = await getDockerProjects(user.id);
     
     // Check if user can provision
     const canProvisionResult = canProvision(tier, userDockerProjects.length, services);
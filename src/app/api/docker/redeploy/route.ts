@@ -0,0 +1,104 @@
+/**
+ * Docker Redeploy API Route
+ *
+ * Recreates a project's app container from its current files and env vars
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserByEmail } from "@/lib/db/supabase";
+import {
+  getProjectContainers,
+  redeployApp,
+  updateProjectActivity,
+} from "@/lib/docker";
+
+/**
+ * POST /api/docker/redeploy - Redeploy the app container for a project
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const user = await getUserByEmail(session.user.email);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { projectId } = body as { projectId: string };
+
+    if (!projectId || typeof projectId !== "string") {
+      return NextResponse.json(
+        { error: "Project ID is required" },
+        { status: 400 }
+      );
+    }
+
+    // Get project containers
+    const project = await getProjectContainers(projectId);
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project has no active containers" },
+        { status: 404 }
+      );
+    }
+
+    // Verify user owns this project
+    if (project.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    if (!project.containers.some(c => c.type === "app")) {
+      return NextResponse.json(
+        { error: "Project has no app container" },
+        { status: 404 }
+      );
+    }
+
+    await updateProjectActivity(projectId);
+
+    const result = await redeployApp(projectId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || "Failed to redeploy app" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      container: result.container && {
+        id: result.container.id,
+        status: result.container.status,
+        host: result.container.host,
+        port: result.container.port,
+        url: result.container.connectionString,
+      },
+    });
+
+  } catch (error) {
+    console.error("Error redeploying app container:", error);
+    return NextResponse.json(
+      { error: "Failed to redeploy app" },
+      { status: 500 }
+    );
+  }
+}
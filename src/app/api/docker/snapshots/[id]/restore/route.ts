@@ -0,0 +1,85 @@
+/**
+ * Restore Docker Snapshot API Route
+ *
+ * Restores a database container from a pg_dump snapshot
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserByEmail } from "@/lib/db/supabase";
+import {
+  getProjectContainers,
+  getSnapshot,
+  restoreSnapshot,
+  SnapshotError,
+  updateProjectActivity,
+} from "@/lib/docker";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/docker/snapshots/[id]/restore - Restore a snapshot into its container
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const user = await getUserByEmail(session.user.email);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const snapshot = await getSnapshot(id);
+    const project = snapshot ? await getProjectContainers(snapshot.projectId) : null;
+
+    // Snapshots of other users' projects are reported as missing
+    if (!snapshot || !project || project.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Snapshot not found" },
+        { status: 404 }
+      );
+    }
+
+    await updateProjectActivity(snapshot.projectId);
+
+    await restoreSnapshot(id);
+
+    return NextResponse.json({
+      success: true,
+      snapshot: {
+        id: snapshot.id,
+        name: snapshot.name,
+        containerType: snapshot.containerType,
+        createdAt: snapshot.createdAt,
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof SnapshotError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === "not_found" ? 404 : 500 }
+      );
+    }
+    console.error("Error restoring snapshot:", error);
+    return NextResponse.json(
+      { error: "Failed to restore snapshot" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Docker Snapshot API Route
+ *
+ * Deletes a database snapshot
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserByEmail } from "@/lib/db/supabase";
+import {
+  deleteSnapshot,
+  getProjectContainers,
+  getSnapshot,
+  SnapshotError,
+} from "@/lib/docker";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * DELETE /api/docker/snapshots/[id] - Delete a snapshot and its dump
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const user = await getUserByEmail(session.user.email);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const snapshot = await getSnapshot(id);
+    const project = snapshot ? await getProjectContainers(snapshot.projectId) : null;
+
+    // Snapshots of other users' projects are reported as missing
+    if (!snapshot || !project || project.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Snapshot not found" },
+        { status: 404 }
+      );
+    }
+
+    await deleteSnapshot(id);
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof SnapshotError && error.code === "not_found") {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+    console.error("Error deleting snapshot:", error);
+    return NextResponse.json(
+      { error: "Failed to delete snapshot" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Docker Snapshots API Route
+ *
+ * Lists and creates pg_dump snapshots of a project's database containers
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserByEmail, getUserSubscription } from "@/lib/db/supabase";
+import {
+  createSnapshot,
+  getProjectContainers,
+  getProjectSnapshots,
+  SnapshotError,
+  updateProjectActivity,
+  type SnapshotContainerType,
+} from "@/lib/docker";
+
+const SNAPSHOT_ERROR_STATUS: Record<SnapshotError["code"], number> = {
+  not_found: 404,
+  not_allowed: 403,
+  conflict: 409,
+  invalid: 400,
+  failed: 500,
+};
+
+/**
+ * GET /api/docker/snapshots?projectId=xxx - List a project's snapshots
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const user = await getUserByEmail(session.user.email);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get("projectId");
+
+    if (!projectId) {
+      return NextResponse.json(
+        { error: "Project ID is required" },
+        { status: 400 }
+      );
+    }
+
+    // Get project containers
+    const project = await getProjectContainers(projectId);
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project has no active containers" },
+        { status: 404 }
+      );
+    }
+
+    // Verify user owns this project
+    if (project.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const snapshots = await getProjectSnapshots(projectId);
+
+    return NextResponse.json({
+      success: true,
+      snapshots: snapshots.map(s => ({
+        id: s.id,
+        name: s.name,
+        containerType: s.containerType,
+        sizeBytes: s.sizeBytes,
+        createdAt: s.createdAt,
+      })),
+    });
+
+  } catch (error) {
+    console.error("Error listing snapshots:", error);
+    return NextResponse.json(
+      { error: "Failed to list snapshots" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/docker/snapshots - Snapshot a database container
+ * Body: { projectId, containerType?: "postgres" | "pgvector", name? }
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const user = await getUserByEmail(session.user.email);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { projectId, containerType = "postgres", name } = body as {
+      projectId: string;
+      containerType?: SnapshotContainerType;
+      name?: string;
+    };
+
+    if (!projectId || typeof projectId !== "string") {
+      return NextResponse.json(
+        { error: "Project ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!["postgres", "pgvector"].includes(containerType)) {
+      return NextResponse.json(
+        { error: "Valid container type is required (postgres, pgvector)" },
+        { status: 400 }
+      );
+    }
+
+    if (name !== undefined && typeof name !== "string") {
+      return NextResponse.json(
+        { error: "Name must be a string" },
+        { status: 400 }
+      );
+    }
+
+    // Get project containers
+    const project = await getProjectContainers(projectId);
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project has no active containers" },
+        { status: 404 }
+      );
+    }
+
+    // Verify user owns this project
+    if (project.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    // Retention depends on the subscription tier
+    const subscription = await getUserSubscription(user.id);
+    const tier = subscription?.tier || "free";
+
+    await updateProjectActivity(projectId);
+
+    const snapshot = await createSnapshot(projectId, { containerType, name, tier });
+
+    return NextResponse.json({
+      success: true,
+      snapshot: {
+        id: snapshot.id,
+        name: snapshot.name,
+        containerType: snapshot.containerType,
+        sizeBytes: snapshot.sizeBytes,
+        createdAt: snapshot.createdAt,
+      },
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof SnapshotError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: SNAPSHOT_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error("Error creating snapshot:", error);
+    return NextResponse.json(
+      { error: "Failed to create snapshot" },
+      { status: 500 }
+    );
+  }
+}
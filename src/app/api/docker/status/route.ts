@@ -12,6 +12,8 @@ import {
   getContainerStatus,
   getProjectContainers,
   getConnectionStrings,
+  getHealthSummaries,
+  getMetricsSummaries,
   updateProjectActivity,
 } from "@/lib/docker";
 
@@ -49,7 +51,7 @@ export async function GET(request: Request) {
     }
     
     // Get project containers
-    const project = getProjectContainers(projectId);
+    const project = await getProjectContainers(projectId);
     
     if (!project) {
       return NextResponse.json({
@@ -69,7 +71,7 @@ export async function GET(request: Request) {
     }
     
     // Update activity timestamp
-    updateProjectActivity(projectId);
+    await updateProjectActivity(projectId);
     
     // Get detailed status
     const status = await getContainerStatus(projectId);
@@ -84,12 +86,19 @@ export async function GET(request: Request) {
     }
     
     // Get connection strings
-    const connectionStrings = getConnectionStrings(projectId);
+    const connectionStrings = await getConnectionStrings(projectId);
+    
+    // Uptime and recent failures recorded by the health monitor
+    const health = await getHealthSummaries(status.containers);
+    
+    // Resource usage sampled by the health monitor
+    const metrics = await getMetricsSummaries(status.containers);
     
     return NextResponse.json({
       success: true,
       hasContainers: true,
       overallStatus: status.status,
+      waking: status.waking,
       containers: status.containers.map(c => ({
         id: c.id,
         type: c.type,
@@ -99,6 +108,8 @@ export async function GET(request: Request) {
         port: c.port,
         error: c.error,
         lastHealthCheck: c.lastHealthCheck,
+        health: health[c.id],
+        metrics: metrics[c.id],
       })),
       connectionStrings,
       createdAt: project.createdAt,
@@ -0,0 +1,111 @@
+/**
+ * Docker Vector Query API Route
+ *
+ * Finds the nearest vectors in a collection
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserByEmail } from "@/lib/db/supabase";
+import {
+  getProjectContainers,
+  queryVectors,
+  updateProjectActivity,
+  VectorError,
+  type VectorMetric,
+} from "@/lib/docker";
+
+interface RouteParams {
+  params: Promise<{ name: string }>;
+}
+
+/**
+ * POST /api/docker/vectors/[name]/query - Top-k nearest vectors
+ * Body: { projectId, vector, topK?, metric?: "cosine" | "l2", filter?: metadata subset }
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { name } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const user = await getUserByEmail(session.user.email);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { projectId, vector, topK, metric, filter } = body as {
+      projectId: string;
+      vector: number[];
+      topK?: number;
+      metric?: VectorMetric;
+      filter?: Record<string, unknown>;
+    };
+
+    if (!projectId || typeof projectId !== "string") {
+      return NextResponse.json(
+        { error: "Project ID is required" },
+        { status: 400 }
+      );
+    }
+
+    // Get project containers
+    const project = await getProjectContainers(projectId);
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project has no active containers" },
+        { status: 404 }
+      );
+    }
+
+    // Verify user owns this project
+    if (project.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    if (!project.containers.some(c => c.type === "pgvector")) {
+      return NextResponse.json(
+        { error: "Project has no pgvector container" },
+        { status: 404 }
+      );
+    }
+
+    await updateProjectActivity(projectId);
+
+    const matches = await queryVectors(projectId, name, { vector, topK, metric, filter });
+
+    return NextResponse.json({
+      success: true,
+      matches,
+    });
+
+  } catch (error) {
+    if (error instanceof VectorError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === "not_found" ? 404 : error.code === "invalid" ? 400 : 500 }
+      );
+    }
+    console.error("Error querying vectors:", error);
+    return NextResponse.json(
+      { error: "Failed to query vectors" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Docker Vector Collection API Route
+ *
+ * Deletes a vector collection
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserByEmail } from "@/lib/db/supabase";
+import {
+  deleteCollection,
+  getProjectContainers,
+  updateProjectActivity,
+  VectorError,
+} from "@/lib/docker";
+
+interface RouteParams {
+  params: Promise<{ name: string }>;
+}
+
+/**
+ * DELETE /api/docker/vectors/[name]?projectId=xxx - Delete a collection and its vectors
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { name } = await params;
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const user = await getUserByEmail(session.user.email);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get("projectId");
+
+    if (!projectId) {
+      return NextResponse.json(
+        { error: "Project ID is required" },
+        { status: 400 }
+      );
+    }
+
+    // Get project containers
+    const project = await getProjectContainers(projectId);
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project has no active containers" },
+        { status: 404 }
+      );
+    }
+
+    // Verify user owns this project
+    if (project.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    if (!project.containers.some(c => c.type === "pgvector")) {
+      return NextResponse.json(
+        { error: "Project has no pgvector container" },
+        { status: 404 }
+      );
+    }
+
+    await updateProjectActivity(projectId);
+
+    await deleteCollection(projectId, name);
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof VectorError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === "not_found" ? 404 : 500 }
+      );
+    }
+    console.error("Error deleting vector collection:", error);
+    return NextResponse.json(
+      { error: "Failed to delete collection" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Docker Vector Collections API Route
+ *
+ * Lists and creates vector collections in a project's pgvector container
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserByEmail } from "@/lib/db/supabase";
+import {
+  createCollection,
+  getProjectContainers,
+  listCollections,
+  updateProjectActivity,
+  VectorError,
+  type VectorMetric,
+} from "@/lib/docker";
+
+const VECTOR_ERROR_STATUS: Record<VectorError["code"], number> = {
+  not_found: 404,
+  conflict: 409,
+  invalid: 400,
+  failed: 500,
+};
+
+/**
+ * GET /api/docker/vectors?projectId=xxx - List a project's collections
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const user = await getUserByEmail(session.user.email);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get("projectId");
+
+    if (!projectId) {
+      return NextResponse.json(
+        { error: "Project ID is required" },
+        { status: 400 }
+      );
+    }
+
+    // Get project containers
+    const project = await getProjectContainers(projectId);
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project has no active containers" },
+        { status: 404 }
+      );
+    }
+
+    // Verify user owns this project
+    if (project.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    if (!project.containers.some(c => c.type === "pgvector")) {
+      return NextResponse.json(
+        { error: "Project has no pgvector container" },
+        { status: 404 }
+      );
+    }
+
+    await updateProjectActivity(projectId);
+
+    const collections = await listCollections(projectId);
+
+    return NextResponse.json({
+      success: true,
+      collections,
+    });
+
+  } catch (error) {
+    if (error instanceof VectorError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: VECTOR_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error("Error listing vector collections:", error);
+    return NextResponse.json(
+      { error: "Failed to list collections" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/docker/vectors - Create a collection
+ * Body: { projectId, name, dimensions, metric?: "cosine" | "l2" }
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const user = await getUserByEmail(session.user.email);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { projectId, name, dimensions, metric } = body as {
+      projectId: string;
+      name: string;
+      dimensions: number;
+      metric?: VectorMetric;
+    };
+
+    if (!projectId || typeof projectId !== "string") {
+      return NextResponse.json(
+        { error: "Project ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!name || typeof name !== "string") {
+      return NextResponse.json(
+        { error: "Collection name is required" },
+        { status: 400 }
+      );
+    }
+
+    // Get project containers
+    const project = await getProjectContainers(projectId);
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project has no active containers" },
+        { status: 404 }
+      );
+    }
+
+    // Verify user owns this project
+    if (project.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    if (!project.containers.some(c => c.type === "pgvector")) {
+      return NextResponse.json(
+        { error: "Project has no pgvector container" },
+        { status: 404 }
+      );
+    }
+
+    await updateProjectActivity(projectId);
+
+    const collection = await createCollection(projectId, { name, dimensions, metric });
+
+    return NextResponse.json({
+      success: true,
+      collection,
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof VectorError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: VECTOR_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error("Error creating vector collection:", error);
+    return NextResponse.json(
+      { error: "Failed to create collection" },
+      { status: 500 }
+    );
+  }
+}
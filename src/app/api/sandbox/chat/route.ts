@@ -5,13 +5,33 @@
  * Uses Server-Sent Events (SSE) for real-time streaming.
  * 
  * Supports agent addons via custom system prompts passed from the frontend.
+ * 
+ * Execution modes:
+ * - "client" (default): the loop stops at the first tool use and emits
+ *   `need_tool_results`; the client runs the tools and continues via
+ *   /api/sandbox/execute-tool.
+ * - "server": file tools run directly against the project's stored files and
+ *   the loop continues until the model stops or the iteration cap is hit.
+ *   Browser-only tools (run_command, start_dev_server, ...) still pause for
+ *   the client, which resumes the loop via /api/sandbox/execute-tool with
+ *   executionMode "server", the returned messages and serverToolResults.
  */
 
 import Anthropic from "@anthropic-ai/sdk";
+import { getServerSession } from "next-auth";
+import { authOptions, getTierFromSession } from "@/lib/auth";
 import { SANDBOX_TOOLS, SYSTEM_PROMPT } from "@/lib/sandbox/ai-tools";
+import { resolveSandboxModel } from "@/lib/sandbox/model-selection";
+import { checkServerModeAccess, resolveMaxIterations } from "@/lib/sandbox/server-mode";
+import {
+  executeServerTool,
+  isServerExecutableTool,
+  type ServerToolResult,
+} from "@/lib/sandbox/tool-executor";
 
-export const runtime = "edge";
-export const maxDuration = 60;
+// Server mode needs Prisma, which is not available on the edge runtime
+export const runtime = "nodejs";
+export const maxDuration = 300;
 
 interface ChatMessage {
   role: "user" | "assistant";
@@ -22,12 +42,20 @@ interface RequestBody {
   messages: ChatMessage[];
   apiKey?: string;
   tier?: "free" | "pro" | "enterprise";
+  /** Model ID from AI_MODELS (defaults to claude-sonnet) */
+  modelId?: string;
   /** Custom system prompt from frontend (with agent addons applied) */
   customSystemPrompt?: string;
   /** Custom tools from frontend (with agent addon tools) */
   customTools?: Anthropic.Tool[];
   /** Active addon IDs for logging/analytics */
   activeAddons?: string[];
+  /** Where file tools are executed (defaults to "client") */
+  executionMode?: "client" | "server";
+  /** Project whose files are used by server-executed tools (required in server mode) */
+  projectId?: string;
+  /** Max model turns in server mode (capped by SANDBOX_MAX_ITERATIONS) */
+  maxIterations?: number;
 }
 
 // Response delay based on subscription tier (in ms)
@@ -40,7 +68,44 @@ const TIER_DELAYS: Record<string, number> = {
 export async function POST(request: Request) {
   try {
     const body: RequestBody = await request.json();
-    const { messages, apiKey, tier = "free", customSystemPrompt, customTools, activeAddons } = body;
+    const {
+      messages,
+      apiKey,
+      tier = "free",
+      customSystemPrompt,
+      customTools,
+      activeAddons,
+      executionMode = "client",
+      projectId,
+      modelId,
+    } = body;
+    
+    const serverMode = executionMode === "server";
+    const maxIterations = resolveMaxIterations(body.maxIterations);
+    const session = await getServerSession(authOptions);
+    
+    // Model access is gated by the tier on the session, not the request body
+    const modelResolution = resolveSandboxModel(modelId, getTierFromSession(session));
+    
+    if (!modelResolution.model) {
+      return new Response(
+        JSON.stringify({ error: modelResolution.error, requiresUpgrade: modelResolution.requiresUpgrade }),
+        { status: modelResolution.status, headers: { "Content-Type": "application/json" } }
+      );
+    }
+    
+    const model = modelResolution.model;
+    
+    // Server mode writes to the project's files, so require an owned project
+    if (serverMode) {
+      const denied = await checkServerModeAccess(session, projectId);
+      if (denied) {
+        return new Response(
+          JSON.stringify({ error: denied.error }),
+          { status: denied.status, headers: { "Content-Type": "application/json" } }
+        );
+      }
+    }
     
     // Apply artificial delay for free tier users
     const delay = TIER_DELAYS[tier] || TIER_DELAYS.free;
@@ -85,13 +150,18 @@ export async function POST(request: Request) {
     // Process the AI response in the background
     (async () => {
       try {
+        await writer.write(encoder.encode(`data: ${JSON.stringify({ type: "metadata", model: { id: model.id, name: model.name, provider: model.provider } })}\n\n`));
+        
         let continueLoop = true;
         let currentMessages = anthropicMessages;
+        let iteration = 0;
         
         while (continueLoop) {
+          iteration++;
+          
           const response = await client.messages.create({
-            model: "claude-sonnet-4-20250514",
-            max_tokens: 8192,
+            model: model.apiModel,
+            max_tokens: model.maxOutput,
             system: systemPrompt,
             tools: tools,
             messages: currentMessages,
@@ -145,18 +215,20 @@ export async function POST(request: Request) {
           if (toolUses.length > 0) {
             // Add assistant message with tool uses
             const assistantContent: (Anthropic.TextBlockParam | Anthropic.ToolUseBlockParam)[] = [];
+            const parsedInputs = new Map<string, Record<string, unknown>>();
             
             if (currentText) {
               assistantContent.push({ type: "text", text: currentText });
             }
             
             for (const tool of toolUses) {
-              let parsedInput = {};
+              let parsedInput: Record<string, unknown> = {};
               try {
                 parsedInput = JSON.parse(tool.input);
               } catch {
                 // Use empty object if parsing fails
               }
+              parsedInputs.set(tool.id, parsedInput);
               
               assistantContent.push({
                 type: "tool_use",
@@ -171,13 +243,58 @@ export async function POST(request: Request) {
               { role: "assistant", content: assistantContent }
             ];
             
-            // Collect tool results from the client
-            // For now, we'll signal that tools need execution
-            await writer.write(encoder.encode(`data: ${JSON.stringify({ type: "need_tool_results", tools: toolUses })}\n\n`));
+            if (!serverMode) {
+              // Client mode: signal that tools need execution and let the client
+              // continue via /api/sandbox/execute-tool
+              await writer.write(encoder.encode(`data: ${JSON.stringify({ type: "need_tool_results", tools: toolUses })}\n\n`));
+              continueLoop = false;
+              continue;
+            }
             
-            // In a real implementation, we'd wait for tool results from the client
-            // For simplicity, we'll end the loop here and let the client handle tool execution
-            continueLoop = false;
+            // Server mode: run file tools here, defer browser-only tools to the client
+            const serverResults: ServerToolResult[] = [];
+            const clientTools = toolUses.filter(tool => !isServerExecutableTool(tool.name));
+            
+            for (const tool of toolUses.filter(t => isServerExecutableTool(t.name))) {
+              const result = await executeServerTool(
+                projectId as string,
+                tool.id,
+                tool.name,
+                parsedInputs.get(tool.id) || {}
+              );
+              serverResults.push(result);
+              await writer.write(encoder.encode(`data: ${JSON.stringify({ type: "tool_result", id: result.toolUseId, name: result.name, result: result.result, isError: result.isError })}\n\n`));
+            }
+            
+            if (clientTools.length > 0) {
+              // The client must execute the remaining tools and continue via
+              // /api/sandbox/execute-tool in server mode with both sets of results
+              await writer.write(encoder.encode(`data: ${JSON.stringify({
+                type: "need_tool_results",
+                tools: clientTools,
+                serverToolResults: serverResults.map(r => ({ toolUseId: r.toolUseId, result: r.result, isError: r.isError })),
+                messages: currentMessages,
+              })}\n\n`));
+              continueLoop = false;
+              continue;
+            }
+            
+            const toolResultContent: Anthropic.ToolResultBlockParam[] = serverResults.map(r => ({
+              type: "tool_result",
+              tool_use_id: r.toolUseId,
+              content: r.result,
+              is_error: r.isError,
+            }));
+            
+            currentMessages = [
+              ...currentMessages,
+              { role: "user", content: toolResultContent }
+            ];
+            
+            if (iteration >= maxIterations) {
+              await writer.write(encoder.encode(`data: ${JSON.stringify({ type: "max_iterations_reached", iterations: iteration, messages: currentMessages })}\n\n`));
+              continueLoop = false;
+            }
           } else {
             continueLoop = false;
           }
@@ -3,29 +3,90 @@
  * 
  * After the client executes tools locally, this endpoint continues the conversation
  * with the tool results.
+ * 
+ * In "server" execution mode (see /api/sandbox/chat) the results of tools the
+ * server already ran are passed back as `serverToolResults`, and the agent loop
+ * resumes: file tools keep running on the server until the model stops, the
+ * iteration cap is hit, or another browser-only tool pauses for the client.
  */
 
 import Anthropic from "@anthropic-ai/sdk";
+import { getServerSession } from "next-auth";
+import { authOptions, getTierFromSession } from "@/lib/auth";
 import { SANDBOX_TOOLS, SYSTEM_PROMPT } from "@/lib/sandbox/ai-tools";
+import { resolveSandboxModel } from "@/lib/sandbox/model-selection";
+import { checkServerModeAccess, resolveMaxIterations } from "@/lib/sandbox/server-mode";
+import {
+  executeServerTool,
+  isServerExecutableTool,
+  type ServerToolResult,
+} from "@/lib/sandbox/tool-executor";
 
-export const runtime = "edge";
-export const maxDuration = 60;
+// Session lookup and server mode need the Node.js runtime
+export const runtime = "nodejs";
+export const maxDuration = 300;
 
 interface ToolResult {
   toolUseId: string;
   result: string;
+  isError?: boolean;
 }
 
 interface RequestBody {
   messages: Anthropic.MessageParam[];
   toolResults: ToolResult[];
+  /** Results of tools the server already ran in the same turn (server mode) */
+  serverToolResults?: ToolResult[];
   apiKey?: string;
+  /** Model ID from AI_MODELS (defaults to claude-sonnet) */
+  modelId?: string;
+  /** Where file tools are executed (defaults to "client") */
+  executionMode?: "client" | "server";
+  /** Project whose files are used by server-executed tools (required in server mode) */
+  projectId?: string;
+  /** Max model turns in server mode (capped by SANDBOX_MAX_ITERATIONS) */
+  maxIterations?: number;
 }
 
 export async function POST(request: Request) {
   try {
     const body: RequestBody = await request.json();
-    const { messages, toolResults, apiKey } = body;
+    const {
+      messages,
+      toolResults,
+      serverToolResults = [],
+      apiKey,
+      modelId,
+      executionMode = "client",
+      projectId,
+    } = body;
+    
+    const serverMode = executionMode === "server";
+    const maxIterations = resolveMaxIterations(body.maxIterations);
+    
+    // Model access is gated by the tier on the session, not the request body
+    const session = await getServerSession(authOptions);
+    const modelResolution = resolveSandboxModel(modelId, getTierFromSession(session));
+    
+    if (!modelResolution.model) {
+      return new Response(
+        JSON.stringify({ error: modelResolution.error, requiresUpgrade: modelResolution.requiresUpgrade }),
+        { status: modelResolution.status, headers: { "Content-Type": "application/json" } }
+      );
+    }
+    
+    const model = modelResolution.model;
+    
+    // Server mode writes to the project's files, so require an owned project
+    if (serverMode) {
+      const denied = await checkServerModeAccess(session, projectId);
+      if (denied) {
+        return new Response(
+          JSON.stringify({ error: denied.error }),
+          { status: denied.status, headers: { "Content-Type": "application/json" } }
+        );
+      }
+    }
     
     const anthropicApiKey = apiKey || process.env.ANTHROPIC_API_KEY;
     
@@ -38,11 +99,12 @@ export async function POST(request: Request) {
     
     const client = new Anthropic({ apiKey: anthropicApiKey });
     
-    // Add tool results to messages
-    const toolResultContent: Anthropic.ToolResultBlockParam[] = toolResults.map(tr => ({
+    // Add tool results to messages (one tool_result per tool_use of the last turn)
+    const toolResultContent: Anthropic.ToolResultBlockParam[] = [...serverToolResults, ...toolResults].map(tr => ({
       type: "tool_result",
       tool_use_id: tr.toolUseId,
-      content: tr.result
+      content: tr.result,
+      ...(tr.isError && { is_error: true }),
     }));
     
     const updatedMessages: Anthropic.MessageParam[] = [
@@ -57,67 +119,82 @@ export async function POST(request: Request) {
     
     (async () => {
       try {
-        const response = await client.messages.create({
-          model: "claude-sonnet-4-20250514",
-          max_tokens: 8192,
-          system: SYSTEM_PROMPT,
-          tools: SANDBOX_TOOLS,
-          messages: updatedMessages,
-          stream: true
-        });
+        await writer.write(encoder.encode(`data: ${JSON.stringify({ type: "metadata", model: { id: model.id, name: model.name, provider: model.provider } })}\n\n`));
         
-        let currentText = "";
-        const toolUses: { id: string; name: string; input: string }[] = [];
-        let currentToolUse: { id: string; name: string; input: string } | null = null;
+        let continueLoop = true;
+        let currentMessages = updatedMessages;
+        let iteration = 0;
         
-        for await (const event of response) {
-          switch (event.type) {
-            case "content_block_start":
-              if (event.content_block.type === "tool_use") {
-                currentToolUse = {
-                  id: event.content_block.id,
-                  name: event.content_block.name,
-                  input: ""
-                };
-                await writer.write(encoder.encode(`data: ${JSON.stringify({ type: "tool_start", id: event.content_block.id, name: event.content_block.name })}\n\n`));
-              }
-              break;
-              
-            case "content_block_delta":
-              if (event.delta.type === "text_delta") {
-                currentText += event.delta.text;
-                await writer.write(encoder.encode(`data: ${JSON.stringify({ type: "text", text: event.delta.text })}\n\n`));
-              } else if (event.delta.type === "input_json_delta" && currentToolUse) {
-                currentToolUse.input += event.delta.partial_json;
-                await writer.write(encoder.encode(`data: ${JSON.stringify({ type: "tool_input", input: event.delta.partial_json })}\n\n`));
-              }
-              break;
-              
-            case "content_block_stop":
-              if (currentToolUse) {
-                toolUses.push(currentToolUse);
-                await writer.write(encoder.encode(`data: ${JSON.stringify({ type: "tool_complete", id: currentToolUse.id, name: currentToolUse.name, input: currentToolUse.input })}\n\n`));
-                currentToolUse = null;
-              }
-              break;
+        while (continueLoop) {
+          iteration++;
+          
+          const response = await client.messages.create({
+            model: model.apiModel,
+            max_tokens: model.maxOutput,
+            system: SYSTEM_PROMPT,
+            tools: SANDBOX_TOOLS,
+            messages: currentMessages,
+            stream: true
+          });
+          
+          let currentText = "";
+          const toolUses: { id: string; name: string; input: string }[] = [];
+          let currentToolUse: { id: string; name: string; input: string } | null = null;
+          
+          for await (const event of response) {
+            switch (event.type) {
+              case "content_block_start":
+                if (event.content_block.type === "tool_use") {
+                  currentToolUse = {
+                    id: event.content_block.id,
+                    name: event.content_block.name,
+                    input: ""
+                  };
+                  await writer.write(encoder.encode(`data: ${JSON.stringify({ type: "tool_start", id: event.content_block.id, name: event.content_block.name })}\n\n`));
+                }
+                break;
+                
+              case "content_block_delta":
+                if (event.delta.type === "text_delta") {
+                  currentText += event.delta.text;
+                  await writer.write(encoder.encode(`data: ${JSON.stringify({ type: "text", text: event.delta.text })}\n\n`));
+                } else if (event.delta.type === "input_json_delta" && currentToolUse) {
+                  currentToolUse.input += event.delta.partial_json;
+                  await writer.write(encoder.encode(`data: ${JSON.stringify({ type: "tool_input", input: event.delta.partial_json })}\n\n`));
+                }
+                break;
+                
+              case "content_block_stop":
+                if (currentToolUse) {
+                  toolUses.push(currentToolUse);
+                  await writer.write(encoder.encode(`data: ${JSON.stringify({ type: "tool_complete", id: currentToolUse.id, name: currentToolUse.name, input: currentToolUse.input })}\n\n`));
+                  currentToolUse = null;
+                }
+                break;
+            }
           }
-        }
-        
-        if (toolUses.length > 0) {
+          
+          if (toolUses.length === 0) {
+            continueLoop = false;
+            continue;
+          }
+          
           // Build assistant content for continuation
           const assistantContent: (Anthropic.TextBlockParam | Anthropic.ToolUseBlockParam)[] = [];
+          const parsedInputs = new Map<string, Record<string, unknown>>();
           
           if (currentText) {
             assistantContent.push({ type: "text", text: currentText });
           }
           
           for (const tool of toolUses) {
-            let parsedInput = {};
+            let parsedInput: Record<string, unknown> = {};
             try {
               parsedInput = JSON.parse(tool.input);
             } catch {
               // Use empty object if parsing fails
             }
+            parsedInputs.set(tool.id, parsedInput);
             
             assistantContent.push({
               type: "tool_use",
@@ -127,11 +204,66 @@ export async function POST(request: Request) {
             });
           }
           
-          await writer.write(encoder.encode(`data: ${JSON.stringify({ 
-            type: "need_tool_results", 
-            tools: toolUses,
-            assistantContent
-          })}\n\n`));
+          if (!serverMode) {
+            await writer.write(encoder.encode(`data: ${JSON.stringify({ 
+              type: "need_tool_results", 
+              tools: toolUses,
+              assistantContent
+            })}\n\n`));
+            continueLoop = false;
+            continue;
+          }
+          
+          currentMessages = [
+            ...currentMessages,
+            { role: "assistant", content: assistantContent }
+          ];
+          
+          // Server mode: run file tools here, defer browser-only tools to the client
+          const serverResults: ServerToolResult[] = [];
+          const clientTools = toolUses.filter(tool => !isServerExecutableTool(tool.name));
+          
+          for (const tool of toolUses.filter(t => isServerExecutableTool(t.name))) {
+            const result = await executeServerTool(
+              projectId as string,
+              tool.id,
+              tool.name,
+              parsedInputs.get(tool.id) || {}
+            );
+            serverResults.push(result);
+            await writer.write(encoder.encode(`data: ${JSON.stringify({ type: "tool_result", id: result.toolUseId, name: result.name, result: result.result, isError: result.isError })}\n\n`));
+          }
+          
+          if (clientTools.length > 0) {
+            // The client executes the remaining tools and calls this route again
+            await writer.write(encoder.encode(`data: ${JSON.stringify({
+              type: "need_tool_results",
+              tools: clientTools,
+              assistantContent,
+              serverToolResults: serverResults.map(r => ({ toolUseId: r.toolUseId, result: r.result, isError: r.isError })),
+              messages: currentMessages,
+            })}\n\n`));
+            continueLoop = false;
+            continue;
+          }
+          
+          currentMessages = [
+            ...currentMessages,
+            {
+              role: "user",
+              content: serverResults.map((r): Anthropic.ToolResultBlockParam => ({
+                type: "tool_result",
+                tool_use_id: r.toolUseId,
+                content: r.result,
+                is_error: r.isError,
+              })),
+            }
+          ];
+          
+          if (iteration >= maxIterations) {
+            await writer.write(encoder.encode(`data: ${JSON.stringify({ type: "max_iterations_reached", iterations: iteration, messages: currentMessages })}\n\n`));
+            continueLoop = false;
+          }
         }
         
         await writer.write(encoder.encode("data: [DONE]\n\n"));
@@ -0,0 +1,26 @@
+/**
+ * Server Instrumentation
+ *
+ * Runs once when a server instance starts.
+ */
+
+export async function register() {
+  // Docker state lives in the database; bring it in line with the daemon
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { reconcileContainers } = await import("@/lib/docker/manager");
+    const { startHealthMonitor } = await import("@/lib/docker/monitor");
+    try {
+      const result = await reconcileContainers();
+      if (result.adopted.length || result.removed.length || result.missing.length) {
+        console.log(
+          `[Docker] Reconciled containers: ${result.adopted.length} adopted, ` +
+          `${result.removed.length} removed, ${result.missing.length} missing`
+        );
+      }
+    } catch (error) {
+      console.error("Docker reconciliation failed:", error);
+    }
+
+    startHealthMonitor();
+  }
+}
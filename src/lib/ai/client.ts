@@ -1,11 +1,17 @@
 /**
- * AI Client (Stub)
+ * AI Client
  * 
- * Interface and mock implementation for AI API calls.
- * Will be replaced with real implementations when backend is connected.
+ * Interface, mock implementation and factory for AI API calls.
+ * Real provider clients live in ./providers and are selected by the
+ * model's provider.
  */
 
 import { StructuredPrompt, formatForAPI } from "./promptBuilder";
+import { AIModel, getModel, getDefaultModel } from "./models";
+import { AnthropicAIClient } from "./providers/anthropic";
+import { OpenAIClient } from "./providers/openai";
+import { GoogleAIClient } from "./providers/google";
+import { AIGenerationError } from "./errors";
 
 export interface GenerationResult {
   id: string;
@@ -19,17 +25,22 @@ export interface GenerationResult {
   cost: number; // USD
 }
 
-export interface GenerationError {
-  code: string;
-  message: string;
-  retryable: boolean;
+export type { GenerationError } from "./errors";
+export { AIGenerationError } from "./errors";
+
+export interface GenerationOptions {
+  /** Caller-supplied ID so the generation can be cancelled while in flight */
+  generationId?: string;
+  /** Called with the generation ID before the request starts, for cancelGeneration */
+  onStart?: (id: string) => void;
 }
 
 export interface AIClient {
-  generate(prompt: StructuredPrompt): Promise<GenerationResult>;
+  generate(prompt: StructuredPrompt, options?: GenerationOptions): Promise<GenerationResult>;
   streamGenerate(
     prompt: StructuredPrompt,
-    onChunk: (chunk: string) => void
+    onChunk: (chunk: string) => void,
+    options?: GenerationOptions
   ): Promise<GenerationResult>;
   cancelGeneration(id: string): void;
 }
@@ -42,9 +53,10 @@ export interface AIClient {
 export class MockAIClient implements AIClient {
   private activeGenerations = new Map<string, boolean>();
 
-  async generate(prompt: StructuredPrompt): Promise<GenerationResult> {
-    const id = `gen-${Date.now()}`;
+  async generate(prompt: StructuredPrompt, options?: GenerationOptions): Promise<GenerationResult> {
+    const id = options?.generationId || `gen-${Date.now()}`;
     const startTime = Date.now();
+    options?.onStart?.(id);
     
     // Simulate API delay
     await this.delay(1500 + Math.random() * 1000);
@@ -66,11 +78,13 @@ export class MockAIClient implements AIClient {
 
   async streamGenerate(
     prompt: StructuredPrompt,
-    onChunk: (chunk: string) => void
+    onChunk: (chunk: string) => void,
+    options?: GenerationOptions
   ): Promise<GenerationResult> {
-    const id = `gen-${Date.now()}`;
+    const id = options?.generationId || `gen-${Date.now()}`;
     const startTime = Date.now();
     this.activeGenerations.set(id, true);
+    options?.onStart?.(id);
 
     const mockResponse = this.generateMockResponse(prompt);
     const words = mockResponse.split(" ");
@@ -158,11 +172,48 @@ ${beliefNote}
 }
 
 /**
- * Get the AI client instance
- * Currently returns mock client; will be configurable in future
+ * Check if the mock client is forced via environment (offline dev/tests)
+ */
+function isMockMode(): boolean {
+  return process.env.AI_CLIENT === "mock";
+}
+
+// Provider clients are reused so cancelGeneration can reach in-flight requests
+const clients = new Map<string, AIClient>();
+
+/**
+ * Get the AI client instance for a model
+ * Picks the implementation by the model's provider, or the mock client
+ * when AI_CLIENT=mock is set.
  */
-export function getAIClient(): AIClient {
-  // TODO: Return real client based on environment/config
-  return new MockAIClient();
+export function getAIClient(model?: AIModel | string): AIClient {
+  const resolved = typeof model === "string" ? getModel(model) : model || getDefaultModel();
+  if (!resolved) {
+    throw new AIGenerationError("unknown_model", `Unknown model: ${model}`);
+  }
+
+  const key = isMockMode() ? "mock" : resolved.provider;
+  const cached = clients.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  let client: AIClient;
+  switch (key) {
+    case "anthropic":
+      client = new AnthropicAIClient();
+      break;
+    case "openai":
+      client = new OpenAIClient();
+      break;
+    case "google":
+      client = new GoogleAIClient();
+      break;
+    default:
+      client = new MockAIClient();
+  }
+
+  clients.set(key, client);
+  return client;
 }
 
@@ -0,0 +1,24 @@
+/**
+ * AI Client Errors
+ */
+
+export interface GenerationError {
+  code: string;
+  message: string;
+  retryable: boolean;
+}
+
+/**
+ * Error thrown by AI clients when a generation fails or is cancelled
+ */
+export class AIGenerationError extends Error implements GenerationError {
+  code: string;
+  retryable: boolean;
+
+  constructor(code: string, message: string, retryable = false) {
+    super(message);
+    this.name = "AIGenerationError";
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
@@ -5,16 +5,22 @@
  * These correspond to the models shown in the landing page dropdown.
  */
 
+import { type SubscriptionTier, isHigherTier } from "@/lib/subscription/tiers";
+
+export type AIProvider = "anthropic" | "openai" | "google";
+
 export interface AIModel {
   id: string;
   name: string;
-  provider: "anthropic" | "openai" | "google";
+  provider: AIProvider;
+  apiModel: string; // Provider-specific model identifier sent to the API
   contextWindow: number;
   maxOutput: number;
   costPer1kInput: number;  // USD per 1000 input tokens
   costPer1kOutput: number; // USD per 1000 output tokens
   capabilities: string[];
   badge?: string;
+  minTier?: SubscriptionTier; // Lowest subscription tier allowed to use the model
 }
 
 export const AI_MODELS: AIModel[] = [
@@ -22,17 +28,20 @@ export const AI_MODELS: AIModel[] = [
     id: "claude-opus",
     name: "Claude Opus 4.5",
     provider: "anthropic",
+    apiModel: "claude-opus-4-5",
     contextWindow: 200000,
     maxOutput: 8192,
     costPer1kInput: 0.015,
     costPer1kOutput: 0.075,
     capabilities: ["code", "reasoning", "vision", "long-context"],
     badge: "New",
+    minTier: "pro",
   },
   {
     id: "claude-sonnet",
     name: "Claude Sonnet 4",
     provider: "anthropic",
+    apiModel: "claude-sonnet-4-20250514",
     contextWindow: 200000,
     maxOutput: 8192,
     costPer1kInput: 0.003,
@@ -43,6 +52,7 @@ export const AI_MODELS: AIModel[] = [
     id: "gpt-4o",
     name: "GPT-4o",
     provider: "openai",
+    apiModel: "gpt-4o",
     contextWindow: 128000,
     maxOutput: 16384,
     costPer1kInput: 0.005,
@@ -53,6 +63,7 @@ export const AI_MODELS: AIModel[] = [
     id: "gemini-pro",
     name: "Gemini 2.0 Pro",
     provider: "google",
+    apiModel: "gemini-2.0-pro-exp",
     contextWindow: 1000000,
     maxOutput: 8192,
     costPer1kInput: 0.00125,
@@ -75,6 +86,20 @@ export function getDefaultModel(): AIModel {
   return AI_MODELS[0];
 }
 
+/**
+ * Check if a subscription tier may use a model
+ */
+export function canUseModel(model: AIModel, tier: SubscriptionTier): boolean {
+  return !model.minTier || !isHigherTier(model.minTier, tier);
+}
+
+/**
+ * Get the models available to a subscription tier
+ */
+export function getModelsForTier(tier: SubscriptionTier): AIModel[] {
+  return AI_MODELS.filter(m => canUseModel(m, tier));
+}
+
 /**
  * Estimate cost for a generation
  */
@@ -8,7 +8,7 @@
  * - Backend toggle state
  */
 
-import { generateBeliefContextSummary, BeliefScope } from "@/lib/beliefs";
+import { generateBeliefContextSummary, BeliefOwner, BeliefScope } from "@/lib/beliefs";
 import { AIModel, getModel, getDefaultModel } from "./models";
 
 export interface PromptInput {
@@ -16,6 +16,8 @@ export interface PromptInput {
   modelId?: string;
   backendEnabled?: boolean;
   beliefScopes?: BeliefScope[];
+  /** Whose beliefs to include; omitted means no belief context */
+  beliefOwner?: BeliefOwner;
 }
 
 export interface StructuredPrompt {
@@ -54,14 +56,16 @@ When generating an app:
 /**
  * Build a structured prompt for generation
  */
-export function buildPrompt(input: PromptInput): StructuredPrompt {
+export async function buildPrompt(input: PromptInput): Promise<StructuredPrompt> {
   const model = input.modelId ? getModel(input.modelId) : getDefaultModel();
   if (!model) {
     throw new Error(`Unknown model: ${input.modelId}`);
   }
 
   // Generate belief context
-  const beliefContext = generateBeliefContextSummary(input.beliefScopes);
+  const beliefContext = input.beliefOwner
+    ? await generateBeliefContextSummary(input.beliefOwner, input.beliefScopes, input.userPrompt)
+    : "";
   const beliefCount = beliefContext ? beliefContext.split("\n").filter(l => l.startsWith("-")).length : 0;
 
   // Backend context
@@ -98,7 +102,7 @@ export function buildPrompt(input: PromptInput): StructuredPrompt {
 }
 
 /**
- * Format prompt for API request (stub for future use)
+ * Format prompt for API request
  */
 export function formatForAPI(prompt: StructuredPrompt): {
   messages: Array<{ role: "system" | "user"; content: string }>;
@@ -110,7 +114,7 @@ export function formatForAPI(prompt: StructuredPrompt): {
       { role: "system", content: prompt.systemPrompt },
       { role: "user", content: prompt.userPrompt },
     ],
-    model: prompt.model.id,
+    model: prompt.model.apiModel,
     max_tokens: prompt.model.maxOutput,
   };
 }
@@ -0,0 +1,79 @@
+/**
+ * Anthropic AI Client
+ *
+ * Claude models via the official Anthropic SDK.
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import type { StructuredPrompt } from "../promptBuilder";
+import { BaseProviderClient, errorFromStatus, type ProviderResponse } from "./base";
+
+export class AnthropicAIClient extends BaseProviderClient {
+  protected readonly providerName = "Anthropic";
+  private client: Anthropic | null = null;
+
+  private getClient(): Anthropic {
+    if (!this.client) {
+      this.client = new Anthropic({ apiKey: this.requireApiKey("ANTHROPIC_API_KEY") });
+    }
+    return this.client;
+  }
+
+  protected async request(
+    prompt: StructuredPrompt,
+    signal: AbortSignal,
+    onChunk?: (chunk: string) => void
+  ): Promise<ProviderResponse> {
+    const params = {
+      model: prompt.model.apiModel,
+      max_tokens: prompt.model.maxOutput,
+      system: prompt.systemPrompt,
+      messages: [{ role: "user" as const, content: prompt.userPrompt }],
+    };
+
+    try {
+      if (!onChunk) {
+        const message = await this.getClient().messages.create(params, { signal });
+        const content = message.content
+          .map(block => (block.type === "text" ? block.text : ""))
+          .join("");
+
+        return {
+          content,
+          inputTokens: message.usage.input_tokens,
+          outputTokens: message.usage.output_tokens,
+        };
+      }
+
+      const stream = await this.getClient().messages.create({ ...params, stream: true }, { signal });
+      let content = "";
+      let inputTokens = 0;
+      let outputTokens = 0;
+
+      for await (const event of stream) {
+        switch (event.type) {
+          case "message_start":
+            inputTokens = event.message.usage.input_tokens;
+            outputTokens = event.message.usage.output_tokens;
+            break;
+          case "content_block_delta":
+            if (event.delta.type === "text_delta") {
+              content += event.delta.text;
+              onChunk(event.delta.text);
+            }
+            break;
+          case "message_delta":
+            outputTokens = event.usage.output_tokens;
+            break;
+        }
+      }
+
+      return { content, inputTokens, outputTokens };
+    } catch (error) {
+      if (error instanceof Anthropic.APIError && error.status) {
+        throw errorFromStatus(this.providerName, error.status, error.message);
+      }
+      throw error;
+    }
+  }
+}
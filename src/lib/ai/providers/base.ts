@@ -0,0 +1,150 @@
+/**
+ * Base Provider Client
+ *
+ * Shared bookkeeping for real provider clients: generation IDs,
+ * cancellation via AbortController, timing, token usage and cost.
+ */
+
+import { randomBytes } from "crypto";
+import type { StructuredPrompt } from "../promptBuilder";
+import type { AIClient, GenerationOptions, GenerationResult } from "../client";
+import { AIGenerationError } from "../errors";
+import { estimateCost } from "../models";
+
+export interface ProviderResponse {
+  content: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Map an HTTP status from a provider to a generation error
+ */
+export function errorFromStatus(provider: string, status: number, detail: string): AIGenerationError {
+  const retryable = status === 408 || status === 429 || status >= 500;
+  const code =
+    status === 401 || status === 403 ? "unauthorized" :
+    status === 429 ? "rate_limited" :
+    status >= 500 ? "provider_unavailable" :
+    "request_failed";
+
+  return new AIGenerationError(code, `${provider} API error (${status}): ${detail}`, retryable);
+}
+
+/**
+ * Read a Server-Sent Events response body, calling onData for each data payload
+ */
+export async function readEventStream(
+  response: Response,
+  onData: (data: string) => void
+): Promise<void> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith("data:")) {
+        onData(trimmed.slice(5).trim());
+      }
+    }
+  }
+
+  const rest = buffer.trim();
+  if (rest.startsWith("data:")) {
+    onData(rest.slice(5).trim());
+  }
+}
+
+export abstract class BaseProviderClient implements AIClient {
+  private activeGenerations = new Map<string, AbortController>();
+
+  protected abstract readonly providerName: string;
+
+  /**
+   * Perform the provider request. onChunk is set for streaming generations.
+   */
+  protected abstract request(
+    prompt: StructuredPrompt,
+    signal: AbortSignal,
+    onChunk?: (chunk: string) => void
+  ): Promise<ProviderResponse>;
+
+  generate(prompt: StructuredPrompt, options?: GenerationOptions): Promise<GenerationResult> {
+    return this.run(prompt, options);
+  }
+
+  streamGenerate(
+    prompt: StructuredPrompt,
+    onChunk: (chunk: string) => void,
+    options?: GenerationOptions
+  ): Promise<GenerationResult> {
+    return this.run(prompt, options, onChunk);
+  }
+
+  cancelGeneration(id: string): void {
+    this.activeGenerations.get(id)?.abort();
+  }
+
+  /**
+   * Read a required API key from the environment
+   */
+  protected requireApiKey(envVar: string): string {
+    const key = process.env[envVar];
+    if (!key) {
+      throw new AIGenerationError("missing_api_key", `${envVar} is not configured`);
+    }
+    return key;
+  }
+
+  private async run(
+    prompt: StructuredPrompt,
+    options?: GenerationOptions,
+    onChunk?: (chunk: string) => void
+  ): Promise<GenerationResult> {
+    const id = options?.generationId || `gen-${Date.now()}-${randomBytes(4).toString("hex")}`;
+    const startTime = Date.now();
+    const controller = new AbortController();
+    this.activeGenerations.set(id, controller);
+
+    try {
+      options?.onStart?.(id);
+      const response = await this.request(prompt, controller.signal, onChunk);
+
+      return {
+        id,
+        content: response.content,
+        model: prompt.model.id,
+        tokensUsed: {
+          input: response.inputTokens,
+          output: response.outputTokens,
+        },
+        duration: Date.now() - startTime,
+        cost: estimateCost(prompt.model.id, response.inputTokens, response.outputTokens),
+      };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new AIGenerationError("cancelled", `Generation ${id} was cancelled`);
+      }
+      if (error instanceof AIGenerationError) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : "Unknown error";
+      throw new AIGenerationError("request_failed", `${this.providerName} request failed: ${message}`, true);
+    } finally {
+      this.activeGenerations.delete(id);
+    }
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Google AI Client
+ *
+ * Gemini models via the Generative Language REST API.
+ */
+
+import type { StructuredPrompt } from "../promptBuilder";
+import { BaseProviderClient, errorFromStatus, readEventStream, type ProviderResponse } from "./base";
+
+const GOOGLE_API_URL = "https://generativelanguage.googleapis.com/v1beta/models";
+
+interface GeminiResponse {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+  };
+}
+
+/**
+ * Extract the text from a Gemini response (or stream chunk)
+ */
+function extractText(data: GeminiResponse): string {
+  return (data.candidates?.[0]?.content?.parts || [])
+    .map(part => part.text || "")
+    .join("");
+}
+
+export class GoogleAIClient extends BaseProviderClient {
+  protected readonly providerName = "Google AI";
+
+  protected async request(
+    prompt: StructuredPrompt,
+    signal: AbortSignal,
+    onChunk?: (chunk: string) => void
+  ): Promise<ProviderResponse> {
+    const apiKey = this.requireApiKey("GOOGLE_AI_API_KEY");
+    const method = onChunk ? "streamGenerateContent?alt=sse" : "generateContent";
+
+    const response = await fetch(`${GOOGLE_API_URL}/${prompt.model.apiModel}:${method}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-goog-api-key": apiKey,
+      },
+      body: JSON.stringify({
+        systemInstruction: { parts: [{ text: prompt.systemPrompt }] },
+        contents: [{ role: "user", parts: [{ text: prompt.userPrompt }] }],
+        generationConfig: { maxOutputTokens: prompt.model.maxOutput },
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw errorFromStatus(this.providerName, response.status, await response.text());
+    }
+
+    if (!onChunk) {
+      const data = await response.json() as GeminiResponse;
+
+      return {
+        content: extractText(data),
+        inputTokens: data.usageMetadata?.promptTokenCount || 0,
+        outputTokens: data.usageMetadata?.candidatesTokenCount || 0,
+      };
+    }
+
+    let content = "";
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    await readEventStream(response, data => {
+      const chunk = JSON.parse(data) as GeminiResponse;
+      const text = extractText(chunk);
+      if (text) {
+        content += text;
+        onChunk(text);
+      }
+      // Usage metadata is cumulative; the last chunk carries the totals
+      if (chunk.usageMetadata) {
+        inputTokens = chunk.usageMetadata.promptTokenCount || inputTokens;
+        outputTokens = chunk.usageMetadata.candidatesTokenCount || outputTokens;
+      }
+    });
+
+    return { content, inputTokens, outputTokens };
+  }
+}
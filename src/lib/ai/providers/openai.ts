@@ -0,0 +1,86 @@
+/**
+ * OpenAI AI Client
+ *
+ * GPT models via the Chat Completions REST API.
+ */
+
+import type { StructuredPrompt } from "../promptBuilder";
+import { formatForAPI } from "../promptBuilder";
+import { BaseProviderClient, errorFromStatus, readEventStream, type ProviderResponse } from "./base";
+
+const OPENAI_API_URL = "https://api.openai.com/v1/chat/completions";
+
+interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+export class OpenAIClient extends BaseProviderClient {
+  protected readonly providerName = "OpenAI";
+
+  protected async request(
+    prompt: StructuredPrompt,
+    signal: AbortSignal,
+    onChunk?: (chunk: string) => void
+  ): Promise<ProviderResponse> {
+    const apiKey = this.requireApiKey("OPENAI_API_KEY");
+    const payload = formatForAPI(prompt);
+
+    const response = await fetch(OPENAI_API_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        ...payload,
+        stream: !!onChunk,
+        ...(onChunk && { stream_options: { include_usage: true } }),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw errorFromStatus(this.providerName, response.status, await response.text());
+    }
+
+    if (!onChunk) {
+      const data = await response.json() as {
+        choices: { message: { content: string | null } }[];
+        usage?: ChatCompletionUsage;
+      };
+
+      return {
+        content: data.choices[0]?.message.content || "",
+        inputTokens: data.usage?.prompt_tokens || 0,
+        outputTokens: data.usage?.completion_tokens || 0,
+      };
+    }
+
+    let content = "";
+    let usage: ChatCompletionUsage | undefined;
+
+    await readEventStream(response, data => {
+      if (data === "[DONE]") return;
+
+      const chunk = JSON.parse(data) as {
+        choices: { delta: { content?: string | null } }[];
+        usage?: ChatCompletionUsage | null;
+      };
+      const text = chunk.choices[0]?.delta.content;
+      if (text) {
+        content += text;
+        onChunk(text);
+      }
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+    });
+
+    return {
+      content,
+      inputTokens: usage?.prompt_tokens || 0,
+      outputTokens: usage?.completion_tokens || 0,
+    };
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { findBeliefMatches, getBeliefStance, getBeliefSubject } from "../conflicts";
+import { BeliefEmbedder, createHashedNgramEmbedder } from "../embeddings";
+import { Belief } from "../types";
+
+function belief(id: string, text: string): Belief {
+  return {
+    id,
+    belief: text,
+    scope: "architecture",
+    confidence: 0.6,
+    evidence: [],
+    createdAt: 0,
+    lastReinforced: 0,
+    status: "active",
+    contradictions: [],
+  };
+}
+
+/**
+ * Embedder with fixed vectors per subject, so similarities are exact
+ */
+function fixedEmbedder(vectors: Record<string, number[]>): BeliefEmbedder {
+  return {
+    id: "fixed",
+    dimensions: 2,
+    embed: async (texts) => texts.map(text => vectors[text] ?? [0, 0]),
+  };
+}
+
+describe("getBeliefStance", () => {
+  it("reads an odd number of negations as against", () => {
+    expect(getBeliefStance("Prefer Tailwind")).toBe("for");
+    expect(getBeliefStance("Avoid Tailwind")).toBe("against");
+    expect(getBeliefStance("Don't use class components")).toBe("against");
+  });
+
+  it("reads a double negation as for", () => {
+    expect(getBeliefStance("Never skip tests")).toBe("for");
+  });
+});
+
+describe("getBeliefSubject", () => {
+  it("removes stance and filler words", () => {
+    expect(getBeliefSubject("We should always use Tailwind for styling")).toBe("tailwind styling");
+    expect(getBeliefSubject("Avoid Tailwind")).toBe("tailwind");
+  });
+
+  it("returns an empty subject for stance-only text", () => {
+    expect(getBeliefSubject("We prefer to")).toBe("");
+    expect(getBeliefSubject("Always avoid")).toBe("");
+  });
+});
+
+describe("findBeliefMatches", () => {
+  it("finds duplicates with the same stance and contradictions with the opposite one", async () => {
+    const candidates = [
+      belief("same", "Always use Tailwind"),
+      belief("opposite", "Avoid Tailwind"),
+      belief("unrelated", "Prefer PostgreSQL for storage"),
+    ];
+
+    const matches = await findBeliefMatches("Prefer Tailwind", candidates, createHashedNgramEmbedder());
+
+    expect(matches.map(m => [m.belief.id, m.kind])).toEqual([
+      ["same", "duplicate"],
+      ["opposite", "contradiction"],
+    ]);
+    expect(matches[0].similarity).toBeCloseTo(1);
+  });
+
+  it("applies the duplicate and contradiction thresholds and sorts by similarity", async () => {
+    const embedder = fixedEmbedder({
+      tailwind: [1, 0],
+      "tailwind css": [0.9, 0.44], // ~0.9 similar
+      "tailwind utilities": [0.7, 0.71], // ~0.7 similar
+      bootstrap: [0, 1],
+    });
+    const candidates = [
+      belief("close-for", "Use Tailwind utilities"),
+      belief("closer-for", "Use Tailwind CSS"),
+      belief("close-against", "Avoid Tailwind utilities"),
+      belief("far-against", "Avoid Bootstrap"),
+    ];
+
+    const matches = await findBeliefMatches("Prefer Tailwind", candidates, embedder);
+
+    // 0.7 is below the duplicate threshold but above the contradiction threshold
+    expect(matches.map(m => [m.belief.id, m.kind])).toEqual([
+      ["closer-for", "duplicate"],
+      ["close-against", "contradiction"],
+    ]);
+  });
+
+  it("returns nothing without a subject or candidates", async () => {
+    const embedder = createHashedNgramEmbedder();
+    expect(await findBeliefMatches("We prefer to", [belief("a", "Prefer Tailwind")], embedder)).toEqual([]);
+    expect(await findBeliefMatches("Prefer Tailwind", [], embedder)).toEqual([]);
+  });
+});
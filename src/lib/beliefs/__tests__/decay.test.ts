@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { computeDecayedConfidence, getDecayHalfLifeDays } from "../decay";
+import { Belief } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const start = Date.UTC(2024, 0, 1);
+
+function belief(overrides: Partial<Belief> = {}): Belief {
+  return {
+    id: "b1",
+    belief: "Prefer TypeScript",
+    scope: "general",
+    confidence: 0.8,
+    evidence: [],
+    createdAt: start,
+    lastReinforced: start,
+    status: "active",
+    contradictions: [],
+    ...overrides,
+  };
+}
+
+describe("getDecayHalfLifeDays", () => {
+  it("uses the scope default unless overridden", () => {
+    expect(getDecayHalfLifeDays("architecture")).toBe(180);
+    expect(getDecayHalfLifeDays("architecture", { architecture: 30 })).toBe(30);
+    expect(getDecayHalfLifeDays("ux", { architecture: 30 })).toBe(90);
+  });
+});
+
+describe("computeDecayedConfidence", () => {
+  it("halves confidence every half-life since the last reinforcement", () => {
+    const b = belief({ scope: "general" });
+    expect(computeDecayedConfidence(b, { now: start + 45 * DAY_MS })).toBeCloseTo(0.4);
+    expect(computeDecayedConfidence(b, { now: start + 90 * DAY_MS })).toBeCloseTo(0.2);
+  });
+
+  it("decays slower for scopes with a longer half-life", () => {
+    const now = start + 60 * DAY_MS;
+    const architecture = computeDecayedConfidence(belief({ scope: "architecture" }), { now });
+    const product = computeDecayedConfidence(belief({ scope: "product" }), { now });
+    expect(product).toBeCloseTo(0.4);
+    expect(architecture).toBeGreaterThan(product);
+  });
+
+  it("counts from the later of the last reinforcement and the last decay", () => {
+    const b = belief({ lastDecayed: start + 45 * DAY_MS });
+    expect(computeDecayedConfidence(b, { now: start + 90 * DAY_MS })).toBeCloseTo(0.4);
+  });
+
+  it("does not change confidence before any time has passed", () => {
+    expect(computeDecayedConfidence(belief(), { now: start })).toBe(0.8);
+    expect(computeDecayedConfidence(belief(), { now: start - DAY_MS })).toBe(0.8);
+  });
+
+  it("does not decay deprecated beliefs", () => {
+    expect(computeDecayedConfidence(belief({ status: "deprecated" }), { now: start + 365 * DAY_MS })).toBe(0.8);
+  });
+
+  it("treats a half-life of 0 or Infinity as no decay", () => {
+    const now = start + 365 * DAY_MS;
+    expect(computeDecayedConfidence(belief(), { now, halfLifeDays: { general: 0 } })).toBe(0.8);
+    expect(computeDecayedConfidence(belief(), { now, halfLifeDays: { general: Infinity } })).toBe(0.8);
+  });
+});
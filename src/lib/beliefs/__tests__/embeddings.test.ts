@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  cosineSimilarity,
+  createHashedNgramEmbedder,
+  getBeliefEmbedder,
+  setBeliefEmbedder,
+} from "../embeddings";
+
+describe("createHashedNgramEmbedder", () => {
+  const embedder = createHashedNgramEmbedder();
+
+  it("produces unit vectors of the configured size, tagged with it", async () => {
+    const [vector] = await createHashedNgramEmbedder(64).embed(["Prefer server components"]);
+    expect(createHashedNgramEmbedder(64).id).toBe("hashed-ngram-64");
+    expect(vector).toHaveLength(64);
+    expect(Math.hypot(...vector)).toBeCloseTo(1);
+  });
+
+  it("is deterministic and ignores case and punctuation", async () => {
+    const [a, b, c] = await embedder.embed(["Use Tailwind CSS", "use tailwind css!", "Use Tailwind CSS"]);
+    expect(a).toEqual(c);
+    expect(cosineSimilarity(a, b)).toBeCloseTo(1);
+  });
+
+  it("scores related texts above unrelated ones", async () => {
+    const [query, related, unrelated] = await embedder.embed([
+      "styling with tailwind",
+      "Prefer Tailwind for styling components",
+      "Store sessions in Redis",
+    ]);
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it("embeds text without words as a zero vector", async () => {
+    const [vector] = await embedder.embed(["!!!"]);
+    expect(vector.every(v => v === 0)).toBe(true);
+  });
+});
+
+describe("cosineSimilarity", () => {
+  it("compares direction, not length", () => {
+    expect(cosineSimilarity([1, 0], [3, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 2])).toBeCloseTo(0);
+    expect(cosineSimilarity([1, 1], [-1, -1])).toBeCloseTo(-1);
+  });
+
+  it("returns 0 for zero or missing vectors", () => {
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+    expect(cosineSimilarity([1, 0], [])).toBe(0);
+  });
+});
+
+describe("setBeliefEmbedder", () => {
+  const original = getBeliefEmbedder();
+
+  afterEach(() => {
+    setBeliefEmbedder(original);
+  });
+
+  it("replaces the embedder used for retrieval", () => {
+    const custom = createHashedNgramEmbedder(8);
+    setBeliefEmbedder(custom);
+    expect(getBeliefEmbedder()).toBe(custom);
+  });
+});
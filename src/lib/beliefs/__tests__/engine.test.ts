@@ -0,0 +1,181 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { importBeliefs, revertBeliefs } from "../engine";
+import { Belief, BeliefOwner } from "../types";
+
+vi.mock("@/lib/docker", () => ({
+  executeSql: vi.fn(),
+  getProjectContainers: vi.fn(),
+}));
+
+/**
+ * In-memory stand-in for the Prisma-backed storage layer
+ */
+const memory = vi.hoisted(() => {
+  type Row = { userId: string; belief: Belief };
+  const state = {
+    rows: new Map<string, Row>(),
+    events: [] as Array<Record<string, unknown> & { userId: string; projectId: string | null; at: number }>,
+    nextId: 1,
+  };
+
+  const copy = <T>(value: T): T => structuredClone(value);
+  const visible = (owner: BeliefOwner, userId: string, projectId?: string | null) =>
+    userId === owner.userId && (!projectId || projectId === owner.projectId);
+  const direct = (owner: BeliefOwner, userId: string, projectId?: string | null) =>
+    userId === owner.userId && (projectId ?? null) === (owner.projectId ?? null);
+
+  return {
+    state,
+    storage: {
+      async withBeliefTransaction<T>(run: (db: unknown) => Promise<T>): Promise<T> {
+        return run({});
+      },
+      async clearStore(owner: BeliefOwner) {
+        for (const [id, row] of state.rows) {
+          if (direct(owner, row.userId, row.belief.projectId)) state.rows.delete(id);
+        }
+        state.events = state.events.filter(e => !direct(owner, e.userId, e.projectId));
+      },
+      async loadStore(owner: BeliefOwner) {
+        return {
+          version: 2,
+          beliefs: [...state.rows.values()].filter(r => direct(owner, r.userId, r.belief.projectId)).map(r => copy(r.belief)),
+          events: state.events.filter(e => direct(owner, e.userId, e.projectId)).map(copy),
+        };
+      },
+      async findBeliefs(owner: BeliefOwner) {
+        return [...state.rows.values()].filter(r => visible(owner, r.userId, r.belief.projectId)).map(r => copy(r.belief));
+      },
+      async findEvents(owner: BeliefOwner, options?: { until?: number; beliefId?: string }) {
+        return state.events
+          .filter(e => visible(owner, e.userId, e.projectId))
+          .filter(e => options?.until === undefined || e.at <= options.until)
+          .filter(e => !options?.beliefId || e.beliefId === options.beliefId)
+          .sort((a, b) => a.at - b.at)
+          .map(copy);
+      },
+      async beliefExists(id: string) {
+        return state.rows.has(id);
+      },
+      async insertBelief(owner: BeliefOwner, belief: Belief, id?: string) {
+        const stored: Belief = {
+          ...copy(belief),
+          id: id ?? `local-${state.nextId++}`,
+          projectId: owner.projectId || null,
+          contradictions: [],
+        };
+        state.rows.set(stored.id, { userId: owner.userId, belief: stored });
+        return copy(stored);
+      },
+      async updateBelief(id: string, data: Partial<Belief>) {
+        const row = state.rows.get(id)!;
+        const defined = Object.fromEntries(Object.entries(data).filter(([, v]) => v !== undefined));
+        row.belief = { ...row.belief, ...copy(defined) };
+        return copy(row.belief);
+      },
+      async insertContradiction(beliefId: string, reason: string, at: number) {
+        state.rows.get(beliefId)!.belief.contradictions.push({ beliefId, reason, at });
+      },
+      async replaceContradictions(beliefId: string, contradictions: Belief["contradictions"]) {
+        state.rows.get(beliefId)!.belief.contradictions = contradictions.map(c => ({ ...c, beliefId }));
+      },
+      async removeBelief(id: string) {
+        state.rows.delete(id);
+      },
+      async insertEvent(owner: BeliefOwner, event: Record<string, unknown> & { at: number }) {
+        const stored = { ...copy(event), id: `event-${state.events.length + 1}`, userId: owner.userId, projectId: owner.projectId || null };
+        state.events.push(stored);
+        return copy(stored);
+      },
+    },
+  };
+});
+
+vi.mock("../storage", () => memory.storage);
+
+const owner: BeliefOwner = { userId: "u1", projectId: null };
+
+function belief(id: string, text: string, overrides: Partial<Belief> = {}): Belief {
+  return {
+    id,
+    belief: text,
+    scope: "architecture",
+    confidence: 0.6,
+    evidence: [],
+    createdAt: 1000,
+    lastReinforced: 1000,
+    status: "active",
+    contradictions: [],
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  memory.state.rows.clear();
+  memory.state.events = [];
+});
+
+describe("importBeliefs", () => {
+  it("records an import event for created beliefs, so reverting to now changes nothing", async () => {
+    // v1 documents carry no event history of their own
+    await importBeliefs(owner, {
+      beliefs: [
+        belief("a", "Prefer PostgreSQL", { confidence: 0.8, contradictions: [{ beliefId: "a", reason: "Used Mongo once", at: 2000 }] }),
+        belief("b", "Avoid global state"),
+      ],
+      events: [],
+    });
+    const imported = await memory.storage.findBeliefs(owner);
+
+    expect(memory.state.events.map(e => e.type)).toEqual(["import", "import"]);
+    expect(await revertBeliefs(owner, Date.now())).toEqual({ restored: 0, updated: 0, deleted: 0 });
+    expect(await memory.storage.findBeliefs(owner)).toEqual(imported);
+  });
+
+  it("records an import event for merged beliefs, so reverting to now keeps the merge", async () => {
+    const existing = await memory.storage.insertBelief(owner, belief("", "Prefer PostgreSQL", { confidence: 0.5 }));
+    await memory.storage.insertEvent(owner, { type: "create", beliefId: existing.id, at: 1000, snapshot: existing });
+
+    const result = await importBeliefs(owner, {
+      version: 2,
+      beliefs: [belief("remote", "prefer postgresql", { confidence: 0.9, evidence: ["Benchmarks"] })],
+      events: [{ id: "e1", type: "create", beliefId: "remote", at: 500 }],
+    });
+
+    expect(result).toEqual({ created: 0, merged: 1, events: 0 });
+    expect(memory.state.events.at(-1)).toMatchObject({ type: "import", beliefId: existing.id, deltaConfidence: expect.closeTo(0.4) });
+    expect(await revertBeliefs(owner, Date.now())).toEqual({ restored: 0, updated: 0, deleted: 0 });
+    expect(await memory.storage.findBeliefs(owner)).toEqual([
+      expect.objectContaining({ id: existing.id, confidence: 0.9, evidence: ["Benchmarks"] }),
+    ]);
+  });
+});
+
+describe("revertBeliefs", () => {
+  it("restores, rolls back and removes beliefs inside one transaction", async () => {
+    const transaction = { tx: true };
+    const run = vi.spyOn(memory.storage, "withBeliefTransaction").mockImplementation(async callback => callback(transaction));
+    const removeBelief = vi.spyOn(memory.storage, "removeBelief");
+
+    const kept = await memory.storage.insertBelief(owner, belief("", "Prefer PostgreSQL"));
+    await memory.storage.insertEvent(owner, { type: "create", beliefId: kept.id, at: 1000, snapshot: kept });
+    await memory.storage.updateBelief(kept.id, { confidence: 0.9 });
+    await memory.storage.insertEvent(owner, { type: "reinforce", beliefId: kept.id, at: 3000, snapshot: { ...kept, confidence: 0.9 } });
+    const added = await memory.storage.insertBelief(owner, belief("", "Avoid global state"));
+    await memory.storage.insertEvent(owner, { type: "create", beliefId: added.id, at: 3000, snapshot: added });
+    const gone = belief("gone", "Use feature flags");
+    await memory.storage.insertEvent(owner, { type: "create", beliefId: gone.id, at: 1000, snapshot: gone });
+    await memory.storage.insertEvent(owner, { type: "delete", beliefId: gone.id, at: 3000 });
+
+    expect(await revertBeliefs(owner, 2000)).toEqual({ restored: 1, updated: 1, deleted: 1 });
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(removeBelief).toHaveBeenCalledWith(added.id, transaction);
+    expect((await memory.storage.findBeliefs(owner)).map(b => [b.id, b.confidence])).toEqual([
+      [kept.id, 0.6],
+      ["gone", 0.6],
+    ]);
+
+    run.mockRestore();
+    removeBelief.mockRestore();
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { BeliefDocumentError, migrateBeliefStore } from "../migrations";
+import { Belief, BELIEF_STORE_VERSION } from "../types";
+
+const belief: Belief = {
+  id: "b1",
+  belief: "Prefer TypeScript",
+  scope: "dev-habits",
+  confidence: 0.7,
+  evidence: ["Used in every project"],
+  createdAt: 1000,
+  lastReinforced: 2000,
+  status: "active",
+  contradictions: [],
+};
+
+describe("migrateBeliefStore", () => {
+  it("accepts a current document as a JSON string", () => {
+    const document = { version: BELIEF_STORE_VERSION, beliefs: [belief], events: [] };
+    expect(migrateBeliefStore(JSON.stringify(document))).toEqual(document);
+  });
+
+  it("upgrades v1 documents and drops values the server does not accept", () => {
+    const store = migrateBeliefStore({
+      beliefs: [
+        { id: 7, belief: "  Avoid Redux ", scope: "state", confidence: 3, status: "weird", createdAt: 5, contradictions: [{ reason: "r", at: "9" }, null] },
+        { id: 8, belief: "" },
+      ],
+      events: [{ type: "create", beliefId: 7, at: 5 }, { type: "unknown", beliefId: 7 }],
+    });
+
+    expect(store.version).toBe(BELIEF_STORE_VERSION);
+    expect(store.beliefs).toEqual([{
+      id: "7",
+      belief: "Avoid Redux",
+      scope: "general",
+      confidence: 1,
+      evidence: [],
+      createdAt: 5,
+      lastReinforced: 5,
+      status: "active",
+      contradictions: [{ reason: "r", at: 9 }],
+    }]);
+    expect(store.events).toEqual([{ type: "create", beliefId: "7", at: 5 }]);
+  });
+
+  it("rejects malformed documents", () => {
+    expect(() => migrateBeliefStore("{")).toThrow(BeliefDocumentError);
+    expect(() => migrateBeliefStore({ beliefs: [] })).toThrow("beliefs and events arrays are required");
+    expect(() => migrateBeliefStore({ version: 99, beliefs: [], events: [] })).toThrow("Unsupported belief document version: 99");
+  });
+
+  it("validates every current-version belief and event before anything is imported", () => {
+    const document = (beliefs: unknown[], events: unknown[] = []) => ({ version: BELIEF_STORE_VERSION, beliefs, events });
+
+    expect(() => migrateBeliefStore(document([belief, { ...belief, confidence: 2 }])))
+      .toThrow("beliefs[1] confidence must be a number between 0 and 1");
+    expect(() => migrateBeliefStore(document([{ ...belief, scope: "constructor" }])))
+      .toThrow('beliefs[0] unknown scope "constructor"');
+    expect(() => migrateBeliefStore(document([{ ...belief, contradictions: [{ reason: "r" }] }])))
+      .toThrow("beliefs[0] contradictions must be an array of { reason, at }");
+    expect(() => migrateBeliefStore(document([], [{ type: "create", beliefId: "b1", at: "yesterday" }])))
+      .toThrow("events[0] at must be a timestamp");
+    expect(() => migrateBeliefStore(document([], [{ type: "revert", beliefId: "b1", at: 1, snapshot: { ...belief, evidence: "x" } }])))
+      .toThrow("events[0] snapshot evidence must be an array of strings");
+  });
+});
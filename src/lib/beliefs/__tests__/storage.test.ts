@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import prisma from "@/lib/db/prisma";
+import { findBelief, findEvents } from "../storage";
+
+vi.mock("@/lib/db/prisma", async importOriginal => ({
+  ...(await importOriginal<typeof import("@/lib/db/prisma")>()),
+  default: {
+    belief: { findFirst: vi.fn() },
+    beliefEvent: { findMany: vi.fn() },
+  },
+}));
+
+const owner = { userId: "8a6b1f52-3c1e-4f0e-9d7a-2b5c6d7e8f90", projectId: null };
+const id = "0f4c2a9e-7b1d-4e3a-8c5f-6d2e1a9b3c7d";
+
+beforeEach(() => {
+  vi.mocked(prisma.belief.findFirst).mockReset().mockResolvedValue(null);
+  vi.mocked(prisma.beliefEvent.findMany).mockReset().mockResolvedValue([]);
+});
+
+describe("belief lookups by ID", () => {
+  it("query the database for UUIDs", async () => {
+    await findBelief(owner, id);
+    await findEvents(owner, { beliefId: id.toUpperCase() });
+
+    expect(prisma.belief.findFirst).toHaveBeenCalledWith(expect.objectContaining({ where: expect.objectContaining({ id }) }));
+    expect(prisma.beliefEvent.findMany).toHaveBeenCalledTimes(1);
+  });
+
+  it("find nothing for IDs that are not UUIDs, without querying", async () => {
+    expect(await findBelief(owner, "not-a-uuid")).toBeNull();
+    expect(await findEvents(owner, { beliefId: "123" })).toEqual([]);
+
+    expect(prisma.belief.findFirst).not.toHaveBeenCalled();
+    expect(prisma.beliefEvent.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { buildConfidenceHistory, replayBeliefEvents } from "../timeline";
+import { Belief, BeliefEvent } from "../types";
+
+function belief(overrides: Partial<Belief> = {}): Belief {
+  return {
+    id: "b1",
+    belief: "Prefer TypeScript",
+    scope: "dev-habits",
+    confidence: 0.6,
+    evidence: [],
+    createdAt: 100,
+    lastReinforced: 100,
+    status: "active",
+    contradictions: [],
+    ...overrides,
+  };
+}
+
+function event(type: BeliefEvent["type"], at: number, fields: Partial<BeliefEvent> = {}): BeliefEvent {
+  return { id: `${type}-${at}`, type, beliefId: "b1", at, ...fields };
+}
+
+describe("replayBeliefEvents", () => {
+  it("takes each belief's state from its latest snapshot up to the time", () => {
+    const events = [
+      event("create", 100, { snapshot: belief() }),
+      event("reinforce", 200, { snapshot: belief({ confidence: 0.65, lastReinforced: 200 }) }),
+      event("contradict", 300, { snapshot: belief({ confidence: 0.5 }) }),
+    ];
+
+    expect(replayBeliefEvents(events, 250)).toEqual([belief({ confidence: 0.65, lastReinforced: 200 })]);
+    expect(replayBeliefEvents(events, 300)).toEqual([belief({ confidence: 0.5 })]);
+    expect(replayBeliefEvents(events, 50)).toEqual([]);
+  });
+
+  it("drops deleted beliefs and brings back restored ones", () => {
+    const events = [
+      event("create", 100, { snapshot: belief() }),
+      event("delete", 200, { snapshot: belief() }),
+      event("revert", 300, { snapshot: belief({ confidence: 0.7 }) }),
+    ];
+
+    expect(replayBeliefEvents(events, 250)).toEqual([]);
+    expect(replayBeliefEvents(events, 300)).toEqual([belief({ confidence: 0.7 })]);
+  });
+
+  it("keys snapshots by the event's belief", () => {
+    const events = [event("import", 100, { beliefId: "local", snapshot: belief({ id: "remote" }) })];
+    expect(replayBeliefEvents(events, 100)).toEqual([belief({ id: "local" })]);
+  });
+
+  it("approximates events without snapshots from their fields", () => {
+    const events = [
+      event("create", 100, { beliefText: "Avoid Redux", note: "scope: architecture" }),
+      event("reinforce", 200, { deltaConfidence: 0.05 }),
+      event("contradict", 300, { deltaConfidence: -0.15, note: "Used it happily" }),
+      event("deprecate", 400),
+    ];
+
+    const [replayed] = replayBeliefEvents(events, 400);
+
+    expect(replayed).toMatchObject({
+      id: "b1",
+      belief: "Avoid Redux",
+      scope: "architecture",
+      lastReinforced: 200,
+      status: "deprecated",
+      contradictions: [{ beliefId: "b1", reason: "Used it happily", at: 300 }],
+    });
+    expect(replayed.confidence).toBeCloseTo(0.5);
+  });
+
+  it("falls back to the general scope for unknown scopes", () => {
+    const [replayed] = replayBeliefEvents([event("create", 100, { note: "scope: nonsense" })], 100);
+    expect(replayed.scope).toBe("general");
+  });
+});
+
+describe("buildConfidenceHistory", () => {
+  it("adds a point per event with the state after it", () => {
+    const history = buildConfidenceHistory([
+      event("create", 100, { snapshot: belief() }),
+      event("decay", 200, { snapshot: belief({ confidence: 0.3, status: "unstable" }), note: "Status changed: active → unstable" }),
+      event("reinforce", 300, { deltaConfidence: 0.05 }),
+    ]);
+
+    expect(history.map(p => [p.at, p.type, p.status])).toEqual([
+      [100, "create", "active"],
+      [200, "decay", "unstable"],
+      [300, "reinforce", "unstable"],
+    ]);
+    expect(history.map(p => p.confidence)).toEqual([0.6, 0.3, expect.closeTo(0.35)]);
+    expect(history[1].note).toBe("Status changed: active → unstable");
+  });
+
+  it("shows a deleted belief at its last state", () => {
+    const history = buildConfidenceHistory([
+      event("create", 100, { snapshot: belief({ confidence: 0.8 }) }),
+      event("delete", 200),
+    ]);
+
+    expect(history).toEqual([
+      { at: 100, confidence: 0.8, status: "active", type: "create", note: undefined },
+      { at: 200, confidence: 0.8, status: "active", type: "delete", note: undefined },
+    ]);
+  });
+
+  it("skips events before the belief has any state", () => {
+    expect(buildConfidenceHistory([event("delete", 100)])).toEqual([]);
+  });
+});
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { executeSql, getProjectContainers } from "@/lib/docker";
+import { BeliefEmbedder } from "../embeddings";
+import { findBeliefEmbeddings, saveBeliefEmbedding } from "../storage";
+import { Belief } from "../types";
+import { createDatabaseVectorIndex, getBeliefVectorIndex } from "../vector-index";
+
+vi.mock("@/lib/docker", () => ({
+  executeSql: vi.fn(),
+  getProjectContainers: vi.fn(),
+}));
+
+vi.mock("../storage", () => ({
+  findBeliefEmbeddings: vi.fn(),
+  saveBeliefEmbedding: vi.fn(),
+}));
+
+function belief(id: string, text: string, projectId: string | null = null): Belief {
+  return {
+    id,
+    belief: text,
+    scope: "general",
+    confidence: 0.6,
+    evidence: [],
+    createdAt: 0,
+    lastReinforced: 0,
+    projectId,
+    status: "active",
+    contradictions: [],
+  };
+}
+
+/**
+ * Embedder with one fixed vector per text
+ */
+function fixedEmbedder(vectors: Record<string, number[]>): BeliefEmbedder {
+  return {
+    id: "fixed",
+    dimensions: 2,
+    embed: vi.fn(async (texts: string[]) => texts.map(text => vectors[text] ?? [0, 0])),
+  };
+}
+
+beforeEach(() => {
+  vi.mocked(findBeliefEmbeddings).mockReset().mockResolvedValue(new Map());
+  vi.mocked(saveBeliefEmbedding).mockReset();
+  vi.mocked(executeSql).mockReset();
+  vi.mocked(getProjectContainers).mockReset();
+});
+
+afterEach(() => {
+  delete process.env.BELIEF_VECTOR_STORE;
+});
+
+describe("createDatabaseVectorIndex", () => {
+  it("ranks beliefs by similarity to the query, most similar first", async () => {
+    const embedder = fixedEmbedder({ far: [0, 1], near: [1, 0.1], middle: [1, 1] });
+    const beliefs = [belief("far", "far"), belief("near", "near"), belief("middle", "middle")];
+
+    const ranked = await createDatabaseVectorIndex().search(embedder, [1, 0], beliefs);
+
+    expect(ranked.map(r => r.belief.id)).toEqual(["near", "middle", "far"]);
+    expect(ranked[1].score).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  it("embeds and stores only beliefs without a vector for the embedder", async () => {
+    vi.mocked(findBeliefEmbeddings).mockResolvedValue(new Map([["stored", [0, 1]]]));
+    const embedder = fixedEmbedder({ missing: [1, 0] });
+
+    const ranked = await createDatabaseVectorIndex().search(embedder, [1, 0], [belief("stored", "stored"), belief("missing", "missing")]);
+
+    expect(findBeliefEmbeddings).toHaveBeenCalledWith(["stored", "missing"], "fixed");
+    expect(embedder.embed).toHaveBeenCalledWith(["missing"]);
+    expect(saveBeliefEmbedding).toHaveBeenCalledWith("missing", "fixed", [1, 0]);
+    expect(ranked.map(r => r.belief.id)).toEqual(["missing", "stored"]);
+  });
+});
+
+describe("getBeliefVectorIndex", () => {
+  it("uses the database index unless pgvector is configured and running", async () => {
+    const index = await getBeliefVectorIndex({ userId: "u1", projectId: "p1" });
+    await index.search(fixedEmbedder({}), [1, 0], [belief("b1", "b1", "p1")]);
+
+    expect(getProjectContainers).not.toHaveBeenCalled();
+    expect(executeSql).not.toHaveBeenCalled();
+  });
+
+  it("keeps user-wide beliefs out of the project's pgvector container", async () => {
+    process.env.BELIEF_VECTOR_STORE = "pgvector";
+    vi.mocked(getProjectContainers).mockResolvedValue({
+      projectId: "p1",
+      userId: "u1",
+      networkId: null,
+      containers: [{ id: "c1", projectId: "p1", type: "pgvector", containerId: "x", name: "pgvector", status: "running", host: "localhost", port: 1, createdAt: 0 }],
+      createdAt: 0,
+      lastActivity: 0,
+    });
+    vi.mocked(executeSql).mockImplementation(async (_projectId, sql) => ({
+      success: true,
+      output: "",
+      result: {
+        command: "SELECT",
+        columns: ["value"],
+        rows: [[sql.includes("<=>") ? "project-belief=0.5" : ""]],
+        rowCount: 1,
+        offset: 0,
+        limit: 1,
+        hasMore: false,
+      },
+    }));
+    const embedder = fixedEmbedder({ global: [1, 0], project: [0, 1] });
+
+    const index = await getBeliefVectorIndex({ userId: "u1", projectId: "p1" });
+    const ranked = await index.search(embedder, [1, 0], [belief("project-belief", "project", "p1"), belief("global-belief", "global")]);
+
+    const statements = vi.mocked(executeSql).mock.calls.map(([, sql]) => sql).join("\n");
+    expect(statements).toContain("'project-belief'");
+    expect(statements).not.toContain("global-belief");
+    expect(findBeliefEmbeddings).toHaveBeenCalledWith(["global-belief"], "fixed");
+    expect(ranked.map(r => [r.belief.id, r.score])).toEqual([["global-belief", 1], ["project-belief", 0.5]]);
+  });
+});
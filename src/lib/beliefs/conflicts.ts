@@ -0,0 +1,98 @@
+/**
+ * Belief Conflict Detection
+ *
+ * Finds near-duplicates and likely contradictions of a new belief among
+ * existing beliefs. Beliefs are compared by their subject (the text with
+ * stance words like "prefer" / "avoid" removed) and by their stance, so
+ * "Prefer Tailwind" duplicates "Always use Tailwind" and contradicts
+ * "Avoid Tailwind".
+ */
+
+import { Belief } from "./types";
+import { BeliefEmbedder, cosineSimilarity } from "./embeddings";
+
+export type BeliefStance = "for" | "against";
+
+export interface BeliefMatch {
+  belief: Belief;
+  kind: "duplicate" | "contradiction";
+  similarity: number; // subject similarity, 0 to 1
+}
+
+// Subject similarity needed to treat beliefs with the same stance as one belief
+export const DUPLICATE_SIMILARITY = 0.85;
+// Subject similarity needed to treat beliefs with opposite stances as contradicting
+export const CONTRADICTION_SIMILARITY = 0.6;
+
+const NEGATIONS = new Set([
+  "avoid", "never", "not", "no", "dont", "don't", "doesnt", "doesn't",
+  "shouldnt", "shouldn't", "stop", "against", "dislike", "dislikes", "hate",
+  "hates", "without", "disable", "ban", "skip", "drop",
+]);
+
+// Words that carry stance or no meaning, removed to get a belief's subject
+const NON_SUBJECT_WORDS = new Set([
+  ...NEGATIONS,
+  "prefer", "prefers", "use", "uses", "using", "always", "like", "likes",
+  "love", "loves", "want", "wants", "enable", "do", "does", "should", "must",
+  "we", "i", "they", "user", "the", "a", "an", "to", "over", "for", "of",
+  "in", "on", "with", "and", "or", "is", "are", "be",
+]);
+
+/**
+ * Split belief text into lowercase words, keeping apostrophes
+ */
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9']+/g) || [];
+}
+
+/**
+ * Determine whether a belief argues for or against its subject
+ * (an odd number of negations means "against")
+ */
+export function getBeliefStance(text: string): BeliefStance {
+  const negations = words(text).filter(w => NEGATIONS.has(w)).length;
+  return negations % 2 === 1 ? "against" : "for";
+}
+
+/**
+ * Strip stance words, leaving the subject of a belief
+ */
+export function getBeliefSubject(text: string): string {
+  return words(text).filter(w => !NON_SUBJECT_WORDS.has(w)).join(" ");
+}
+
+/**
+ * Find existing beliefs that duplicate or contradict a belief text,
+ * most similar first
+ */
+export async function findBeliefMatches(
+  text: string,
+  candidates: Belief[],
+  embedder: BeliefEmbedder
+): Promise<BeliefMatch[]> {
+  const subject = getBeliefSubject(text);
+  if (!subject || candidates.length === 0) {
+    return [];
+  }
+
+  const stance = getBeliefStance(text);
+  const [subjectVector, ...candidateVectors] = await embedder.embed([
+    subject,
+    ...candidates.map(b => getBeliefSubject(b.belief)),
+  ]);
+
+  const matches: BeliefMatch[] = [];
+  candidates.forEach((belief, i) => {
+    const similarity = cosineSimilarity(subjectVector, candidateVectors[i]);
+    const sameStance = getBeliefStance(belief.belief) === stance;
+
+    if (sameStance && similarity >= DUPLICATE_SIMILARITY) {
+      matches.push({ belief, kind: "duplicate", similarity });
+    } else if (!sameStance && similarity >= CONTRADICTION_SIMILARITY) {
+      matches.push({ belief, kind: "contradiction", similarity });
+    }
+  });
+
+  return matches.sort((a, b) => b.similarity - a.similarity);
+}
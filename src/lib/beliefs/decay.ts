@@ -0,0 +1,58 @@
+/**
+ * Belief Confidence Decay
+ *
+ * Half-life decay for beliefs that have not been reinforced recently.
+ * Confidence halves every `halfLifeDays` since the later of the last
+ * reinforcement and the last applied decay.
+ */
+
+import { Belief, BeliefScope } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Default half-life per scope, in days (architecture choices age slower than product opinions)
+export const DEFAULT_DECAY_HALF_LIFE_DAYS: Record<BeliefScope, number> = {
+  architecture: 180,
+  ux: 90,
+  product: 60,
+  "dev-habits": 120,
+  cost: 60,
+  general: 45,
+};
+
+// Smallest confidence drop worth persisting; smaller drops keep accumulating
+export const MIN_DECAY_DELTA = 0.01;
+
+export interface DecayOptions {
+  /** Reference time (defaults to Date.now()) */
+  now?: number;
+  /** Per-scope half-life overrides in days; 0 or Infinity disables decay for a scope */
+  halfLifeDays?: Partial<Record<BeliefScope, number>>;
+}
+
+/**
+ * Resolve the half-life for a scope, applying overrides
+ */
+export function getDecayHalfLifeDays(scope: BeliefScope, overrides?: DecayOptions["halfLifeDays"]): number {
+  return overrides?.[scope] ?? DEFAULT_DECAY_HALF_LIFE_DAYS[scope];
+}
+
+/**
+ * Compute the decayed confidence of a belief at a point in time
+ * (unclamped; returns the current confidence when decay does not apply)
+ */
+export function computeDecayedConfidence(belief: Belief, options?: DecayOptions): number {
+  const halfLifeDays = getDecayHalfLifeDays(belief.scope, options?.halfLifeDays);
+  if (belief.status === "deprecated" || !(halfLifeDays > 0) || !Number.isFinite(halfLifeDays)) {
+    return belief.confidence;
+  }
+
+  const now = options?.now ?? Date.now();
+  const since = Math.max(belief.lastReinforced, belief.lastDecayed ?? 0);
+  const elapsed = now - since;
+  if (elapsed <= 0) {
+    return belief.confidence;
+  }
+
+  return belief.confidence * Math.pow(0.5, elapsed / (halfLifeDays * DAY_MS));
+}
@@ -0,0 +1,113 @@
+/**
+ * Belief Embeddings
+ *
+ * Text embedders used to rank beliefs by relevance. The default embedder
+ * is local and deterministic: words, word bigrams and character trigrams
+ * are hashed into a fixed-size vector, so no external API is needed.
+ */
+
+export interface BeliefEmbedder {
+  /** Stable identifier; stored with each vector so stale vectors are recomputed */
+  id: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Split text into lowercase word tokens
+ */
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+/g) || [];
+}
+
+/**
+ * Scale a vector to unit length (zero vectors are returned unchanged)
+ */
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+/**
+ * Embed a single text with hashed n-gram features
+ */
+function hashedNgramVector(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const add = (feature: string, weight: number) => {
+    const hash = fnv1a(feature);
+    // Use the top bit as a sign to spread collisions around zero
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % dimensions] += sign * weight;
+  };
+
+  const words = tokenize(text);
+  words.forEach((word, i) => {
+    add(`w:${word}`, 1);
+    if (i > 0) {
+      add(`b:${words[i - 1]} ${word}`, 0.75);
+    }
+    const padded = ` ${word} `;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      add(`c:${padded.slice(j, j + 3)}`, 0.25);
+    }
+  });
+
+  return normalize(vector);
+}
+
+/**
+ * Create the deterministic local embedder
+ */
+export function createHashedNgramEmbedder(dimensions = 256): BeliefEmbedder {
+  return {
+    id: `hashed-ngram-${dimensions}`,
+    dimensions,
+    embed: async (texts) => texts.map(text => hashedNgramVector(text, dimensions)),
+  };
+}
+
+/**
+ * Cosine similarity between two vectors of equal length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+let activeEmbedder: BeliefEmbedder = createHashedNgramEmbedder();
+
+/**
+ * Get the embedder used for belief retrieval
+ */
+export function getBeliefEmbedder(): BeliefEmbedder {
+  return activeEmbedder;
+}
+
+/**
+ * Replace the embedder used for belief retrieval
+ */
+export function setBeliefEmbedder(embedder: BeliefEmbedder): void {
+  activeEmbedder = embedder;
+}
@@ -3,21 +3,48 @@
  * 
  * Core logic for managing beliefs: create, reinforce, contradict, deprecate, delete.
  * Implements confidence decay rules and status transitions.
+ * Time-based decay is applied lazily whenever beliefs are read.
+ * All operations run against the owner's server-side store.
  */
 
+import { randomUUID } from "crypto";
 import { 
   Belief, 
+  BeliefConflictStrategy,
   BeliefEvent, 
+  BeliefMergeStrategy,
+  BeliefOwner,
   BeliefScope, 
   BeliefStatus,
-  BeliefStore 
+  BeliefStore,
 } from "./types";
-import { loadStore, saveStore } from "./storage";
-
-// Generate unique ID
-function generateId(): string {
-  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-}
+import {
+  beliefExists,
+  clearStore,
+  loadStore,
+  findBeliefs,
+  findBelief,
+  findDecayCandidates,
+  findEvents,
+  insertBelief,
+  updateBelief,
+  insertContradiction,
+  replaceContradictions,
+  removeBelief,
+  insertEvent,
+  withBeliefTransaction,
+  BeliefDb,
+} from "./storage";
+import { computeDecayedConfidence, DecayOptions, MIN_DECAY_DELTA } from "./decay";
+import { getBeliefEmbedder } from "./embeddings";
+import { BeliefMatch, findBeliefMatches } from "./conflicts";
+import { migrateBeliefStore } from "./migrations";
+import { buildConfidenceHistory, ConfidencePoint, replayBeliefEvents } from "./timeline";
+import {
+  createDatabaseVectorIndex,
+  getBeliefVectorIndex,
+  ScoredBelief,
+} from "./vector-index";
 
 // Confidence adjustment constants
 const REINFORCE_DELTA = 0.05;
@@ -28,6 +55,10 @@ const UNSTABLE_THRESHOLD = 0.4;
 const DEPRECATED_THRESHOLD = 0.2;
 const MAX_CONTRADICTIONS_BEFORE_DEPRECATE = 3;
 
+// Retrieval constants
+const MIN_SEARCH_RELEVANCE = 0.2;
+const RELEVANCE_WEIGHT = 0.7; // remainder of the ranking score comes from confidence
+
 /**
  * Determine belief status based on confidence and contradictions
  */
@@ -49,50 +80,132 @@ function clampConfidence(value: number): number {
 }
 
 /**
- * Create a belief event
+ * Record a belief event with a snapshot of the belief after the change
+ * Events are stored under the belief's own scope (user-wide or project).
  */
-function createEvent(
+function recordEvent(
+  owner: BeliefOwner,
   type: BeliefEvent["type"],
-  beliefId: string,
-  beliefText?: string,
+  belief: Belief,
   deltaConfidence?: number,
-  note?: string
-): BeliefEvent {
-  return {
-    id: generateId(),
+  note?: string,
+  db?: BeliefDb
+): Promise<BeliefEvent> {
+  return insertEvent({ userId: owner.userId, projectId: belief.projectId ?? null }, {
     type,
-    beliefId,
-    beliefText,
+    beliefId: belief.id,
+    beliefText: belief.belief,
     at: Date.now(),
     deltaConfidence,
     note,
-  };
+    snapshot: belief,
+  }, db);
+}
+
+/**
+ * Apply pending time-based decay to a belief, persisting it when the drop is significant
+ */
+async function applyDecay(owner: BeliefOwner, belief: Belief, options?: DecayOptions): Promise<Belief> {
+  const decayed = clampConfidence(computeDecayedConfidence(belief, options));
+  if (belief.confidence - decayed < MIN_DECAY_DELTA) {
+    return belief;
+  }
+
+  const updated = await updateBelief(belief.id, {
+    confidence: decayed,
+    status: computeStatus(decayed, belief.contradictions.length),
+    lastDecayed: options?.now ?? Date.now(),
+  });
+
+  await recordEvent(
+    owner,
+    "decay",
+    updated,
+    updated.confidence - belief.confidence,
+    belief.status !== updated.status ? `Status changed: ${belief.status} → ${updated.status}` : undefined
+  );
+
+  return updated;
+}
+
+/**
+ * Load beliefs visible to an owner with decay applied
+ * (status is filtered after decay, since decay can change it)
+ */
+async function loadBeliefs(
+  owner: BeliefOwner,
+  filter?: { scope?: BeliefScope; status?: BeliefStatus }
+): Promise<Belief[]> {
+  const beliefs: Belief[] = [];
+  for (const belief of await findBeliefs(owner, { scope: filter?.scope })) {
+    beliefs.push(await applyDecay(owner, belief));
+  }
+
+  return filter?.status ? beliefs.filter(b => b.status === filter.status) : beliefs;
+}
+
+/**
+ * Load a single belief with decay applied
+ */
+async function loadBelief(owner: BeliefOwner, id: string): Promise<Belief | null> {
+  const belief = await findBelief(owner, id);
+  return belief ? applyDecay(owner, belief) : null;
+}
+
+/**
+ * Rank beliefs by semantic relevance to a query
+ * (falls back to the database index if the owner's index fails)
+ */
+async function rankByRelevance(
+  owner: BeliefOwner,
+  beliefs: Belief[],
+  query: string
+): Promise<ScoredBelief[]> {
+  const embedder = getBeliefEmbedder();
+  const [queryVector] = await embedder.embed([query]);
+  const index = await getBeliefVectorIndex(owner);
+
+  try {
+    return await index.search(embedder, queryVector, beliefs);
+  } catch (error) {
+    console.error("Belief vector index failed, using database index:", error);
+    return createDatabaseVectorIndex().search(embedder, queryVector, beliefs);
+  }
+}
+
+/**
+ * Get a belief or throw if it is not visible to the owner
+ */
+async function requireBelief(owner: BeliefOwner, id: string): Promise<Belief> {
+  const belief = await loadBelief(owner, id);
+
+  if (!belief) {
+    throw new Error(`Belief not found: ${id}`);
+  }
+
+  return belief;
 }
 
 /**
  * List all beliefs
  */
-export function listBeliefs(): Belief[] {
-  const store = loadStore();
-  return store.beliefs;
+export async function listBeliefs(owner: BeliefOwner): Promise<Belief[]> {
+  return loadBeliefs(owner);
 }
 
 /**
  * Get beliefs filtered by scope and/or status
  */
-export function getBeliefs(options?: {
+export async function getBeliefs(owner: BeliefOwner, options?: {
   scope?: BeliefScope;
   status?: BeliefStatus;
   minConfidence?: number;
-}): Belief[] {
-  let beliefs = listBeliefs();
+}): Promise<Belief[]> {
+  let beliefs = await loadBeliefs(owner, {
+    scope: options?.scope,
+    status: options?.status,
+  });
 
-  if (options?.scope) {
-    beliefs = beliefs.filter(b => b.scope === options.scope);
-  }
-  if (options?.status) {
-    beliefs = beliefs.filter(b => b.status === options.status);
-  }
   if (options?.minConfidence !== undefined) {
     const minConf = options.minConfidence;
     beliefs = beliefs.filter(b => b.confidence >= minConf);
@@ -104,46 +217,73 @@ export function getBeliefs(options?: {
 /**
  * Get a single belief by ID
  */
-export function getBelief(id: string): Belief | undefined {
-  const store = loadStore();
-  return store.beliefs.find(b => b.id === id);
+export async function getBelief(owner: BeliefOwner, id: string): Promise<Belief | undefined> {
+  return (await loadBelief(owner, id)) ?? undefined;
 }
 
 /**
  * Get recent events
  */
-export function getEvents(limit = 20): BeliefEvent[] {
-  const store = loadStore();
-  return store.events
-    .sort((a, b) => b.at - a.at)
-    .slice(0, limit);
+export async function getEvents(owner: BeliefOwner, limit = 20): Promise<BeliefEvent[]> {
+  return findEvents(owner, { limit });
+}
+
+export interface UpsertBeliefResult {
+  action: "created" | "reinforced" | "contradicted" | "conflict";
+  belief?: Belief; // absent when action is "conflict"
+  conflicts: BeliefMatch[]; // contradicting beliefs (contradicted or reported)
 }
 
 /**
  * Create or update a belief
- * If a belief with the exact same text exists, reinforces it instead.
+ * If the same or a near-duplicate belief exists in the scope, reinforces it instead.
+ * Likely contradictions are contradicted or reported, depending on onConflict.
  */
-export function upsertBelief(
+export async function upsertBelief(
+  owner: BeliefOwner,
   beliefText: string,
   scope: BeliefScope,
-  evidence: string[] = []
-): Belief {
-  const store = loadStore();
+  evidence: string[] = [],
+  options?: { onConflict?: BeliefConflictStrategy }
+): Promise<UpsertBeliefResult> {
   const now = Date.now();
+  const beliefs = await loadBeliefs(owner);
   
   // Check for existing belief with same text (case-insensitive)
-  const existing = store.beliefs.find(
+  const existing = beliefs.find(
     b => b.belief.toLowerCase().trim() === beliefText.toLowerCase().trim()
   );
 
   if (existing) {
     // Reinforce existing belief
-    return reinforceBelief(existing.id, evidence[0] || "Re-stated by user");
+    const belief = await reinforceBelief(owner, existing.id, evidence[0] || "Re-stated by user");
+    return { action: "reinforced", belief, conflicts: [] };
+  }
+
+  // Compare against active beliefs in the same scope
+  const matches = await findBeliefMatches(
+    beliefText,
+    beliefs.filter(b => b.scope === scope && b.status !== "deprecated"),
+    getBeliefEmbedder()
+  );
+
+  const duplicate = matches.find(m => m.kind === "duplicate");
+  if (duplicate) {
+    const belief = await reinforceBelief(
+      owner,
+      duplicate.belief.id,
+      evidence[0] || `Re-stated as: ${beliefText.trim()}`
+    );
+    return { action: "reinforced", belief, conflicts: [] };
+  }
+
+  const conflicts = matches.filter(m => m.kind === "contradiction");
+  if (conflicts.length > 0 && options?.onConflict === "report") {
+    return { action: "conflict", conflicts };
   }
 
   // Create new belief
-  const newBelief: Belief = {
-    id: generateId(),
+  const newBelief = await insertBelief(owner, {
     belief: beliefText.trim(),
     scope,
     confidence: 0.6, // Start with moderate confidence
@@ -151,149 +291,156 @@ export function upsertBelief(
     createdAt: now,
     lastReinforced: now,
     status: "active",
-    contradictions: [],
-  };
+  });
 
-  store.beliefs.push(newBelief);
-  store.events.push(createEvent("create", newBelief.id, newBelief.belief, undefined, `Created with scope: ${scope}`));
+  await recordEvent(owner, "create", newBelief, undefined, `Created with scope: ${scope}`);
+
+  for (const conflict of conflicts) {
+    await contradictBelief(owner, conflict.belief.id, `Contradicted by new belief: ${newBelief.belief}`);
+  }
   
-  saveStore(store);
-  return newBelief;
+  return {
+    action: conflicts.length > 0 ? "contradicted" : "created",
+    belief: newBelief,
+    conflicts,
+  };
 }
 
 /**
  * Reinforce a belief (increase confidence)
  */
-export function reinforceBelief(id: string, evidenceItem?: string): Belief {
-  const store = loadStore();
-  const belief = store.beliefs.find(b => b.id === id);
-
-  if (!belief) {
-    throw new Error(`Belief not found: ${id}`);
-  }
+export async function reinforceBelief(owner: BeliefOwner, id: string, evidenceItem?: string): Promise<Belief> {
+  const belief = await requireBelief(owner, id);
 
   const oldConfidence = belief.confidence;
-  belief.confidence = clampConfidence(belief.confidence + REINFORCE_DELTA);
-  belief.lastReinforced = Date.now();
-  
-  if (evidenceItem?.trim()) {
-    belief.evidence.push(evidenceItem.trim());
-  }
+  const confidence = clampConfidence(belief.confidence + REINFORCE_DELTA);
+  const evidence = evidenceItem?.trim()
+    ? [...belief.evidence, evidenceItem.trim()]
+    : belief.evidence;
 
   // Recompute status (reinforcement might restore from unstable)
-  belief.status = computeStatus(belief.confidence, belief.contradictions.length);
+  const updated = await updateBelief(id, {
+    confidence,
+    evidence,
+    lastReinforced: Date.now(),
+    status: computeStatus(confidence, belief.contradictions.length),
+  });
 
-  store.events.push(createEvent(
+  await recordEvent(
+    owner,
     "reinforce",
-    belief.id,
-    belief.belief,
-    belief.confidence - oldConfidence,
+    updated,
+    updated.confidence - oldConfidence,
     evidenceItem
-  ));
+  );
 
-  saveStore(store);
-  return belief;
+  return updated;
 }
 
 /**
  * Contradict a belief (decrease confidence)
  */
-export function contradictBelief(id: string, reason: string, evidenceItem?: string): Belief {
-  const store = loadStore();
-  const belief = store.beliefs.find(b => b.id === id);
-
-  if (!belief) {
-    throw new Error(`Belief not found: ${id}`);
-  }
+export async function contradictBelief(
+  owner: BeliefOwner,
+  id: string,
+  reason: string,
+  evidenceItem?: string
+): Promise<Belief> {
+  const belief = await requireBelief(owner, id);
 
   const oldConfidence = belief.confidence;
-  belief.confidence = clampConfidence(belief.confidence + CONTRADICT_DELTA);
+  const confidence = clampConfidence(belief.confidence + CONTRADICT_DELTA);
   
-  belief.contradictions.push({
-    beliefId: id,
-    reason: reason.trim(),
-    at: Date.now(),
-  });
+  await insertContradiction(id, reason.trim(), Date.now());
 
-  if (evidenceItem?.trim()) {
-    belief.evidence.push(`[CONTRADICTION] ${evidenceItem.trim()}`);
-  }
+  const evidence = evidenceItem?.trim()
+    ? [...belief.evidence, `[CONTRADICTION] ${evidenceItem.trim()}`]
+    : belief.evidence;
 
   // Recompute status
-  belief.status = computeStatus(belief.confidence, belief.contradictions.length);
+  const updated = await updateBelief(id, {
+    confidence,
+    evidence,
+    status: computeStatus(confidence, belief.contradictions.length + 1),
+  });
 
-  store.events.push(createEvent(
+  await recordEvent(
+    owner,
     "contradict",
-    belief.id,
-    belief.belief,
-    belief.confidence - oldConfidence,
+    updated,
+    updated.confidence - oldConfidence,
     reason
-  ));
+  );
 
-  saveStore(store);
-  return belief;
+  return updated;
 }
 
 /**
  * Deprecate a belief manually
  */
-export function deprecateBelief(id: string, reason?: string): Belief {
-  const store = loadStore();
-  const belief = store.beliefs.find(b => b.id === id);
-
-  if (!belief) {
-    throw new Error(`Belief not found: ${id}`);
-  }
+export async function deprecateBelief(owner: BeliefOwner, id: string, reason?: string): Promise<Belief> {
+  await requireBelief(owner, id);
 
-  belief.status = "deprecated";
-  belief.confidence = MIN_CONFIDENCE;
+  const updated = await updateBelief(id, {
+    status: "deprecated",
+    confidence: MIN_CONFIDENCE,
+  });
 
-  store.events.push(createEvent(
+  await recordEvent(
+    owner,
     "deprecate",
-    belief.id,
-    belief.belief,
+    updated,
     undefined,
     reason || "Manually deprecated"
-  ));
+  );
 
-  saveStore(store);
-  return belief;
+  return updated;
 }
 
 /**
  * Delete a belief permanently
  */
-export function deleteBelief(id: string): void {
-  const store = loadStore();
-  const belief = store.beliefs.find(b => b.id === id);
+export async function deleteBelief(owner: BeliefOwner, id: string): Promise<void> {
+  const belief = await requireBelief(owner, id);
 
-  if (!belief) {
-    throw new Error(`Belief not found: ${id}`);
-  }
-
-  store.events.push(createEvent(
+  await recordEvent(
+    owner,
     "delete",
-    belief.id,
-    belief.belief,
+    belief,
     undefined,
     "Permanently deleted"
-  ));
+  );
 
-  store.beliefs = store.beliefs.filter(b => b.id !== id);
-  saveStore(store);
+  await removeBelief(id);
 }
 
 /**
  * Get top N beliefs by confidence for a given context
  * Used for generating belief context summaries
+ * With a query, beliefs are ranked by relevance to it, weighted by confidence.
  */
-export function getTopBeliefs(n: number = 5, scopes?: BeliefScope[]): Belief[] {
-  let beliefs = listBeliefs().filter(b => b.status !== "deprecated");
+export async function getTopBeliefs(
+  owner: BeliefOwner,
+  n: number = 5,
+  scopes?: BeliefScope[],
+  query?: string
+): Promise<Belief[]> {
+  let beliefs = (await listBeliefs(owner)).filter(b => b.status !== "deprecated");
   
   if (scopes && scopes.length > 0) {
     beliefs = beliefs.filter(b => scopes.includes(b.scope));
   }
 
+  if (query?.trim()) {
+    const ranked = await rankByRelevance(owner, beliefs, query);
+    const score = (r: ScoredBelief) =>
+      RELEVANCE_WEIGHT * r.score + (1 - RELEVANCE_WEIGHT) * r.belief.confidence;
+    return ranked
+      .sort((a, b) => score(b) - score(a))
+      .slice(0, n)
+      .map(r => r.belief);
+  }
+
   return beliefs
     .sort((a, b) => {
       // Sort by confidence, then by lastReinforced
@@ -308,17 +455,67 @@ export function getTopBeliefs(n: number = 5, scopes?: BeliefScope[]): Belief[] {
 /**
  * Get unstable beliefs that might need attention
  */
-export function getUnstableBeliefs(): Belief[] {
-  return listBeliefs().filter(b => b.status === "unstable");
+export async function getUnstableBeliefs(owner: BeliefOwner): Promise<Belief[]> {
+  return loadBeliefs(owner, { status: "unstable" });
+}
+
+/**
+ * Apply decay to all beliefs visible to an owner
+ * Returns the beliefs whose confidence decayed.
+ */
+export async function decayBeliefs(owner: BeliefOwner, options?: DecayOptions): Promise<Belief[]> {
+  const decayed: Belief[] = [];
+  for (const belief of await findBeliefs(owner)) {
+    const updated = await applyDecay(owner, belief, options);
+    if (updated !== belief) {
+      decayed.push(updated);
+    }
+  }
+
+  return decayed;
+}
+
+/**
+ * Sweep job: apply decay to every non-deprecated belief across all owners
+ */
+export async function sweepBeliefDecay(
+  options?: DecayOptions & { batchSize?: number }
+): Promise<{ scanned: number; decayed: number }> {
+  const batchSize = options?.batchSize ?? 500;
+  let scanned = 0;
+  let decayed = 0;
+  let cursor: string | undefined;
+
+  while (true) {
+    const batch = await findDecayCandidates(batchSize, cursor);
+    if (batch.length === 0) break;
+
+    for (const { owner, belief } of batch) {
+      const updated = await applyDecay(owner, belief, options);
+      if (updated !== belief) {
+        decayed++;
+      }
+    }
+
+    scanned += batch.length;
+    cursor = batch[batch.length - 1].belief.id;
+    if (batch.length < batchSize) break;
+  }
+
+  return { scanned, decayed };
 }
 
 /**
  * Generate a belief context summary for prompts
  * Returns a string summarising top beliefs (max ~800 chars)
  */
-export function generateBeliefContextSummary(scopes?: BeliefScope[]): string {
-  const topBeliefs = getTopBeliefs(5, scopes);
-  const unstableBeliefs = getUnstableBeliefs()
+export async function generateBeliefContextSummary(
+  owner: BeliefOwner,
+  scopes?: BeliefScope[],
+  query?: string
+): Promise<string> {
+  const topBeliefs = await getTopBeliefs(owner, 5, scopes, query);
+  const unstableBeliefs = (await getUnstableBeliefs(owner))
     .filter(b => !scopes || scopes.includes(b.scope))
     .slice(0, 2);
 
@@ -354,16 +551,245 @@ export function generateBeliefContextSummary(scopes?: BeliefScope[]): string {
 
 /**
  * Search beliefs by text
+ * Results are ordered by semantic relevance; exact substring matches are always included.
  */
-export function searchBeliefs(query: string): Belief[] {
+export async function searchBeliefs(owner: BeliefOwner, query: string): Promise<Belief[]> {
+  const beliefs = await listBeliefs(owner);
   const lowerQuery = query.toLowerCase().trim();
   if (!lowerQuery) {
-    return listBeliefs();
+    return beliefs;
   }
 
-  return listBeliefs().filter(b => 
+  const isTextMatch = (b: Belief) =>
     b.belief.toLowerCase().includes(lowerQuery) ||
-    b.evidence.some(e => e.toLowerCase().includes(lowerQuery))
-  );
+    b.evidence.some(e => e.toLowerCase().includes(lowerQuery));
+
+  const ranked = await rankByRelevance(owner, beliefs, query);
+  return ranked
+    .filter(r => r.score >= MIN_SEARCH_RELEVANCE || isTextMatch(r.belief))
+    .map(r => r.belief);
+}
+
+/**
+ * Export an owner's beliefs and event history as a versioned document
+ */
+export async function exportBeliefs(owner: BeliefOwner): Promise<BeliefStore> {
+  return loadStore(owner);
+}
+
+export interface BeliefImportResult {
+  created: number;
+  merged: number;
+  events: number;
 }
 
+/**
+ * Import a belief document into an owner's store
+ * Older document versions are migrated and the whole document is validated
+ * before anything is written. Beliefs are matched to existing ones by text
+ * (case-insensitive) and combined according to the strategy. Every created
+ * or updated belief gets an "import" event, so the timeline and revert see
+ * it. All writes, including clearing the store for "replace", run in one
+ * transaction.
+ */
+export async function importBeliefs(
+  owner: BeliefOwner,
+  data: unknown,
+  strategy: BeliefMergeStrategy = "keep-higher-confidence"
+): Promise<BeliefImportResult> {
+  const store = migrateBeliefStore(data);
+  const textKey = (text: string) => text.toLowerCase().trim();
+
+  return withBeliefTransaction(async (db) => {
+    if (strategy === "replace") {
+      await clearStore(owner, db);
+    }
+
+    const existing = strategy === "replace" ? [] : (await loadStore(owner, db)).beliefs;
+    const byText = new Map(existing.map(b => [textKey(b.belief), b]));
+
+    // Imported IDs come from another store, so every one is mapped to a local ID
+    const idMap = new Map<string, string>();
+    const mergedIds = new Set<string>();
+    // State of every created or updated belief, recorded once imported history is in place
+    const imported: Belief[] = [];
+    let created = 0;
+
+    for (const incoming of store.beliefs) {
+      const match = byText.get(textKey(incoming.belief));
+
+      if (!match) {
+        const belief = await insertBelief(owner, incoming, undefined, db);
+        for (const contradiction of incoming.contradictions) {
+          await insertContradiction(belief.id, contradiction.reason, contradiction.at, db);
+        }
+        imported.push({
+          ...belief,
+          contradictions: incoming.contradictions.map(c => ({ ...c, beliefId: belief.id })),
+        });
+        idMap.set(incoming.id, belief.id);
+        byText.set(textKey(belief.belief), belief);
+        created++;
+        continue;
+      }
+
+      idMap.set(incoming.id, match.id);
+      mergedIds.add(incoming.id);
+
+      if (strategy === "keep-higher-confidence" && incoming.confidence <= match.confidence) {
+        continue;
+      }
+
+      const known = new Set(match.contradictions.map(c => `${c.reason}|${c.at}`));
+      const newContradictions = incoming.contradictions.filter(c => !known.has(`${c.reason}|${c.at}`));
+      for (const contradiction of newContradictions) {
+        await insertContradiction(match.id, contradiction.reason, contradiction.at, db);
+      }
+
+      if (strategy === "keep-higher-confidence") {
+        imported.push(await updateBelief(match.id, {
+          confidence: incoming.confidence,
+          evidence: incoming.evidence,
+          status: incoming.status,
+          lastReinforced: incoming.lastReinforced,
+        }, db));
+      } else {
+        const confidence = Math.max(match.confidence, incoming.confidence);
+        imported.push(await updateBelief(match.id, {
+          confidence,
+          evidence: [...new Set([...match.evidence, ...incoming.evidence])],
+          status: computeStatus(confidence, match.contradictions.length + newContradictions.length),
+          lastReinforced: Math.max(match.lastReinforced, incoming.lastReinforced),
+        }, db));
+      }
+    }
+
+    // Merged beliefs keep their local history; everything else is replayable as imported
+    let events = 0;
+    for (const event of store.events) {
+      if (mergedIds.has(event.beliefId)) {
+        continue;
+      }
+
+      // Beliefs deleted before export only have history, under a fresh ID
+      const beliefId = idMap.get(event.beliefId) ?? randomUUID();
+      idMap.set(event.beliefId, beliefId);
+
+      // Snapshots are replayed and restored by revert, so they must point at
+      // the local belief and owner rather than the exporting store's
+      const snapshot: Belief | undefined = event.snapshot ? {
+        ...event.snapshot,
+        id: beliefId,
+        projectId: owner.projectId ?? null,
+        contradictions: event.snapshot.contradictions.map(c => ({ ...c, beliefId })),
+      } : undefined;
+
+      await insertEvent(owner, { ...event, beliefId, snapshot }, db);
+      events++;
+    }
+
+    // Imported history ends at the export, so the import itself is recorded
+    // last; otherwise the timeline (and revert) would not see these beliefs
+    const note = "Imported from a belief document";
+    for (const belief of imported) {
+      const previous = existing.find(b => b.id === belief.id);
+      await recordEvent(owner, "import", belief, previous && belief.confidence - previous.confidence, note, db);
+    }
+
+    return { created, merged: mergedIds.size, events };
+  });
+}
+
+/**
+ * Rebuild the beliefs visible to an owner as they were at a point in time
+ */
+export async function getBeliefsAt(owner: BeliefOwner, at: number): Promise<Belief[]> {
+  const events = await findEvents(owner, { until: at, order: "asc" });
+  return replayBeliefEvents(events, at);
+}
+
+/**
+ * Get the confidence history of a belief (including deleted beliefs)
+ */
+export async function getConfidenceHistory(owner: BeliefOwner, id: string): Promise<ConfidencePoint[]> {
+  const events = await findEvents(owner, { beliefId: id, order: "asc" });
+  return buildConfidenceHistory(events);
+}
+
+export interface BeliefRevertResult {
+  restored: number;
+  updated: number;
+  deleted: number;
+}
+
+/**
+ * Check whether a belief already matches a snapshot
+ */
+function matchesSnapshot(belief: Belief, snapshot: Belief): boolean {
+  return belief.confidence === snapshot.confidence &&
+    belief.status === snapshot.status &&
+    belief.lastReinforced === snapshot.lastReinforced &&
+    belief.contradictions.length === snapshot.contradictions.length &&
+    JSON.stringify(belief.evidence) === JSON.stringify(snapshot.evidence);
+}
+
+/**
+ * Revert the beliefs visible to an owner to their state at a point in time
+ * Every change is recorded as an event, so a revert can itself be reverted.
+ * The revert runs in one transaction: it applies completely or not at all.
+ */
+export async function revertBeliefs(owner: BeliefOwner, at: number): Promise<BeliefRevertResult> {
+  return withBeliefTransaction(async (db) => {
+    const target = replayBeliefEvents(await findEvents(owner, { until: at, order: "asc" }, db), at);
+    const current = await findBeliefs(owner, undefined, db);
+    const now = Date.now();
+    const note = `Reverted to ${new Date(at).toISOString()}`;
+    const result: BeliefRevertResult = { restored: 0, updated: 0, deleted: 0 };
+
+    const targetIds = new Set(target.map(b => b.id));
+    for (const belief of current) {
+      if (!targetIds.has(belief.id)) {
+        await recordEvent(owner, "delete", belief, undefined, note, db);
+        await removeBelief(belief.id, db);
+        result.deleted++;
+      }
+    }
+
+    const currentById = new Map(current.map(b => [b.id, b]));
+    for (const snapshot of target) {
+      const existing = currentById.get(snapshot.id);
+
+      if (existing) {
+        if (matchesSnapshot(existing, snapshot)) {
+          continue;
+        }
+
+        await replaceContradictions(snapshot.id, snapshot.contradictions, db);
+        // Decay restarts from the revert, not from the restored lastReinforced
+        const belief = await updateBelief(snapshot.id, {
+          confidence: snapshot.confidence,
+          evidence: snapshot.evidence,
+          status: snapshot.status,
+          lastReinforced: snapshot.lastReinforced,
+          lastDecayed: now,
+        }, db);
+        await recordEvent(owner, "revert", belief, belief.confidence - existing.confidence, note, db);
+        result.updated++;
+      } else {
+        // Snapshots can come from another store (imports), so the belief is
+        // restored under this owner and keeps its ID only if no one else has it
+        const belief = await insertBelief(
+          { userId: owner.userId, projectId: snapshot.projectId ? owner.projectId ?? null : null },
+          { ...snapshot, lastDecayed: now },
+          (await beliefExists(snapshot.id, db)) ? undefined : snapshot.id,
+          db
+        );
+        await replaceContradictions(belief.id, snapshot.contradictions, db);
+        await recordEvent(owner, "revert", { ...belief, contradictions: snapshot.contradictions }, undefined, note, db);
+        result.restored++;
+      }
+    }
+
+    return result;
+  });
+}
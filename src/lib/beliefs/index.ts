@@ -5,3 +5,9 @@
 export * from "./types";
 export * from "./storage";
 export * from "./engine";
+export * from "./decay";
+export * from "./embeddings";
+export * from "./vector-index";
+export * from "./conflicts";
+export * from "./migrations";
+export * from "./timeline";
@@ -0,0 +1,201 @@
+/**
+ * Belief Store Migrations
+ *
+ * Upgrades exported belief documents to the current BeliefStore version.
+ * Each migration takes a store at version N and returns one at version N + 1.
+ */
+
+import {
+  Belief,
+  BeliefEvent,
+  BeliefStore,
+  BELIEF_SCOPES,
+  BELIEF_STORE_VERSION,
+} from "./types";
+
+type Migration = (store: BeliefStore) => BeliefStore;
+
+/**
+ * Raised when a belief document cannot be read or migrated
+ */
+export class BeliefDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BeliefDocumentError";
+  }
+}
+
+const BELIEF_STATUSES = ["active", "unstable", "deprecated"];
+const EVENT_TYPES = ["create", "reinforce", "contradict", "deprecate", "delete", "decay", "revert", "import"];
+
+/**
+ * Keyed by the version a migration upgrades from
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // v1 (browser localStorage) -> v2 (server store): fill missing fields
+  // and drop values the server does not accept
+  1: (store) => ({
+    version: 2,
+    beliefs: store.beliefs
+      .filter(b => b && typeof b.belief === "string" && b.belief.trim())
+      .map((b): Belief => ({
+        id: String(b.id),
+        belief: b.belief.trim(),
+        scope: BELIEF_SCOPES.some(s => s.value === b.scope) ? b.scope : "general",
+        confidence: typeof b.confidence === "number" ? Math.max(0, Math.min(1, b.confidence)) : 0.6,
+        evidence: Array.isArray(b.evidence) ? b.evidence.filter(e => typeof e === "string") : [],
+        createdAt: Number(b.createdAt) || Date.now(),
+        lastReinforced: Number(b.lastReinforced) || Number(b.createdAt) || Date.now(),
+        status: BELIEF_STATUSES.includes(b.status) ? b.status : "active",
+        contradictions: Array.isArray(b.contradictions)
+          ? b.contradictions
+            .filter(c => c && typeof c.reason === "string")
+            .map(c => ({ ...c, at: Number(c.at) || Date.now() }))
+          : [],
+      })),
+    events: store.events
+      .filter((e): e is BeliefEvent => !!e && EVENT_TYPES.includes(e.type) && !!e.beliefId)
+      .map(e => ({ ...e, beliefId: String(e.beliefId), at: Number(e.at) || Date.now() })),
+  }),
+};
+
+/**
+ * Check that a value has the arrays every document version shares
+ */
+function isStoreShape(value: unknown): value is { beliefs: Belief[]; events: BeliefEvent[]; version?: unknown } {
+  const candidate = value as { beliefs?: unknown; events?: unknown } | null;
+  return !!candidate && typeof candidate === "object" &&
+    Array.isArray(candidate.beliefs) && Array.isArray(candidate.events);
+}
+
+const isTimestamp = (value: unknown): boolean => typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Describe what is wrong with a belief, or return null if it is valid
+ */
+function findBeliefProblem(value: unknown): string | null {
+  const b = value as Partial<Belief> | null;
+  if (!b || typeof b !== "object") {
+    return "must be an object";
+  }
+  if (typeof b.id !== "string" || !b.id) {
+    return "id must be a non-empty string";
+  }
+  if (typeof b.belief !== "string" || !b.belief.trim()) {
+    return "belief text is required";
+  }
+  if (!BELIEF_SCOPES.some(s => s.value === b.scope)) {
+    return `unknown scope "${b.scope}"`;
+  }
+  if (typeof b.confidence !== "number" || !(b.confidence >= 0 && b.confidence <= 1)) {
+    return "confidence must be a number between 0 and 1";
+  }
+  if (!Array.isArray(b.evidence) || !b.evidence.every(e => typeof e === "string")) {
+    return "evidence must be an array of strings";
+  }
+  if (!isTimestamp(b.createdAt) || !isTimestamp(b.lastReinforced)) {
+    return "createdAt and lastReinforced must be timestamps";
+  }
+  if (b.lastDecayed != null && !isTimestamp(b.lastDecayed)) {
+    return "lastDecayed must be a timestamp";
+  }
+  if (!BELIEF_STATUSES.includes(b.status as string)) {
+    return `unknown status "${b.status}"`;
+  }
+  if (
+    !Array.isArray(b.contradictions) ||
+    !b.contradictions.every(c => c && typeof c.reason === "string" && isTimestamp(c.at))
+  ) {
+    return "contradictions must be an array of { reason, at }";
+  }
+  return null;
+}
+
+/**
+ * Describe what is wrong with an event, or return null if it is valid
+ */
+function findEventProblem(value: unknown): string | null {
+  const e = value as Partial<BeliefEvent> | null;
+  if (!e || typeof e !== "object") {
+    return "must be an object";
+  }
+  if (!EVENT_TYPES.includes(e.type as string)) {
+    return `unknown type "${e.type}"`;
+  }
+  if (typeof e.beliefId !== "string" || !e.beliefId) {
+    return "beliefId must be a non-empty string";
+  }
+  if (!isTimestamp(e.at)) {
+    return "at must be a timestamp";
+  }
+  if (e.deltaConfidence != null && typeof e.deltaConfidence !== "number") {
+    return "deltaConfidence must be a number";
+  }
+  if (e.snapshot != null) {
+    const problem = findBeliefProblem(e.snapshot);
+    if (problem) {
+      return `snapshot ${problem}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check every belief and event of a current-version document
+ * Throws BeliefDocumentError naming the first invalid entry.
+ */
+function validateBeliefStore(store: BeliefStore): void {
+  store.beliefs.forEach((belief, index) => {
+    const problem = findBeliefProblem(belief);
+    if (problem) {
+      throw new BeliefDocumentError(`Invalid belief document: beliefs[${index}] ${problem}`);
+    }
+  });
+
+  store.events.forEach((event, index) => {
+    const problem = findEventProblem(event);
+    if (problem) {
+      throw new BeliefDocumentError(`Invalid belief document: events[${index}] ${problem}`);
+    }
+  });
+}
+
+/**
+ * Parse and migrate a belief document to the current version
+ * Throws BeliefDocumentError if the document is malformed or from a newer version.
+ */
+export function migrateBeliefStore(data: unknown): BeliefStore {
+  let raw = data;
+  if (typeof data === "string") {
+    try {
+      raw = JSON.parse(data);
+    } catch {
+      throw new BeliefDocumentError("Invalid belief document: not valid JSON");
+    }
+  }
+
+  if (!isStoreShape(raw)) {
+    throw new BeliefDocumentError("Invalid belief document: beliefs and events arrays are required");
+  }
+
+  let store: BeliefStore = {
+    beliefs: raw.beliefs,
+    events: raw.events,
+    version: typeof raw.version === "number" ? raw.version : 1,
+  };
+
+  if (store.version > BELIEF_STORE_VERSION) {
+    throw new BeliefDocumentError(`Unsupported belief document version: ${store.version}`);
+  }
+
+  while (store.version < BELIEF_STORE_VERSION) {
+    const migrate = MIGRATIONS[store.version];
+    if (!migrate) {
+      throw new BeliefDocumentError(`No migration from belief document version ${store.version}`);
+    }
+    store = migrate(store);
+  }
+
+  validateBeliefStore(store);
+  return store;
+}
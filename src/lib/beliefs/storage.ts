@@ -1,100 +1,389 @@
 /**
  * Belief Storage Layer
- * 
- * localStorage-based persistence for the belief memory system.
- * Namespaced and versioned for safe migrations.
+ *
+ * Prisma-backed persistence for the belief memory system.
+ * Beliefs are owned by a user and optionally scoped to a project.
  */
 
-import { BeliefStore, createEmptyStore } from "./types";
+import prisma, { isUuid } from "@/lib/db/prisma";
+import { Prisma } from "@prisma/client";
+import {
+  Belief,
+  BeliefEvent,
+  BeliefOwner,
+  BeliefScope,
+  BeliefStatus,
+  BeliefStore,
+  Contradiction,
+  createEmptyStore,
+} from "./types";
 
-const STORAGE_KEY = "evolvo:beliefs:v1";
+type BeliefRecord = Prisma.BeliefGetPayload<{ include: { contradictions: true } }>;
+type BeliefEventRecord = Prisma.BeliefEventGetPayload<object>;
 
 /**
- * Safely parse JSON with fallback
+ * The Prisma client, or an open transaction to run writes in
  */
-function safeJsonParse<T>(json: string, fallback: T): T {
-  try {
-    return JSON.parse(json) as T;
-  } catch {
-    return fallback;
-  }
+export type BeliefDb = Prisma.TransactionClient;
+
+// Imports write row by row, well past Prisma's default 5s transaction limit
+const TRANSACTION_TIMEOUT_MS = 60_000;
+
+/**
+ * Convert a Prisma belief record to a Belief
+ */
+function toBelief(record: BeliefRecord): Belief {
+  return {
+    id: record.id,
+    belief: record.belief,
+    scope: record.scope as BeliefScope,
+    confidence: record.confidence,
+    evidence: (record.evidence as unknown as string[]) || [],
+    createdAt: record.createdAt.getTime(),
+    lastReinforced: record.lastReinforced.getTime(),
+    lastDecayed: record.lastDecayed?.getTime(),
+    projectId: record.projectId,
+    status: record.status as BeliefStatus,
+    contradictions: record.contradictions
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(c => ({
+        beliefId: c.beliefId,
+        reason: c.reason,
+        at: c.createdAt.getTime(),
+      })),
+  };
 }
 
 /**
- * Check if we're in a browser environment
+ * Convert a Prisma event record to a BeliefEvent
  */
-function isBrowser(): boolean {
-  return typeof window !== "undefined" && typeof window.localStorage !== "undefined";
+function toEvent(record: BeliefEventRecord): BeliefEvent {
+  return {
+    id: record.id,
+    type: record.type as BeliefEvent["type"],
+    beliefId: record.beliefId,
+    beliefText: record.beliefText ?? undefined,
+    at: record.createdAt.getTime(),
+    deltaConfidence: record.deltaConfidence ?? undefined,
+    note: record.note ?? undefined,
+    snapshot: (record.snapshot as unknown as Belief | null) ?? undefined,
+  };
 }
 
 /**
- * Load the belief store from localStorage
+ * Visibility filter: the user's global beliefs plus the project's own
  */
-export function loadStore(): BeliefStore {
-  if (!isBrowser()) {
-    return createEmptyStore();
-  }
+function ownerFilter(owner: BeliefOwner) {
+  return {
+    userId: owner.userId,
+    OR: owner.projectId
+      ? [{ projectId: null }, { projectId: owner.projectId }]
+      : [{ projectId: null }],
+  };
+}
 
-  const stored = localStorage.getItem(STORAGE_KEY);
-  if (!stored) {
-    return createEmptyStore();
-  }
+/**
+ * Find beliefs visible to an owner
+ */
+export async function findBeliefs(
+  owner: BeliefOwner,
+  filter?: { scope?: BeliefScope; status?: BeliefStatus },
+  db: BeliefDb = prisma
+): Promise<Belief[]> {
+  const records = await db.belief.findMany({
+    where: {
+      ...ownerFilter(owner),
+      ...(filter?.scope && { scope: filter.scope }),
+      ...(filter?.status && { status: filter.status }),
+    },
+    include: { contradictions: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return records.map(toBelief);
+}
 
-  const parsed = safeJsonParse<BeliefStore>(stored, createEmptyStore());
-  
-  // Validate structure
-  if (!Array.isArray(parsed.beliefs) || !Array.isArray(parsed.events)) {
-    return createEmptyStore();
+/**
+ * Find a single belief visible to an owner
+ */
+export async function findBelief(owner: BeliefOwner, id: string): Promise<Belief | null> {
+  if (!isUuid(id)) {
+    return null;
   }
 
-  return parsed;
+  const record = await prisma.belief.findFirst({
+    where: { id, ...ownerFilter(owner) },
+    include: { contradictions: true },
+  });
+
+  return record ? toBelief(record) : null;
+}
+
+/**
+ * Check whether a belief ID is taken by any owner
+ */
+export async function beliefExists(id: string, db: BeliefDb = prisma): Promise<boolean> {
+  const count = await db.belief.count({ where: { id } });
+  return count > 0;
+}
+
+/**
+ * Insert a new belief for an owner
+ * (pass an ID to restore a previously deleted belief under its old ID)
+ */
+export async function insertBelief(
+  owner: BeliefOwner,
+  belief: Omit<Belief, "id" | "contradictions" | "projectId">,
+  id?: string,
+  db: BeliefDb = prisma
+): Promise<Belief> {
+  const record = await db.belief.create({
+    data: {
+      ...(id && { id }),
+      userId: owner.userId,
+      projectId: owner.projectId || null,
+      belief: belief.belief,
+      scope: belief.scope,
+      confidence: belief.confidence,
+      evidence: belief.evidence,
+      status: belief.status,
+      createdAt: new Date(belief.createdAt),
+      lastReinforced: new Date(belief.lastReinforced),
+      lastDecayed: belief.lastDecayed !== undefined ? new Date(belief.lastDecayed) : null,
+    },
+    include: { contradictions: true },
+  });
+
+  return toBelief(record);
+}
+
+/**
+ * Update the mutable fields of a belief
+ */
+export async function updateBelief(
+  id: string,
+  data: Partial<Pick<Belief, "confidence" | "evidence" | "status" | "lastReinforced" | "lastDecayed">>,
+  db: BeliefDb = prisma
+): Promise<Belief> {
+  const record = await db.belief.update({
+    where: { id },
+    data: {
+      confidence: data.confidence,
+      evidence: data.evidence,
+      status: data.status,
+      lastReinforced: data.lastReinforced !== undefined ? new Date(data.lastReinforced) : undefined,
+      lastDecayed: data.lastDecayed !== undefined ? new Date(data.lastDecayed) : undefined,
+    },
+    include: { contradictions: true },
+  });
+
+  return toBelief(record);
+}
+
+/**
+ * Find a page of non-deprecated beliefs across all owners (for the decay sweep)
+ */
+export async function findDecayCandidates(
+  limit: number,
+  cursor?: string
+): Promise<Array<{ owner: BeliefOwner; belief: Belief }>> {
+  const records = await prisma.belief.findMany({
+    where: { status: { not: "deprecated" } },
+    include: { contradictions: true },
+    orderBy: { id: "asc" },
+    take: limit,
+    ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+  });
+
+  return records.map(record => ({
+    owner: { userId: record.userId, projectId: record.projectId },
+    belief: toBelief(record),
+  }));
 }
 
 /**
- * Save the belief store to localStorage
+ * Find stored embeddings for beliefs, keyed by belief ID
+ * (only vectors produced by the given embedder model are returned)
  */
-export function saveStore(store: BeliefStore): void {
-  if (!isBrowser()) {
+export async function findBeliefEmbeddings(ids: string[], model: string): Promise<Map<string, number[]>> {
+  const records = await prisma.belief.findMany({
+    where: { id: { in: ids }, embeddingModel: model },
+    select: { id: true, embedding: true },
+  });
+
+  return new Map(
+    records
+      .filter(r => Array.isArray(r.embedding))
+      .map(r => [r.id, r.embedding as unknown as number[]])
+  );
+}
+
+/**
+ * Store the embedding for a belief
+ */
+export async function saveBeliefEmbedding(id: string, model: string, vector: number[]): Promise<void> {
+  await prisma.belief.update({
+    where: { id },
+    data: {
+      embedding: vector,
+      embeddingModel: model,
+    },
+  });
+}
+
+/**
+ * Record a contradiction against a belief
+ */
+export async function insertContradiction(
+  beliefId: string,
+  reason: string,
+  at: number,
+  db: BeliefDb = prisma
+): Promise<void> {
+  await db.contradiction.create({
+    data: {
+      beliefId,
+      reason,
+      createdAt: new Date(at),
+    },
+  });
+}
+
+/**
+ * Replace all contradictions recorded against a belief
+ */
+export async function replaceContradictions(
+  beliefId: string,
+  contradictions: Contradiction[],
+  db?: BeliefDb
+): Promise<void> {
+  const data = contradictions.map(c => ({
+    beliefId,
+    reason: c.reason,
+    createdAt: new Date(c.at),
+  }));
+
+  if (db) {
+    await db.contradiction.deleteMany({ where: { beliefId } });
+    await db.contradiction.createMany({ data });
     return;
   }
 
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
-  } catch (error) {
-    // Handle quota exceeded or other storage errors
-    console.error("[Evolvo] Failed to save beliefs:", error);
-  }
+  await prisma.$transaction([
+    prisma.contradiction.deleteMany({ where: { beliefId } }),
+    prisma.contradiction.createMany({ data }),
+  ]);
 }
 
 /**
- * Clear all stored beliefs (for testing/reset)
+ * Permanently remove a belief (events are kept)
  */
-export function clearStore(): void {
-  if (!isBrowser()) {
-    return;
+export async function removeBelief(id: string, db: BeliefDb = prisma): Promise<void> {
+  await db.belief.delete({
+    where: { id },
+  });
+}
+
+/**
+ * Append an event to the owner's history
+ */
+export async function insertEvent(
+  owner: BeliefOwner,
+  event: Omit<BeliefEvent, "id">,
+  db: BeliefDb = prisma
+): Promise<BeliefEvent> {
+  const record = await db.beliefEvent.create({
+    data: {
+      userId: owner.userId,
+      projectId: owner.projectId || null,
+      beliefId: event.beliefId,
+      type: event.type,
+      beliefText: event.beliefText ?? null,
+      deltaConfidence: event.deltaConfidence ?? null,
+      note: event.note ?? null,
+      snapshot: event.snapshot
+        ? (event.snapshot as unknown as Prisma.InputJsonValue)
+        : Prisma.JsonNull,
+      createdAt: new Date(event.at),
+    },
+  });
+
+  return toEvent(record);
+}
+
+/**
+ * Find events visible to an owner (newest first unless order is "asc")
+ */
+export async function findEvents(
+  owner: BeliefOwner,
+  options?: { limit?: number; until?: number; beliefId?: string; order?: "asc" | "desc" },
+  db: BeliefDb = prisma
+): Promise<BeliefEvent[]> {
+  if (options?.beliefId && !isUuid(options.beliefId)) {
+    return [];
   }
 
-  localStorage.removeItem(STORAGE_KEY);
+  const records = await db.beliefEvent.findMany({
+    where: {
+      ...ownerFilter(owner),
+      ...(options?.beliefId && { beliefId: options.beliefId }),
+      ...(options?.until !== undefined && { createdAt: { lte: new Date(options.until) } }),
+    },
+    orderBy: { createdAt: options?.order ?? "desc" },
+    ...(options?.limit !== undefined && { take: options.limit }),
+  });
+
+  return records.map(toEvent);
 }
 
 /**
- * Export store as JSON string (for backup/debug)
+ * Load the beliefs and events stored directly under an owner
+ * (a project owner gets only that project's beliefs, not user-wide ones)
  */
-export function exportStore(): string {
-  const store = loadStore();
-  return JSON.stringify(store, null, 2);
+export async function loadStore(owner: BeliefOwner, db: BeliefDb = prisma): Promise<BeliefStore> {
+  const where = { userId: owner.userId, projectId: owner.projectId || null };
+
+  const [beliefs, events] = await Promise.all([
+    db.belief.findMany({
+      where,
+      include: { contradictions: true },
+      orderBy: { createdAt: "asc" },
+    }),
+    db.beliefEvent.findMany({
+      where,
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+
+  return {
+    ...createEmptyStore(),
+    beliefs: beliefs.map(toBelief),
+    events: events.map(toEvent),
+  };
 }
 
 /**
- * Import store from JSON string (for restore/debug)
+ * Clear all beliefs and events stored directly under an owner
+ * (a project owner clears only that project's beliefs)
  */
-export function importStore(json: string): boolean {
-  const parsed = safeJsonParse<BeliefStore | null>(json, null);
-  if (!parsed || !Array.isArray(parsed.beliefs) || !Array.isArray(parsed.events)) {
-    return false;
+export async function clearStore(owner: BeliefOwner, db?: BeliefDb): Promise<void> {
+  const where = { userId: owner.userId, projectId: owner.projectId || null };
+
+  if (db) {
+    await db.belief.deleteMany({ where });
+    await db.beliefEvent.deleteMany({ where });
+    return;
   }
 
-  saveStore(parsed);
-  return true;
+  await prisma.$transaction([
+    prisma.belief.deleteMany({ where }),
+    prisma.beliefEvent.deleteMany({ where }),
+  ]);
 }
 
+/**
+ * Run belief writes in a single transaction, rolled back if any of them fails
+ */
+export function withBeliefTransaction<T>(run: (db: BeliefDb) => Promise<T>): Promise<T> {
+  return prisma.$transaction(run, { timeout: TRANSACTION_TIMEOUT_MS });
+}
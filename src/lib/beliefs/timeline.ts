@@ -0,0 +1,106 @@
+/**
+ * Belief Timeline
+ *
+ * Rebuilds belief state from the event log. Events carry a snapshot of the
+ * belief after each change; older events without one are approximated from
+ * their confidence deltas.
+ */
+
+import { Belief, BeliefEvent, BeliefScope, BELIEF_SCOPES } from "./types";
+
+export interface ConfidencePoint {
+  at: number;
+  confidence: number;
+  status: Belief["status"];
+  type: BeliefEvent["type"];
+  note?: string;
+}
+
+/**
+ * Apply one event to the previous state of its belief
+ * Returns null when the belief no longer exists after the event.
+ */
+function applyEvent(previous: Belief | null, event: BeliefEvent): Belief | null {
+  if (event.type === "delete") {
+    return null;
+  }
+
+  if (event.snapshot) {
+    return { ...event.snapshot, id: event.beliefId };
+  }
+
+  // Older events: reconstruct from the event fields
+  if (event.type === "create" || !previous) {
+    const scope = event.note?.match(/scope: (\S+)/)?.[1];
+    return {
+      id: event.beliefId,
+      belief: event.beliefText || "",
+      scope: BELIEF_SCOPES.some(s => s.value === scope) ? (scope as BeliefScope) : "general",
+      confidence: 0.6,
+      evidence: [],
+      createdAt: event.at,
+      lastReinforced: event.at,
+      status: "active",
+      contradictions: [],
+    };
+  }
+
+  const next: Belief = {
+    ...previous,
+    confidence: previous.confidence + (event.deltaConfidence ?? 0),
+  };
+
+  if (event.type === "reinforce") {
+    next.lastReinforced = event.at;
+  } else if (event.type === "contradict") {
+    next.contradictions = [
+      ...previous.contradictions,
+      { beliefId: event.beliefId, reason: event.note || "", at: event.at },
+    ];
+  } else if (event.type === "deprecate") {
+    next.status = "deprecated";
+  } else if (event.type === "decay") {
+    next.lastDecayed = event.at;
+  }
+
+  return next;
+}
+
+/**
+ * Replay events (oldest first) to get the beliefs that existed at a point in time
+ */
+export function replayBeliefEvents(events: BeliefEvent[], at: number = Date.now()): Belief[] {
+  const state = new Map<string, Belief | null>();
+
+  for (const event of events) {
+    if (event.at > at) break;
+    state.set(event.beliefId, applyEvent(state.get(event.beliefId) ?? null, event));
+  }
+
+  return [...state.values()].filter((b): b is Belief => b !== null);
+}
+
+/**
+ * Build the confidence series of one belief from its events (oldest first)
+ */
+export function buildConfidenceHistory(events: BeliefEvent[]): ConfidencePoint[] {
+  const points: ConfidencePoint[] = [];
+  let current: Belief | null = null;
+
+  for (const event of events) {
+    const next = applyEvent(current, event);
+    const state = next ?? current;
+    if (state) {
+      points.push({
+        at: event.at,
+        confidence: state.confidence,
+        status: state.status,
+        type: event.type,
+        note: event.note,
+      });
+    }
+    current = next;
+  }
+
+  return points;
+}
@@ -29,6 +29,8 @@ export interface Belief {
   evidence: string[];
   createdAt: number; // timestamp
   lastReinforced: number; // timestamp
+  lastDecayed?: number; // timestamp of last applied decay
+  projectId?: string | null; // null for user-wide beliefs
   status: BeliefStatus;
   contradictions: Contradiction[];
 }
@@ -38,7 +40,10 @@ export type BeliefEventType =
   | "reinforce" 
   | "contradict" 
   | "deprecate" 
-  | "delete";
+  | "delete"
+  | "decay"
+  | "revert"
+  | "import";
 
 export interface BeliefEvent {
   id: string;
@@ -48,19 +53,46 @@ export interface BeliefEvent {
   at: number; // timestamp
   deltaConfidence?: number;
   note?: string;
+  snapshot?: Belief; // belief state after the event (absent on older events)
 }
 
+/**
+ * Owner of a belief store: beliefs belong to a user and are optionally
+ * scoped to a project. Reads in a project include the user's global beliefs.
+ */
+export interface BeliefOwner {
+  userId: string;
+  projectId?: string | null;
+}
+
+/**
+ * How upsert handles a new belief that likely contradicts existing ones:
+ * "contradict" stores it and contradicts the existing beliefs,
+ * "report" stores nothing and returns the conflicts for the caller to resolve.
+ */
+export type BeliefConflictStrategy = "contradict" | "report";
+
 export interface BeliefStore {
   beliefs: Belief[];
   events: BeliefEvent[];
   version: number;
 }
 
+// Current BeliefStore document version (1 = browser localStorage, 2 = server store)
+export const BELIEF_STORE_VERSION = 2;
+
+/**
+ * How imported beliefs are combined with beliefs that have the same text:
+ * "replace" clears the target store first, "keep-higher-confidence" keeps
+ * whichever copy is more confident, "union-evidence" merges both copies.
+ */
+export type BeliefMergeStrategy = "replace" | "keep-higher-confidence" | "union-evidence";
+
 // Initial/default store state
 export const createEmptyStore = (): BeliefStore => ({
   beliefs: [],
   events: [],
-  version: 1,
+  version: BELIEF_STORE_VERSION,
 });
 
 // Scope metadata for UI
@@ -0,0 +1,177 @@
+/**
+ * Belief Vector Index
+ *
+ * Stores belief embeddings and ranks beliefs against a query vector.
+ * By default vectors live on the belief rows and are compared in memory.
+ * With BELIEF_VECTOR_STORE="pgvector", a project's own beliefs are indexed
+ * in the project's pgvector container when one is running; the user's
+ * global beliefs stay on the belief rows.
+ */
+
+import { executeSql, getProjectContainers, SqlValue } from "@/lib/docker";
+import { Belief, BeliefOwner } from "./types";
+import { BeliefEmbedder, cosineSimilarity } from "./embeddings";
+import { findBeliefEmbeddings, saveBeliefEmbedding } from "./storage";
+
+export interface ScoredBelief {
+  belief: Belief;
+  score: number; // cosine similarity, -1 to 1
+}
+
+export interface BeliefVectorIndex {
+  /**
+   * Rank beliefs by similarity to a query vector, embedding any
+   * beliefs that are not indexed yet
+   */
+  search(
+    embedder: BeliefEmbedder,
+    queryVector: number[],
+    beliefs: Belief[]
+  ): Promise<ScoredBelief[]>;
+}
+
+/**
+ * Index backed by the embedding column on the beliefs table
+ */
+export function createDatabaseVectorIndex(): BeliefVectorIndex {
+  return {
+    async search(embedder, queryVector, beliefs) {
+      if (beliefs.length === 0) {
+        return [];
+      }
+
+      const stored = await findBeliefEmbeddings(beliefs.map(b => b.id), embedder.id);
+      const missing = beliefs.filter(b => !stored.has(b.id));
+
+      if (missing.length > 0) {
+        const vectors = await embedder.embed(missing.map(b => b.belief));
+        for (let i = 0; i < missing.length; i++) {
+          stored.set(missing[i].id, vectors[i]);
+          await saveBeliefEmbedding(missing[i].id, embedder.id, vectors[i]);
+        }
+      }
+
+      return beliefs
+        .map(belief => ({ belief, score: cosineSimilarity(queryVector, stored.get(belief.id) || []) }))
+        .sort((a, b) => b.score - a.score);
+    },
+  };
+}
+
+/**
+ * Format a vector as a pgvector literal
+ */
+function toVectorLiteral(vector: number[]): string {
+  return `'[${vector.map(v => v.toFixed(6)).join(",")}]'`;
+}
+
+/**
+ * Escape a string for use in a SQL literal
+ */
+function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Read the single value of a one-column, one-row query
+ */
+function readScalar(rows: SqlValue[][]): string {
+  return rows[0]?.[0] ?? "";
+}
+
+/**
+ * Index backed by a project's pgvector container
+ */
+export function createPgvectorIndex(projectId: string): BeliefVectorIndex {
+  const run = async (sql: string): Promise<SqlValue[][]> => {
+    const result = await executeSql(projectId, sql, "pgvector", { allowWrites: true });
+    if (!result.success) {
+      throw new Error(result.error || "pgvector query failed");
+    }
+    return result.result?.rows || [];
+  };
+
+  return {
+    async search(embedder, queryVector, beliefs) {
+      if (beliefs.length === 0) {
+        return [];
+      }
+
+      const table = `evolvo_belief_vectors_${embedder.dimensions}`;
+      await run(
+        `CREATE EXTENSION IF NOT EXISTS vector; ` +
+        `CREATE TABLE IF NOT EXISTS ${table} (belief_id TEXT PRIMARY KEY, model TEXT NOT NULL, embedding vector(${embedder.dimensions}) NOT NULL);`
+      );
+
+      const idList = beliefs.map(b => sqlString(b.id)).join(",");
+      const indexed = new Set(
+        readScalar(await run(
+          `SELECT string_agg(belief_id, ',') FROM ${table} WHERE model = ${sqlString(embedder.id)} AND belief_id IN (${idList});`
+        )).split(",").filter(Boolean)
+      );
+
+      const missing = beliefs.filter(b => !indexed.has(b.id));
+      if (missing.length > 0) {
+        const vectors = await embedder.embed(missing.map(b => b.belief));
+        const values = missing
+          .map((b, i) => `(${sqlString(b.id)}, ${sqlString(embedder.id)}, ${toVectorLiteral(vectors[i])})`)
+          .join(",");
+        await run(
+          `INSERT INTO ${table} (belief_id, model, embedding) VALUES ${values} ` +
+          `ON CONFLICT (belief_id) DO UPDATE SET model = EXCLUDED.model, embedding = EXCLUDED.embedding;`
+        );
+      }
+
+      const scores = readScalar(await run(
+        `SELECT string_agg(belief_id || '=' || (1 - (embedding <=> ${toVectorLiteral(queryVector)}))::text, ',') ` +
+        `FROM ${table} WHERE belief_id IN (${idList});`
+      ));
+
+      const scoreById = new Map(
+        scores.split(",").filter(Boolean).map(entry => {
+          const [id, score] = entry.split("=");
+          return [id, parseFloat(score) || 0] as const;
+        })
+      );
+
+      return beliefs
+        .map(belief => ({ belief, score: scoreById.get(belief.id) ?? 0 }))
+        .sort((a, b) => b.score - a.score);
+    },
+  };
+}
+
+/**
+ * Index for a project: its own beliefs in the pgvector container, user-wide
+ * beliefs (shared by every project) in the database
+ */
+function createProjectVectorIndex(projectId: string): BeliefVectorIndex {
+  const pgvector = createPgvectorIndex(projectId);
+  const database = createDatabaseVectorIndex();
+
+  return {
+    async search(embedder, queryVector, beliefs) {
+      const [own, shared] = await Promise.all([
+        pgvector.search(embedder, queryVector, beliefs.filter(b => b.projectId === projectId)),
+        database.search(embedder, queryVector, beliefs.filter(b => b.projectId !== projectId)),
+      ]);
+
+      return [...own, ...shared].sort((a, b) => b.score - a.score);
+    },
+  };
+}
+
+/**
+ * Choose the vector index for an owner
+ */
+export async function getBeliefVectorIndex(owner: BeliefOwner): Promise<BeliefVectorIndex> {
+  if (process.env.BELIEF_VECTOR_STORE === "pgvector" && owner.projectId) {
+    const project = await getProjectContainers(owner.projectId);
+    const pgvector = project?.containers.find(c => c.type === "pgvector" && c.status === "running");
+    if (pgvector) {
+      return createProjectVectorIndex(owner.projectId);
+    }
+  }
+
+  return createDatabaseVectorIndex();
+}
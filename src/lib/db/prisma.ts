@@ -21,3 +21,13 @@ if (process.env.NODE_ENV !== "production") {
 }
 
 export default prisma;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Check whether a value can be used to query a @db.Uuid column
+ * (Prisma rejects anything else with P2023 instead of finding nothing)
+ */
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
@@ -0,0 +1,239 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { describe, expect, it } from "vitest";
+import {
+  createHttpTransport,
+  createTarArchive,
+  demuxDockerStream,
+  DockerClient,
+  DockerError,
+  DockerRequest,
+  DockerTransport,
+} from "../client";
+
+/**
+ * Build one frame of a multiplexed stream (1 = stdout, 2 = stderr)
+ */
+function frame(type: 1 | 2, text: string): Buffer {
+  const data = Buffer.from(text);
+  const header = Buffer.alloc(8);
+  header[0] = type;
+  header.writeUInt32BE(data.length, 4);
+  return Buffer.concat([header, data]);
+}
+
+/**
+ * Read a NUL-terminated string field from a tar header
+ */
+function field(header: Buffer, offset: number, length: number): string {
+  const value = header.toString("utf8", offset, offset + length);
+  const end = value.indexOf("\0");
+  return end === -1 ? value : value.slice(0, end);
+}
+
+describe("demuxDockerStream", () => {
+  it("splits frames into stdout and stderr in order", () => {
+    const buffer = Buffer.concat([frame(1, "one "), frame(2, "oops"), frame(1, "two")]);
+    expect(demuxDockerStream(buffer)).toEqual({ stdout: "one two", stderr: "oops" });
+  });
+
+  it("joins multi-byte characters split across frames", () => {
+    const bytes = Buffer.from("é");
+    const first = Buffer.concat([Buffer.from([1, 0, 0, 0, 0, 0, 0, 1]), bytes.subarray(0, 1)]);
+    const second = Buffer.concat([Buffer.from([1, 0, 0, 0, 0, 0, 0, 1]), bytes.subarray(1)]);
+    expect(demuxDockerStream(Buffer.concat([first, second])).stdout).toBe("é");
+  });
+
+  it("ignores a trailing partial header", () => {
+    const buffer = Buffer.concat([frame(1, "done"), Buffer.from([2, 0, 0])]);
+    expect(demuxDockerStream(buffer)).toEqual({ stdout: "done", stderr: "" });
+  });
+
+  it("returns empty output for an empty stream", () => {
+    expect(demuxDockerStream(Buffer.alloc(0))).toEqual({ stdout: "", stderr: "" });
+  });
+});
+
+describe("createTarArchive", () => {
+  const mtime = Date.UTC(2024, 0, 1);
+
+  it("writes a ustar header, padded content and the end-of-archive blocks", () => {
+    const archive = createTarArchive({ "/src/index.js": "console.log(1);\n" }, mtime);
+    const header = archive.subarray(0, 512);
+
+    expect(archive.length).toBe(512 + 512 + 1024);
+    expect(field(header, 0, 100)).toBe("src/index.js");
+    expect(field(header, 100, 8)).toBe("0000644");
+    expect(parseInt(field(header, 124, 12), 8)).toBe(16);
+    expect(parseInt(field(header, 136, 12), 8)).toBe(mtime / 1000);
+    expect(field(header, 156, 1)).toBe("0");
+    expect(field(header, 257, 6)).toBe("ustar");
+    expect(archive.toString("utf8", 512, 528)).toBe("console.log(1);\n");
+    expect(archive.subarray(528).every(byte => byte === 0)).toBe(true);
+  });
+
+  it("stores a checksum computed with the checksum field as spaces", () => {
+    const header = createTarArchive({ "a.txt": "a" }, mtime).subarray(0, 512);
+    const copy = Buffer.from(header);
+    copy.fill(" ", 148, 156);
+    const expected = copy.reduce((sum, byte) => sum + byte, 0);
+    expect(parseInt(field(header, 148, 8), 8)).toBe(expected);
+  });
+
+  it("splits long paths into prefix and name", () => {
+    const dir = `${"d".repeat(60)}/${"e".repeat(60)}`;
+    const header = createTarArchive({ [`${dir}/file.txt`]: "" }, mtime).subarray(0, 512);
+    expect(field(header, 0, 100)).toBe("file.txt");
+    expect(field(header, 345, 155)).toBe(dir);
+  });
+
+  it("stores paths that cannot be split in a pax header", () => {
+    const paths = [
+      `${"d".repeat(160)}/file.txt`, // no slash within the prefix limit
+      `src/${"n".repeat(120)}.txt`, // last segment longer than a name field
+    ];
+
+    for (const path of paths) {
+      const archive = createTarArchive({ [path]: "data" }, mtime);
+      const pax = archive.subarray(0, 512);
+      const size = parseInt(field(pax, 124, 12), 8);
+      const record = archive.toString("utf8", 512, 512 + size);
+      const header = archive.subarray(1024, 1536);
+
+      expect(field(pax, 156, 1)).toBe("x");
+      expect(record).toBe(`${size} path=${path}\n`);
+      expect(field(header, 156, 1)).toBe("0");
+      expect(archive.toString("utf8", 1536, 1540)).toBe("data");
+    }
+  });
+
+  it("counts the length digits in pax record lengths", () => {
+    // " path=" + 990 bytes + "\n" is 997 bytes; 3 more digits would make it 1000
+    const path = `${"d".repeat(160)}/${"f".repeat(829)}`;
+    const archive = createTarArchive({ [path]: "" }, mtime);
+    const size = parseInt(field(archive.subarray(0, 512), 124, 12), 8);
+    expect(size).toBe(1001);
+    expect(archive.toString("utf8", 512, 512 + size)).toMatch(/^1001 path=d+\/f+\n$/);
+  });
+
+  it("measures content in bytes", () => {
+    const archive = createTarArchive({ "u.txt": "héllo" }, mtime);
+    expect(parseInt(field(archive.subarray(0, 512), 124, 12), 8)).toBe(6);
+  });
+});
+
+describe("DockerClient", () => {
+  const transport = (respond: (request: DockerRequest) => { statusCode: number; body: string | Buffer }) => {
+    const requests: DockerRequest[] = [];
+    const stand: DockerTransport = {
+      async request(request) {
+        requests.push(request);
+        const { statusCode, body } = respond(request);
+        return { statusCode, body: Buffer.isBuffer(body) ? body : Buffer.from(body) };
+      },
+      async stream() {
+        throw new Error("not used");
+      },
+    };
+    return { stand, requests };
+  };
+
+  it("maps error statuses to DockerError codes with the daemon's message", async () => {
+    const { stand } = transport(() => ({ statusCode: 404, body: JSON.stringify({ message: "No such container: abc" }) }));
+    const error = await new DockerClient(stand).inspectContainer("abc").catch(e => e);
+    expect(error).toBeInstanceOf(DockerError);
+    expect(error).toMatchObject({ code: "not_found", statusCode: 404 });
+    expect(error.message).toContain("No such container: abc");
+  });
+
+  it("fails an image pull whose progress stream reports an error", async () => {
+    const progress = [
+      { status: "Pulling from library/redis" },
+      { errorDetail: { message: "manifest unknown" }, error: "manifest unknown" },
+    ].map(entry => JSON.stringify(entry)).join("\r\n");
+    const { stand } = transport(() => ({ statusCode: 200, body: progress }));
+
+    const error = await new DockerClient(stand).pullImage("redis", "nope").catch(e => e);
+
+    expect(error).toBeInstanceOf(DockerError);
+    expect(error.message).toBe("image pull failed for redis:nope: manifest unknown");
+  });
+
+  it("completes an image pull whose progress stream has no errors", async () => {
+    const { stand } = transport(() => ({ statusCode: 200, body: '{"status":"Pulling"}\n{"status":"Downloaded newer image"}\n' }));
+    await expect(new DockerClient(stand).pullImage("redis", "7")).resolves.toBeUndefined();
+  });
+
+  it("runs exec as create, start and inspect and demuxes the output", async () => {
+    const { stand, requests } = transport(request => {
+      if (request.path.endsWith("/exec")) return { statusCode: 201, body: JSON.stringify({ Id: "exec1" }) };
+      if (request.path.endsWith("/start")) return { statusCode: 200, body: Buffer.concat([frame(1, "out"), frame(2, "err")]) };
+      return { statusCode: 200, body: JSON.stringify({ ExitCode: 3 }) };
+    });
+
+    const result = await new DockerClient(stand).exec("c1", ["ls", "-la"], { env: ["A=1"] });
+
+    expect(result).toEqual({ exitCode: 3, stdout: "out", stderr: "err" });
+    expect(requests.map(r => `${r.method} ${r.path}`)).toEqual([
+      "POST /containers/c1/exec",
+      "POST /exec/exec1/start",
+      "GET /exec/exec1/json",
+    ]);
+    expect(requests[0].body).toMatchObject({ Cmd: ["ls", "-la"], Env: ["A=1"] });
+  });
+});
+
+describe("createHttpTransport", () => {
+  /**
+   * Start a local daemon stand-in and run a test against its address
+   */
+  async function withServer(handler: http.RequestListener, run: (host: string) => Promise<void>): Promise<void> {
+    const server = http.createServer(handler);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    try {
+      await run(`tcp://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    } finally {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    }
+  }
+
+  it("sends requests and buffers the response", async () => {
+    await withServer((req, res) => res.end(JSON.stringify({ path: req.url })), async (host) => {
+      const response = await createHttpTransport(host).request({ method: "GET", path: "/containers/json", query: { all: true } });
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body.toString())).toEqual({ path: "/containers/json?all=true" });
+    });
+  });
+
+  it("fails a request the daemon never answers", async () => {
+    await withServer(() => undefined, async (host) => {
+      const error = await createHttpTransport(host, 50).request({ method: "GET", path: "/_ping" }).catch(e => e);
+      expect(error).toBeInstanceOf(DockerError);
+      expect(error).toMatchObject({ code: "unavailable" });
+      expect(error.message).toContain("sent nothing for 50ms");
+    });
+  });
+
+  it("fails a request whose response stalls", async () => {
+    await withServer((req, res) => res.writeHead(200).write("partial"), async (host) => {
+      const error = await createHttpTransport(host, 50).request({ method: "GET", path: "/version" }).catch(e => e);
+      expect(error).toBeInstanceOf(DockerError);
+      expect(error).toMatchObject({ code: "unavailable" });
+    });
+  });
+
+  it("keeps a started stream open past the timeout", async () => {
+    await withServer((req, res) => {
+      res.writeHead(200).write("first");
+      setTimeout(() => res.end("second"), 100);
+    }, async (host) => {
+      const { body } = await createHttpTransport(host, 50).stream({ method: "GET", path: "/containers/c1/logs" });
+      const chunks: string[] = [];
+      for await (const chunk of body) {
+        chunks.push(chunk.toString());
+      }
+      expect(chunks.join("")).toBe("firstsecond");
+    });
+  });
+});
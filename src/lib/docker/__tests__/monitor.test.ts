@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getDockerClient } from "../client";
+import { acquireLease, listProjects, saveContainerHealth, updateContainerStatus } from "../store";
+import { Container } from "../types";
+import { checkContainer, pollContainers } from "../monitor";
+
+vi.mock("@/lib/db/supabase", () => ({
+  getUserSubscription: vi.fn(),
+}));
+
+vi.mock("../manager", () => ({
+  isSimulationMode: vi.fn(() => false),
+  sleepIdleProjects: vi.fn(),
+}));
+
+vi.mock("../client", () => ({
+  getDockerClient: vi.fn(),
+}));
+
+vi.mock("../store", () => ({
+  acquireLease: vi.fn(),
+  countHealthEvents: vi.fn(),
+  getStatusBefore: vi.fn(),
+  listHealthEvents: vi.fn(),
+  listLatestMetrics: vi.fn(),
+  listMetrics: vi.fn(),
+  listProjects: vi.fn(),
+  pruneMetrics: vi.fn(),
+  recordHealthEvent: vi.fn(),
+  recordMetrics: vi.fn(),
+  releaseLease: vi.fn(),
+  saveContainerHealth: vi.fn(),
+  updateContainerStatus: vi.fn(async (container: Container, status: Container["status"]) => {
+    container.status = status;
+  }),
+}));
+
+const daemon = {
+  inspectContainer: vi.fn(),
+  exec: vi.fn(),
+  restartContainer: vi.fn(),
+  stats: vi.fn(),
+};
+
+function container(overrides: Partial<Container> = {}): Container {
+  return {
+    id: "c1",
+    projectId: "p1",
+    type: "postgres",
+    containerId: "docker-c1",
+    name: "evolvo-p1-postgres",
+    status: "running",
+    host: "localhost",
+    port: 10000,
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.mocked(getDockerClient).mockReturnValue(daemon as unknown as ReturnType<typeof getDockerClient>);
+  daemon.inspectContainer.mockReset().mockResolvedValue({ State: { Running: true, ExitCode: 0 } });
+  daemon.exec.mockReset().mockResolvedValue({ exitCode: 1, stdout: "", stderr: "no response" });
+  daemon.restartContainer.mockReset();
+  vi.mocked(acquireLease).mockReset().mockResolvedValue(true);
+  vi.mocked(listProjects).mockReset().mockResolvedValue([]);
+  vi.mocked(saveContainerHealth).mockReset();
+  vi.mocked(updateContainerStatus).mockClear();
+});
+
+describe("checkContainer", () => {
+  it("counts failed checks and restarts the container after the retries", async () => {
+    const checked = container({ failureCount: 4 });
+
+    expect(await checkContainer(checked)).toBe("creating");
+    expect(updateContainerStatus).toHaveBeenCalledWith(checked, "error", "no response");
+    expect(daemon.restartContainer).toHaveBeenCalledWith("docker-c1");
+    expect(saveContainerHealth).toHaveBeenCalledWith(expect.objectContaining({ status: "creating", failureCount: 0 }));
+  });
+
+  it("resets the failure count once the check passes", async () => {
+    daemon.exec.mockResolvedValue({ exitCode: 0, stdout: "", stderr: "" });
+    const checked = container({ failureCount: 2, error: "no response" });
+
+    expect(await checkContainer(checked)).toBe("running");
+    expect(checked).toMatchObject({ failureCount: 0, error: undefined });
+    expect(daemon.restartContainer).not.toHaveBeenCalled();
+  });
+});
+
+describe("pollContainers", () => {
+  it("checks containers only while holding the monitor lease", async () => {
+    vi.mocked(listProjects).mockResolvedValue([
+      { projectId: "p1", userId: "u1", networkId: null, containers: [container()], createdAt: 0, lastActivity: 0 },
+    ]);
+
+    vi.mocked(acquireLease).mockResolvedValue(false);
+    await pollContainers(Date.now());
+    expect(listProjects).not.toHaveBeenCalled();
+    expect(daemon.inspectContainer).not.toHaveBeenCalled();
+
+    vi.mocked(acquireLease).mockResolvedValue(true);
+    await pollContainers(Date.now());
+    expect(acquireLease).toHaveBeenLastCalledWith("health-monitor", expect.any(String), expect.any(Number));
+    expect(daemon.inspectContainer).toHaveBeenCalledWith("docker-c1");
+  });
+});
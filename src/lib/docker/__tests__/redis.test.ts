@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkRedisCommand,
+  encodeRespCommand,
+  parseRespReplies,
+  parseRespReply,
+  RedisCommandError,
+  tokenizeRedisCommand,
+} from "../redis";
+
+describe("tokenizeRedisCommand", () => {
+  it("splits on any whitespace", () => {
+    expect(tokenizeRedisCommand("  SET  key\tvalue ")).toEqual(["SET", "key", "value"]);
+  });
+
+  it("keeps spaces inside quotes", () => {
+    expect(tokenizeRedisCommand(`SET greeting "hello world"`)).toEqual(["SET", "greeting", "hello world"]);
+    expect(tokenizeRedisCommand(`SET greeting 'hello world'`)).toEqual(["SET", "greeting", "hello world"]);
+  });
+
+  it("decodes escapes in double quotes", () => {
+    expect(tokenizeRedisCommand(`SET k "a\\nb\\t\\"c\\" \\x41"`)).toEqual(["SET", "k", "a\nb\t\"c\" A"]);
+  });
+
+  it("keeps single-quoted text literal apart from escaped quotes", () => {
+    expect(tokenizeRedisCommand(`SET k 'it\\'s \\n'`)).toEqual(["SET", "k", "it's \\n"]);
+  });
+
+  it("accepts empty quoted arguments", () => {
+    expect(tokenizeRedisCommand(`SET k ""`)).toEqual(["SET", "k", ""]);
+  });
+
+  it("rejects unbalanced quotes", () => {
+    expect(() => tokenizeRedisCommand(`SET k "open`)).toThrow(RedisCommandError);
+  });
+
+  it("rejects text directly after a closing quote", () => {
+    expect(() => tokenizeRedisCommand(`SET k "a"b`)).toThrow("Closing quote must be followed by a space");
+  });
+});
+
+describe("encodeRespCommand", () => {
+  it("encodes arguments as bulk strings with byte lengths", () => {
+    expect(encodeRespCommand(["SET", "k", "é"])).toBe("*3\r\n$3\r\nSET\r\n$1\r\nk\r\n$2\r\né\r\n");
+  });
+});
+
+describe("parseRespReplies", () => {
+  const parse = (text: string, count: number) => parseRespReplies(Buffer.from(text), count);
+
+  it("parses each reply type", () => {
+    expect(parse("+OK\r\n-ERR wrong\r\n:42\r\n$5\r\nhello\r\n$-1\r\n*-1\r\n", 6)).toEqual([
+      "OK",
+      { error: "ERR wrong" },
+      42,
+      "hello",
+      null,
+      null,
+    ]);
+  });
+
+  it("parses nested arrays", () => {
+    expect(parse("*2\r\n$1\r\na\r\n*2\r\n:1\r\n$-1\r\n", 1)).toEqual([["a", [1, null]]]);
+  });
+
+  it("reads bulk strings by byte length", () => {
+    expect(parse("$4\r\na\r\nb\r\n", 1)).toEqual(["a\r\nb"]);
+    expect(parse("$2\r\né\r\n", 1)).toEqual(["é"]);
+  });
+
+  it("returns only the requested number of replies", () => {
+    expect(parse("+OK\r\n:1\r\n:2\r\n", 2)).toEqual(["OK", 1]);
+  });
+
+  it("rejects incomplete replies", () => {
+    expect(() => parse("+OK\r\n", 2)).toThrow("Incomplete reply from Redis");
+    expect(() => parse("$10\r\nshort\r\n", 1)).toThrow("Incomplete reply from Redis");
+    expect(() => parse(":1", 1)).toThrow("Incomplete reply from Redis");
+  });
+
+  it("rejects unknown reply types", () => {
+    expect(() => parse("?what\r\n", 1)).toThrow(RedisCommandError);
+  });
+});
+
+describe("parseRespReply", () => {
+  it("parses the first reply only", () => {
+    expect(parseRespReply(Buffer.from(":7\r\n+OK\r\n"))).toBe(7);
+  });
+});
+
+describe("checkRedisCommand", () => {
+  it("denies scripts on every tier, since they can run denied commands", () => {
+    for (const command of ["EVAL", "evalsha", "EVAL_RO", "FCALL", "FUNCTION", "SCRIPT"]) {
+      expect(() => checkRedisCommand([command, "return 1", "0"], "enterprise")).toThrow(`${command.toUpperCase()} is not allowed`);
+    }
+  });
+
+  it("denies administration commands on every tier", () => {
+    expect(() => checkRedisCommand(["flushall"], "enterprise")).toThrow("FLUSHALL is not allowed");
+    expect(() => checkRedisCommand(["CONFIG", "SET", "requirepass", "x"], "enterprise")).toThrow("CONFIG is not allowed");
+  });
+
+  it("allows commands in the tier's groups", () => {
+    expect(() => checkRedisCommand(["get", "key"], "pro")).not.toThrow();
+    expect(() => checkRedisCommand(["FLUSHDB"], "enterprise")).not.toThrow();
+  });
+
+  it("names the plan for known commands outside the tier's groups", () => {
+    expect(() => checkRedisCommand(["FLUSHDB"], "pro")).toThrow("FLUSHDB is not available on the pro plan");
+    expect(() => checkRedisCommand(["NOPE"], "enterprise")).toThrow("NOPE is not a supported command");
+  });
+
+  it("denies blocking stream reads", () => {
+    expect(() => checkRedisCommand(["XREAD", "BLOCK", "0", "STREAMS", "s", "$"], "enterprise")).toThrow("XREAD with BLOCK is not allowed");
+  });
+
+  it("requires a command", () => {
+    expect(() => checkRedisCommand([], "free")).toThrow("Command is required");
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkStatements,
+  paginateStatement,
+  parseCsvResult,
+  parseStatements,
+  SqlStatement,
+} from "../sql";
+
+const kinds = (sql: string) => parseStatements(sql).map(s => [s.keyword, s.kind]);
+
+describe("parseStatements", () => {
+  it("splits on semicolons and drops empty statements", () => {
+    expect(parseStatements("SELECT 1;; ;\nSELECT 2;").map(s => s.sql)).toEqual(["SELECT 1", "SELECT 2"]);
+  });
+
+  it("classifies reads, writes and schema changes", () => {
+    expect(kinds("SELECT 1; INSERT INTO t VALUES (1); CREATE TABLE t (id int); LISTEN x")).toEqual([
+      ["SELECT", "read"],
+      ["INSERT", "write"],
+      ["CREATE", "ddl"],
+      ["LISTEN", "other"],
+    ]);
+  });
+
+  it("ignores semicolons and keywords in strings, identifiers and comments", () => {
+    const statements = parseStatements(
+      "SELECT 'a;DELETE' AS \"x;y\" -- ; DROP TABLE t\n/* ; /* nested ; */ */ FROM t; SELECT $$;INSERT$$, $fn$;$fn$"
+    );
+    expect(statements.map(s => [s.keyword, s.kind])).toEqual([["SELECT", "read"], ["SELECT", "read"]]);
+    expect(statements[0].sql).toContain("'a;DELETE'");
+  });
+
+  it("treats data-modifying reads as writes", () => {
+    expect(kinds("WITH d AS (DELETE FROM t RETURNING *) SELECT * FROM d")).toEqual([["WITH", "write"]]);
+    expect(kinds("SELECT * FROM t FOR UPDATE")).toEqual([["SELECT", "write"]]);
+    expect(kinds("EXPLAIN ANALYZE UPDATE t SET a = 1")).toEqual([["EXPLAIN", "write"]]);
+  });
+
+  it("treats SELECT INTO as a schema change", () => {
+    expect(kinds("SELECT * INTO copy FROM t")).toEqual([["SELECT", "ddl"]]);
+  });
+});
+
+describe("checkStatements", () => {
+  it("requires a statement", () => {
+    expect(checkStatements([], true)).toBe("No SQL statement to execute");
+  });
+
+  it("allows only reads without allowWrites", () => {
+    expect(checkStatements(parseStatements("SELECT 1; SHOW search_path"), false)).toBeNull();
+    expect(checkStatements(parseStatements("SELECT 1; DROP TABLE t"), false)).toMatch(/^DROP statements are not allowed/);
+    expect(checkStatements(parseStatements("SELECT 1; DROP TABLE t"), true)).toBeNull();
+  });
+
+  it("rejects psql meta-commands even with allowWrites", () => {
+    expect(checkStatements(parseStatements("\\! ls"), true)).toBe("psql meta-commands are not allowed");
+  });
+});
+
+describe("paginateStatement", () => {
+  it("wraps pageable reads and fetches one extra row", () => {
+    const [statement] = parseStatements("SELECT * FROM t");
+    expect(paginateStatement(statement, 10, 20)).toBe("SELECT * FROM (\nSELECT * FROM t\n) AS evolvo_page LIMIT 11 OFFSET 20");
+  });
+
+  it("leaves other statements unchanged", () => {
+    const [statement] = parseStatements("EXPLAIN SELECT 1");
+    expect(paginateStatement(statement, 10, 0)).toBe("EXPLAIN SELECT 1");
+  });
+});
+
+describe("parseCsvResult", () => {
+  const select: SqlStatement = { sql: "SELECT * FROM t", kind: "read", keyword: "SELECT" };
+  const insert: SqlStatement = { sql: "INSERT INTO t VALUES (1)", kind: "write", keyword: "INSERT" };
+
+  it("reads columns and rows with RFC 4180 quoting", () => {
+    const result = parseCsvResult('id,note\n1,"a, ""quoted""\nline"\n2,plain\n', select, 10, 0);
+    expect(result.columns).toEqual(["id", "note"]);
+    expect(result.rows).toEqual([["1", "a, \"quoted\"\nline"], ["2", "plain"]]);
+    expect(result).toMatchObject({ command: "SELECT", rowCount: 2, hasMore: false, limit: 10, offset: 0 });
+  });
+
+  it("tells NULL apart from a quoted \\N and an empty string", () => {
+    const result = parseCsvResult('a,b,c\n\\N,"\\N",""\n', select, 10, 0);
+    expect(result.rows).toEqual([[null, "\\N", ""]]);
+  });
+
+  it("trims the extra row fetched for paging", () => {
+    const result = parseCsvResult("n\n1\n2\n3\n", select, 2, 4);
+    expect(result.rows).toEqual([["1"], ["2"]]);
+    expect(result).toMatchObject({ rowCount: 2, hasMore: true, offset: 4 });
+  });
+
+  it("takes the affected row count from a write's command tag", () => {
+    const result = parseCsvResult("INSERT 0 3\n", insert, 10, 0);
+    expect(result).toMatchObject({ command: "INSERT", columns: [], rows: [], rowCount: 3 });
+  });
+
+  it("returns RETURNING rows before the command tag", () => {
+    const result = parseCsvResult("id\n7\n8\nINSERT 0 2\n", insert, 10, 0);
+    expect(result.columns).toEqual(["id"]);
+    expect(result.rows).toEqual([["7"], ["8"]]);
+    expect(result.rowCount).toBe(2);
+  });
+
+  it("does not mistake a quoted value for a command tag", () => {
+    const result = parseCsvResult('tag\n"INSERT 0 1"\n', insert, 10, 0);
+    expect(result.rows).toEqual([["INSERT 0 1"]]);
+  });
+});
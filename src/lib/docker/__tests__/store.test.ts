@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/db/prisma";
+import { acquireLease, loadSnapshot, saveContainerHealth } from "../store";
+
+vi.mock("@/lib/db/prisma", async importOriginal => ({
+  ...(await importOriginal<typeof import("@/lib/db/prisma")>()),
+  default: {
+    dockerContainer: { updateMany: vi.fn() },
+    dockerLease: { updateMany: vi.fn(), create: vi.fn() },
+    dockerSnapshot: { findUnique: vi.fn() },
+  },
+}));
+
+const leases = vi.mocked(prisma.dockerLease);
+
+beforeEach(() => {
+  vi.mocked(prisma.dockerContainer.updateMany).mockReset();
+  leases.updateMany.mockReset().mockResolvedValue({ count: 0 });
+  leases.create.mockReset();
+  vi.mocked(prisma.dockerSnapshot.findUnique).mockReset().mockResolvedValue(null);
+});
+
+describe("saveContainerHealth", () => {
+  it("writes only the status and health check columns", async () => {
+    await saveContainerHealth({
+      id: "c1",
+      projectId: "p1",
+      type: "redis",
+      containerId: "docker-c1",
+      name: "evolvo-p1-redis",
+      status: "error",
+      host: "localhost",
+      port: 10000,
+      connectionString: "redis://:secret@localhost:10000",
+      createdAt: 0,
+      lastHealthCheck: 5000,
+      failureCount: 2,
+      error: "no response",
+    });
+
+    expect(prisma.dockerContainer.updateMany).toHaveBeenCalledWith({
+      where: { id: "c1" },
+      data: { status: "error", error: "no response", lastHealthCheck: new Date(5000), failureCount: 2 },
+    });
+  });
+});
+
+describe("acquireLease", () => {
+  it("renews a lease the holder has or that has expired", async () => {
+    leases.updateMany.mockResolvedValue({ count: 1 });
+
+    expect(await acquireLease("health-monitor", "a", 60000)).toBe(true);
+    expect(leases.updateMany).toHaveBeenCalledWith({
+      where: { name: "health-monitor", OR: [{ holder: "a" }, { expiresAt: { lt: expect.any(Date) } }] },
+      data: { holder: "a", expiresAt: expect.any(Date) },
+    });
+    expect(leases.create).not.toHaveBeenCalled();
+  });
+
+  it("creates a lease nobody has taken", async () => {
+    expect(await acquireLease("health-monitor", "a", 60000)).toBe(true);
+    expect(leases.create).toHaveBeenCalledWith({
+      data: { name: "health-monitor", holder: "a", expiresAt: expect.any(Date) },
+    });
+  });
+
+  it("fails while another holder's lease is live", async () => {
+    leases.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError("Unique constraint failed", { code: "P2002", clientVersion: "test" })
+    );
+    expect(await acquireLease("health-monitor", "b", 60000)).toBe(false);
+  });
+});
+
+describe("loadSnapshot", () => {
+  it("finds nothing for IDs that are not UUIDs, without querying", async () => {
+    expect(await loadSnapshot("latest")).toBeNull();
+    expect(prisma.dockerSnapshot.findUnique).not.toHaveBeenCalled();
+
+    await loadSnapshot("0f4c2a9e-7b1d-4e3a-8c5f-6d2e1a9b3c7d");
+    expect(prisma.dockerSnapshot.findUnique).toHaveBeenCalledWith({ where: { id: "0f4c2a9e-7b1d-4e3a-8c5f-6d2e1a9b3c7d" } });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * App Containers
+ *
+ * Prepares a project's generated code to run server-side in its "app"
+ * container: the project's files (over its template's), the template's
+ * install and start commands and port, and environment from ProjectEnvVar.
+ * URLs that point at the project's services on localhost are rewritten to
+ * the service containers' names on the project network.
+ */
+
+import { getProject, getProjectEnvVars, getProjectFiles } from "@/lib/db/supabase";
+import { getTemplateById, ProjectTemplate, REACT_TEMPLATE } from "@/lib/sandbox/types";
+import { createTarArchive } from "./client";
+import { Container, CONTAINER_CONFIGS } from "./types";
+
+// Directory the project is materialized into
+export const APP_DIR = "/app";
+
+export interface AppLaunch {
+  templateId: string;
+  internalPort: number;
+  cmd: string[];
+  env: string[];
+  archive: Buffer; // project files as a tar archive
+  fileCount: number;
+}
+
+// Dev servers listen on localhost unless told otherwise; the app must be
+// reachable through the container's port binding
+const HOST_ARGS: Record<string, string> = {
+  nextjs: "--hostname 0.0.0.0",
+};
+const DEFAULT_HOST_ARGS = "--host 0.0.0.0"; // Vite-based templates
+
+/**
+ * Point localhost URLs for the project's services at their containers
+ */
+export function toNetworkUrl(value: string, services: Container[]): string {
+  return value.replace(/\b(?:localhost|127\.0\.0\.1):(\d+)\b/g, (match, port: string) => {
+    const service = services.find(c => c.port === Number(port));
+    return service ? `${service.name}:${CONTAINER_CONFIGS[service.type].internalPort}` : match;
+  });
+}
+
+/**
+ * Get the template an app runs with, falling back to React
+ */
+export function getAppTemplate(framework: string | null | undefined): ProjectTemplate {
+  return getTemplateById(framework || "") || REACT_TEMPLATE;
+}
+
+/**
+ * Shell command that installs dependencies and starts the dev server
+ * listening on all interfaces
+ */
+export function getAppStartCommand(template: ProjectTemplate): string {
+  const hostArgs = HOST_ARGS[template.id] ?? DEFAULT_HOST_ARGS;
+  return `${template.installCommand} && ${template.startCommand} -- ${hostArgs}`;
+}
+
+/**
+ * Build the launch plan for a project's app container
+ * Throws if the project does not exist.
+ */
+export async function prepareAppLaunch(projectId: string, services: Container[]): Promise<AppLaunch> {
+  const project = await getProject(projectId);
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  const template = getAppTemplate(project.framework);
+
+  // Saved files override the template's starting files
+  const files: Record<string, string> = { ...template.files };
+  for (const file of await getProjectFiles(projectId)) {
+    files[file.path.replace(/^\/+/, "")] = file.content;
+  }
+
+  const env: Record<string, string> = {
+    NODE_ENV: "development",
+    PORT: String(template.port),
+    HOST: "0.0.0.0",
+    HOSTNAME: "0.0.0.0",
+  };
+  for (const envVar of await getProjectEnvVars(projectId)) {
+    env[envVar.key] = toNetworkUrl(envVar.value, services);
+  }
+
+  return {
+    templateId: template.id,
+    internalPort: template.port,
+    cmd: ["sh", "-c", getAppStartCommand(template)],
+    env: Object.entries(env).map(([key, value]) => `${key}=${value}`),
+    archive: createTarArchive(files),
+    fileCount: Object.keys(files).length,
+  };
+}
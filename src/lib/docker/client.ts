@@ -0,0 +1,756 @@
+/**
+ * Docker Engine API Client
+ *
+ * Typed client for the Docker Engine HTTP API. Requests go through a
+ * DockerTransport, which talks to the daemon from getDockerHost() by default
+ * and can be replaced with a stand-in for tests.
+ */
+
+import http from "http";
+import { Readable } from "stream";
+
+export interface DockerRequest {
+  method: "GET" | "POST" | "PUT" | "DELETE" | "HEAD";
+  path: string;
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: unknown; // sent as JSON, or as-is when a Buffer (tar archives)
+}
+
+export interface DockerResponse {
+  statusCode: number;
+  body: Buffer;
+}
+
+export interface DockerTransport {
+  /** Send a request and buffer the whole response */
+  request(request: DockerRequest): Promise<DockerResponse>;
+  /** Send a request and return the response body as a stream */
+  stream(request: DockerRequest): Promise<{ statusCode: number; body: Readable }>;
+}
+
+export type DockerErrorCode =
+  | "not_found"
+  | "conflict"
+  | "not_modified"
+  | "bad_request"
+  | "unavailable"
+  | "server_error";
+
+/**
+ * Error returned by the Docker daemon or transport
+ */
+export class DockerError extends Error {
+  code: DockerErrorCode;
+  statusCode?: number;
+
+  constructor(code: DockerErrorCode, message: string, statusCode?: number) {
+    super(message);
+    this.name = "DockerError";
+    this.code = code;
+    this.statusCode = statusCode;
+  }
+}
+
+// Subset of the Engine API payloads used by the manager
+
+export interface ContainerCreateSpec {
+  Image: string;
+  Cmd?: string[];
+  Env?: string[];
+  Labels?: Record<string, string>;
+  WorkingDir?: string;
+  ExposedPorts?: Record<string, Record<string, never>>;
+  Healthcheck?: {
+    Test: string[];
+    Interval?: number; // nanoseconds
+    Timeout?: number; // nanoseconds
+    Retries?: number;
+  };
+  HostConfig?: {
+    NetworkMode?: string;
+    PortBindings?: Record<string, Array<{ HostIp?: string; HostPort: string }>>;
+    RestartPolicy?: { Name: "no" | "always" | "unless-stopped" | "on-failure"; MaximumRetryCount?: number };
+    Binds?: string[];
+    NanoCpus?: number;
+    Memory?: number; // bytes
+  };
+}
+
+export interface ContainerInspect {
+  Id: string;
+  Name: string;
+  Created: string;
+  State: {
+    Status: "created" | "running" | "paused" | "restarting" | "removing" | "exited" | "dead";
+    Running: boolean;
+    ExitCode: number;
+    StartedAt: string;
+    FinishedAt: string;
+    Health?: {
+      Status: "starting" | "healthy" | "unhealthy" | "none";
+      FailingStreak: number;
+    };
+  };
+  Config: {
+    Image: string;
+    Env: string[] | null;
+    Labels: Record<string, string> | null;
+  };
+  NetworkSettings: {
+    Ports: Record<string, Array<{ HostIp: string; HostPort: string }> | null> | null;
+  };
+}
+
+export interface ContainerSummary {
+  Id: string;
+  Names: string[];
+  Image: string;
+  State: string;
+  Status: string;
+  Labels: Record<string, string>;
+}
+
+export interface NetworkSummary {
+  Id: string;
+  Name: string;
+  Labels: Record<string, string>;
+}
+
+// One sample from GET /containers/{id}/stats; fields absent on some platforms are optional
+export interface ContainerStats {
+  read: string;
+  cpu_stats: {
+    cpu_usage: { total_usage: number };
+    system_cpu_usage?: number;
+    online_cpus?: number;
+  };
+  precpu_stats: {
+    cpu_usage: { total_usage: number };
+    system_cpu_usage?: number;
+  };
+  memory_stats: {
+    usage?: number;
+    limit?: number;
+    stats?: Record<string, number>;
+  };
+  networks?: Record<string, { rx_bytes: number; tx_bytes: number }>;
+  blkio_stats?: {
+    io_service_bytes_recursive: Array<{ op: string; value: number }> | null;
+  };
+}
+
+export interface ExecResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+export interface LogOptions {
+  since?: number; // unix seconds
+  tail?: number | "all";
+  timestamps?: boolean;
+}
+
+export interface LogFrame {
+  stream: "stdout" | "stderr";
+  data: string;
+}
+
+/**
+ * Get the Docker host URL (for server-side Docker daemon)
+ */
+export function getDockerHost(): string {
+  return process.env.DOCKER_HOST || "unix:///var/run/docker.sock";
+}
+
+/**
+ * Build a request path with its query string
+ */
+function buildPath(request: DockerRequest): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(request.query || {})) {
+    if (value !== undefined) {
+      params.set(key, String(value));
+    }
+  }
+  const query = params.toString();
+  return query ? `${request.path}?${query}` : request.path;
+}
+
+// Longest a request may wait for data from the daemon. Exec start answers
+// only once the command exits, so this also bounds silent commands.
+const DEFAULT_REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Create the HTTP transport for a Docker host (unix://, tcp:// or http://)
+ * A request fails once the daemon sends nothing for timeoutMs; streams only
+ * wait that long for the response to start, then stay open until closed.
+ */
+export function createHttpTransport(
+  host: string = getDockerHost(),
+  timeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS
+): DockerTransport {
+  const target = host.startsWith("unix://")
+    ? { socketPath: host.slice("unix://".length) }
+    : (() => {
+        const url = new URL(host.replace(/^tcp:\/\//, "http://"));
+        return { hostname: url.hostname, port: Number(url.port) || 2375 };
+      })();
+
+  const send = (request: DockerRequest, streaming: boolean): Promise<http.IncomingMessage> =>
+    new Promise((resolve, reject) => {
+      const raw = Buffer.isBuffer(request.body);
+      const payload = raw
+        ? (request.body as Buffer)
+        : request.body !== undefined ? JSON.stringify(request.body) : undefined;
+      const req = http.request(
+        {
+          ...target,
+          method: request.method,
+          path: buildPath(request),
+          headers: payload
+            ? {
+                "Content-Type": raw ? "application/x-tar" : "application/json",
+                "Content-Length": Buffer.byteLength(payload),
+              }
+            : undefined,
+        },
+        (response) => {
+          if (streaming) {
+            req.setTimeout(0);
+          }
+          resolve(response);
+        }
+      );
+      req.setTimeout(timeoutMs, () => {
+        req.destroy(new DockerError("unavailable", `Docker daemon at ${host} sent nothing for ${timeoutMs}ms`));
+      });
+      req.on("error", (error) => {
+        reject(error instanceof DockerError
+          ? error
+          : new DockerError("unavailable", `Docker daemon unreachable at ${host}: ${error.message}`));
+      });
+      if (payload) {
+        req.write(payload);
+      }
+      req.end();
+    });
+
+  return {
+    async request(request) {
+      const response = await send(request, false);
+      const chunks: Buffer[] = [];
+      try {
+        for await (const chunk of response) {
+          chunks.push(chunk as Buffer);
+        }
+      } catch (error) {
+        throw error instanceof DockerError
+          ? error
+          : new DockerError("unavailable", `Docker daemon at ${host} closed the response: ${(error as Error).message}`);
+      }
+      return { statusCode: response.statusCode || 0, body: Buffer.concat(chunks) };
+    },
+
+    async stream(request) {
+      const response = await send(request, true);
+      return { statusCode: response.statusCode || 0, body: response };
+    },
+  };
+}
+
+/**
+ * Map an error response from the daemon to a DockerError
+ */
+function errorFromResponse(operation: string, statusCode: number, body: Buffer): DockerError {
+  let message = body.toString("utf8").trim();
+  try {
+    message = (JSON.parse(message) as { message?: string }).message || message;
+  } catch {
+    // Plain-text error body
+  }
+
+  const code: DockerErrorCode =
+    statusCode === 304 ? "not_modified" :
+    statusCode === 400 ? "bad_request" :
+    statusCode === 404 ? "not_found" :
+    statusCode === 409 ? "conflict" :
+    "server_error";
+
+  return new DockerError(code, `${operation} failed (${statusCode}): ${message}`, statusCode);
+}
+
+/**
+ * Split a multiplexed stdout/stderr stream (non-TTY attach, exec and logs)
+ * Each frame has an 8-byte header: stream type, 3 padding bytes, uint32 size.
+ */
+export function demuxDockerStream(buffer: Buffer): { stdout: string; stderr: string } {
+  const stdout: Buffer[] = [];
+  const stderr: Buffer[] = [];
+  let offset = 0;
+
+  while (offset + 8 <= buffer.length) {
+    const type = buffer[offset];
+    const size = buffer.readUInt32BE(offset + 4);
+    const frame = buffer.subarray(offset + 8, offset + 8 + size);
+    (type === 2 ? stderr : stdout).push(frame);
+    offset += 8 + size;
+  }
+
+  return {
+    stdout: Buffer.concat(stdout).toString("utf8"),
+    stderr: Buffer.concat(stderr).toString("utf8"),
+  };
+}
+
+/**
+ * Write a string into a fixed-width tar header field
+ */
+function writeTarField(header: Buffer, value: string, offset: number, length: number): void {
+  header.write(value.slice(0, length), offset, length, "utf8");
+}
+
+/**
+ * Build one 512-byte ustar header
+ */
+function tarHeader(name: string, prefix: string, size: number, mtime: number, type: "0" | "x"): Buffer {
+  const header = Buffer.alloc(512);
+
+  writeTarField(header, name, 0, 100);
+  writeTarField(header, "0000644\0", 100, 8);
+  writeTarField(header, "0000000\0", 108, 8);
+  writeTarField(header, "0000000\0", 116, 8);
+  writeTarField(header, size.toString(8).padStart(11, "0") + "\0", 124, 12);
+  writeTarField(header, Math.floor(mtime / 1000).toString(8).padStart(11, "0") + "\0", 136, 12);
+  writeTarField(header, "        ", 148, 8);
+  writeTarField(header, type, 156, 1);
+  writeTarField(header, "ustar\0", 257, 6);
+  writeTarField(header, "00", 263, 2);
+  writeTarField(header, prefix, 345, 155);
+
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  writeTarField(header, checksum.toString(8).padStart(6, "0") + "\0 ", 148, 8);
+
+  return header;
+}
+
+/**
+ * Split a path into a ustar prefix (up to 155 bytes) and name (up to 100
+ * bytes) at a slash, or return null if no slash allows it
+ */
+function splitTarPath(path: string): { prefix: string; name: string } | null {
+  if (Buffer.byteLength(path) <= 100) {
+    return { prefix: "", name: path };
+  }
+
+  // Prefer the longest prefix; the name only gets longer from there
+  for (let slash = path.lastIndexOf("/"); slash > 0; slash = path.lastIndexOf("/", slash - 1)) {
+    const prefix = path.slice(0, slash);
+    const name = path.slice(slash + 1);
+    if (Buffer.byteLength(prefix) <= 155) {
+      return name && Buffer.byteLength(name) <= 100 ? { prefix, name } : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Encode a pax extended header record ("<length> <key>=<value>\n", where
+ * the length counts the whole record including its own digits)
+ */
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  const bodyLength = Buffer.byteLength(body);
+  let length = bodyLength + String(bodyLength).length;
+  if (String(length).length > String(bodyLength).length) {
+    length++;
+  }
+  return `${length}${body}`;
+}
+
+/**
+ * Pad data to a whole number of 512-byte blocks
+ */
+function tarPadding(size: number): Buffer {
+  return Buffer.alloc((512 - (size % 512)) % 512);
+}
+
+/**
+ * Build an uncompressed tar archive (ustar) of text files
+ * Parent directories are created by the daemon when the archive is extracted.
+ * Paths too long for the ustar name fields are stored in a pax header.
+ */
+export function createTarArchive(files: Record<string, string>, mtime: number = Date.now()): Buffer {
+  const blocks: Buffer[] = [];
+
+  for (const [path, content] of Object.entries(files)) {
+    const data = Buffer.from(content, "utf8");
+    const name = path.replace(/^\/+/, "");
+
+    let split = splitTarPath(name);
+    if (!split) {
+      const pax = Buffer.from(paxRecord("path", name), "utf8");
+      blocks.push(tarHeader("PaxHeader", "", pax.length, mtime, "x"), pax, tarPadding(pax.length));
+      // Readers without pax support still get a usable (truncated) name
+      split = { prefix: "", name: name.slice(-100) };
+    }
+
+    blocks.push(tarHeader(split.name, split.prefix, data.length, mtime, "0"), data, tarPadding(data.length));
+  }
+
+  // End of archive: two empty blocks
+  blocks.push(Buffer.alloc(1024));
+  return Buffer.concat(blocks);
+}
+
+/**
+ * Read frames from a multiplexed stream as they arrive
+ * Partial frames are held until the rest of the frame is received.
+ */
+export async function* demuxDockerFrames(body: Readable): AsyncGenerator<LogFrame> {
+  let pending = Buffer.alloc(0);
+
+  for await (const chunk of body) {
+    pending = Buffer.concat([pending, chunk as Buffer]);
+
+    while (pending.length >= 8) {
+      const size = pending.readUInt32BE(4);
+      if (pending.length < 8 + size) break;
+      yield {
+        stream: pending[0] === 2 ? "stderr" : "stdout",
+        data: pending.subarray(8, 8 + size).toString("utf8"),
+      };
+      pending = pending.subarray(8 + size);
+    }
+  }
+}
+
+/**
+ * Encode labels as an Engine API filter
+ * An empty value matches any object carrying the label.
+ */
+function labelFilter(labels: Record<string, string>): string {
+  return JSON.stringify({
+    label: Object.entries(labels).map(([key, value]) => (value ? `${key}=${value}` : key)),
+  });
+}
+
+export class DockerClient {
+  constructor(private transport: DockerTransport = createHttpTransport()) {}
+
+  /**
+   * Send a request, throwing a DockerError for non-2xx responses
+   */
+  private async call<T>(operation: string, request: DockerRequest): Promise<T> {
+    const response = await this.transport.request(request);
+
+    if (response.statusCode < 200 || response.statusCode >= 300) {
+      throw errorFromResponse(operation, response.statusCode, response.body);
+    }
+
+    if (response.body.length === 0) {
+      return undefined as T;
+    }
+
+    const text = response.body.toString("utf8");
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      return text as T;
+    }
+  }
+
+  /**
+   * Send a request whose response is a multiplexed output stream
+   */
+  private async callRaw(operation: string, request: DockerRequest): Promise<Buffer> {
+    const response = await this.transport.request(request);
+
+    if (response.statusCode < 200 || response.statusCode >= 300) {
+      throw errorFromResponse(operation, response.statusCode, response.body);
+    }
+
+    return response.body;
+  }
+
+  async ping(): Promise<boolean> {
+    try {
+      await this.call("ping", { method: "GET", path: "/_ping" });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async version(): Promise<{ Version: string; ApiVersion: string }> {
+    return this.call("version", { method: "GET", path: "/version" });
+  }
+
+  // === NETWORKS ===
+
+  async createNetwork(name: string, labels: Record<string, string> = {}): Promise<string> {
+    const result = await this.call<{ Id: string }>("network create", {
+      method: "POST",
+      path: "/networks/create",
+      body: { Name: name, Driver: "bridge", Labels: labels, CheckDuplicate: true },
+    });
+    return result.Id;
+  }
+
+  async removeNetwork(idOrName: string): Promise<void> {
+    await this.call("network remove", {
+      method: "DELETE",
+      path: `/networks/${encodeURIComponent(idOrName)}`,
+    });
+  }
+
+  async listNetworks(labels: Record<string, string> = {}): Promise<NetworkSummary[]> {
+    return this.call("network list", {
+      method: "GET",
+      path: "/networks",
+      query: { filters: labelFilter(labels) },
+    });
+  }
+
+  async connectNetwork(network: string, container: string): Promise<void> {
+    await this.call("network connect", {
+      method: "POST",
+      path: `/networks/${encodeURIComponent(network)}/connect`,
+      body: { Container: container },
+    });
+  }
+
+  // === IMAGES ===
+
+  async pullImage(image: string, tag: string): Promise<void> {
+    // The response is a progress stream; buffering it waits for the pull to finish
+    const progress = await this.callRaw("image pull", {
+      method: "POST",
+      path: "/images/create",
+      query: { fromImage: image, tag },
+    });
+
+    // Failures after the stream has started arrive as entries, not as a status
+    for (const line of progress.toString("utf8").split("\n")) {
+      let entry: { error?: string; errorDetail?: { message?: string } };
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (entry.error || entry.errorDetail) {
+        const message = entry.errorDetail?.message || entry.error;
+        throw new DockerError("server_error", `image pull failed for ${image}:${tag}: ${message}`);
+      }
+    }
+  }
+
+  // === CONTAINERS ===
+
+  async createContainer(name: string, spec: ContainerCreateSpec): Promise<string> {
+    const result = await this.call<{ Id: string }>("container create", {
+      method: "POST",
+      path: "/containers/create",
+      query: { name },
+      body: spec,
+    });
+    return result.Id;
+  }
+
+  async startContainer(id: string): Promise<void> {
+    try {
+      await this.call("container start", {
+        method: "POST",
+        path: `/containers/${encodeURIComponent(id)}/start`,
+      });
+    } catch (error) {
+      // Already started
+      if (!(error instanceof DockerError && error.code === "not_modified")) {
+        throw error;
+      }
+    }
+  }
+
+  async stopContainer(id: string, timeoutSeconds = 10): Promise<void> {
+    try {
+      await this.call("container stop", {
+        method: "POST",
+        path: `/containers/${encodeURIComponent(id)}/stop`,
+        query: { t: timeoutSeconds },
+      });
+    } catch (error) {
+      // Already stopped
+      if (!(error instanceof DockerError && error.code === "not_modified")) {
+        throw error;
+      }
+    }
+  }
+
+  async restartContainer(id: string, timeoutSeconds = 10): Promise<void> {
+    await this.call("container restart", {
+      method: "POST",
+      path: `/containers/${encodeURIComponent(id)}/restart`,
+      query: { t: timeoutSeconds },
+    });
+  }
+
+  async removeContainer(id: string, options: { force?: boolean; volumes?: boolean } = {}): Promise<void> {
+    await this.call("container remove", {
+      method: "DELETE",
+      path: `/containers/${encodeURIComponent(id)}`,
+      query: { force: options.force, v: options.volumes },
+    });
+  }
+
+  async inspectContainer(id: string): Promise<ContainerInspect> {
+    return this.call("container inspect", {
+      method: "GET",
+      path: `/containers/${encodeURIComponent(id)}/json`,
+    });
+  }
+
+  async listContainers(labels: Record<string, string> = {}, all = true): Promise<ContainerSummary[]> {
+    return this.call("container list", {
+      method: "GET",
+      path: "/containers/json",
+      query: { all, filters: labelFilter(labels) },
+    });
+  }
+
+  /**
+   * Read one resource usage sample
+   * The daemon waits for a second reading so CPU usage can be computed
+   * from the difference with precpu_stats.
+   */
+  async stats(id: string): Promise<ContainerStats> {
+    return this.call("container stats", {
+      method: "GET",
+      path: `/containers/${encodeURIComponent(id)}/stats`,
+      query: { stream: false },
+    });
+  }
+
+  /**
+   * Extract a tar archive into a directory of a container
+   */
+  async putArchive(id: string, path: string, archive: Buffer): Promise<void> {
+    await this.callRaw("container archive", {
+      method: "PUT",
+      path: `/containers/${encodeURIComponent(id)}/archive`,
+      query: { path },
+      body: archive,
+    });
+  }
+
+  // === EXEC & LOGS ===
+
+  /**
+   * Run a command in a container and wait for it to finish
+   * The command is passed as an argument vector, never through a shell.
+   */
+  async exec(id: string, cmd: string[], options: { env?: string[]; workingDir?: string } = {}): Promise<ExecResult> {
+    const { Id: execId } = await this.call<{ Id: string }>("exec create", {
+      method: "POST",
+      path: `/containers/${encodeURIComponent(id)}/exec`,
+      body: {
+        Cmd: cmd,
+        Env: options.env,
+        WorkingDir: options.workingDir,
+        AttachStdout: true,
+        AttachStderr: true,
+      },
+    });
+
+    const output = await this.callRaw("exec start", {
+      method: "POST",
+      path: `/exec/${execId}/start`,
+      body: { Detach: false, Tty: false },
+    });
+
+    const { ExitCode } = await this.call<{ ExitCode: number | null }>("exec inspect", {
+      method: "GET",
+      path: `/exec/${execId}/json`,
+    });
+
+    return { exitCode: ExitCode ?? -1, ...demuxDockerStream(output) };
+  }
+
+  async logs(id: string, options: LogOptions = {}): Promise<{ stdout: string; stderr: string }> {
+    const output = await this.callRaw("container logs", {
+      method: "GET",
+      path: `/containers/${encodeURIComponent(id)}/logs`,
+      query: {
+        stdout: true,
+        stderr: true,
+        since: options.since,
+        tail: options.tail,
+        timestamps: options.timestamps,
+      },
+    });
+
+    return demuxDockerStream(output);
+  }
+
+  /**
+   * Follow a container's logs, yielding frames until the container stops
+   * or the signal is aborted
+   */
+  async *followLogs(id: string, options: LogOptions = {}, signal?: AbortSignal): AsyncGenerator<LogFrame> {
+    const response = await this.transport.stream({
+      method: "GET",
+      path: `/containers/${encodeURIComponent(id)}/logs`,
+      query: {
+        follow: true,
+        stdout: true,
+        stderr: true,
+        since: options.since,
+        tail: options.tail,
+        timestamps: options.timestamps,
+      },
+    });
+
+    if (response.statusCode < 200 || response.statusCode >= 300) {
+      const chunks: Buffer[] = [];
+      for await (const chunk of response.body) {
+        chunks.push(chunk as Buffer);
+      }
+      throw errorFromResponse("container logs", response.statusCode, Buffer.concat(chunks));
+    }
+
+    const stop = () => response.body.destroy();
+    signal?.addEventListener("abort", stop, { once: true });
+    if (signal?.aborted) stop();
+
+    try {
+      yield* demuxDockerFrames(response.body);
+    } catch (error) {
+      // Destroying the stream on abort ends iteration with a premature close
+      if (!signal?.aborted) {
+        throw error;
+      }
+    } finally {
+      signal?.removeEventListener("abort", stop);
+      response.body.destroy();
+    }
+  }
+}
+
+let sharedClient: DockerClient | null = null;
+
+/**
+ * Get the shared Docker client
+ */
+export function getDockerClient(): DockerClient {
+  if (!sharedClient) {
+    sharedClient = new DockerClient();
+  }
+  return sharedClient;
+}
+
+/**
+ * Replace the transport used by the shared client (e.g. with a local stand-in server)
+ */
+export function setDockerTransport(transport: DockerTransport): void {
+  sharedClient = new DockerClient(transport);
+}
@@ -0,0 +1,245 @@
+/**
+ * Docker Compose Export
+ *
+ * Renders a project's provisioned services as a docker-compose.yml that
+ * runs the same images, environment, health checks, resource limits and
+ * volumes locally, plus a matching .env.example. Generated passwords and
+ * secret ProjectEnvVar values never appear in either file; the compose file
+ * refers to them as ${VAR} placeholders that the user fills in.
+ */
+
+import { getProject, getProjectEnvVars } from "@/lib/db/supabase";
+import { Container, ContainerConfig, ContainerType, CONTAINER_CONFIGS } from "./types";
+import { APP_DIR, getAppStartCommand, getAppTemplate, toNetworkUrl } from "./app";
+import { getConnectionPassword } from "./manager";
+import { loadProject } from "./store";
+
+export interface ComposeExport {
+  compose: string; // docker-compose.yml
+  envExample: string; // .env.example
+}
+
+type YamlValue = string | number | boolean | YamlValue[] | { [key: string]: YamlValue };
+
+/**
+ * Name of the .env variable holding a service's password
+ */
+function passwordVar(type: ContainerType): string {
+  return `${type.toUpperCase()}_PASSWORD`;
+}
+
+/**
+ * Escape "$" so Compose does not interpolate it
+ */
+function escapeDollars(value: string): string {
+  return value.replace(/\$/g, "$$$$");
+}
+
+/**
+ * Render a YAML key, quoting it unless it is a plain word
+ */
+function yamlKey(key: string): string {
+  return /^[A-Za-z0-9_.-]+$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Render a value as block YAML
+ * Strings are emitted as double-quoted scalars, which JSON escaping produces.
+ */
+function toYaml(value: YamlValue, indent: number = 0): string {
+  const pad = "  ".repeat(indent);
+
+  if (Array.isArray(value)) {
+    return value
+      .map(item => typeof item === "object"
+        ? `${pad}-\n${toYaml(item, indent + 1)}`
+        : `${pad}- ${JSON.stringify(item)}`)
+      .join("\n");
+  }
+
+  if (typeof value === "object") {
+    return Object.entries(value)
+      .map(([key, item]) => {
+        if (typeof item !== "object") {
+          return `${pad}${yamlKey(key)}: ${JSON.stringify(item)}`;
+        }
+        const isEmpty = Array.isArray(item) ? item.length === 0 : Object.keys(item).length === 0;
+        return isEmpty
+          ? `${pad}${yamlKey(key)}: ${Array.isArray(item) ? "[]" : "{}"}`
+          : `${pad}${yamlKey(key)}:\n${toYaml(item, indent + 1)}`;
+      })
+      .join("\n");
+  }
+
+  return `${pad}${JSON.stringify(value)}`;
+}
+
+/**
+ * Replace generated service passwords in a value with their placeholders
+ */
+function maskPasswords(value: string, services: Container[]): string {
+  let masked = value;
+  for (const service of services) {
+    const password = getConnectionPassword(service.connectionString);
+    if (password) {
+      masked = masked.split(password).join(`\${${passwordVar(service.type)}}`);
+    }
+  }
+  return masked;
+}
+
+/**
+ * Format a .env value, quoting it when needed
+ */
+function envValue(value: string): string {
+  return /^[A-Za-z0-9_./:@${}-]*$/.test(value) ? value : JSON.stringify(value);
+}
+
+/**
+ * Compose deploy section with a container's resource limits
+ */
+function toDeploy(resources: NonNullable<ContainerConfig["resources"]>): YamlValue {
+  return {
+    resources: {
+      limits: {
+        cpus: resources.cpuLimit,
+        memory: resources.memoryLimit,
+      },
+    },
+  };
+}
+
+/**
+ * Build the compose service for a database or cache container
+ */
+function buildService(type: ContainerType): Record<string, YamlValue> {
+  const config = CONTAINER_CONFIGS[type];
+
+  const environment: Record<string, string> = {};
+  for (const [key, value] of Object.entries(config.env)) {
+    environment[key] = config.passwordEnv?.includes(key)
+      ? `\${${passwordVar(type)}:?${passwordVar(type)} is required}`
+      : escapeDollars(value);
+  }
+
+  const service: Record<string, YamlValue> = {
+    image: `${config.image}:${config.tag}`,
+    restart: "unless-stopped",
+    environment,
+    ports: [`${config.port}:${config.internalPort}`],
+  };
+
+  if (config.command) {
+    service.command = config.command.map(escapeDollars);
+  }
+
+  if (config.volumes?.length) {
+    service.volumes = config.volumes.map((path, i) => `${type}-data${i === 0 ? "" : `-${i}`}:${path}`);
+  }
+
+  if (config.healthCheck) {
+    service.healthcheck = {
+      test: ["CMD-SHELL", escapeDollars(config.healthCheck.command)],
+      interval: `${config.healthCheck.interval}s`,
+      timeout: `${config.healthCheck.timeout}s`,
+      retries: config.healthCheck.retries,
+    };
+  }
+
+  if (config.resources) {
+    service.deploy = toDeploy(config.resources);
+  }
+
+  return service;
+}
+
+/**
+ * Render a project's services as docker-compose.yml and .env.example
+ * Returns null if the project has no containers.
+ */
+export async function exportProjectCompose(projectId: string): Promise<ComposeExport | null> {
+  const project = await loadProject(projectId);
+  if (!project || project.containers.length === 0) {
+    return null;
+  }
+
+  // Compose service names are the container types
+  const services = project.containers.map(c => ({ ...c, name: c.type }));
+  const types = services.map(c => c.type);
+
+  const composeServices: Record<string, YamlValue> = {};
+  const volumes: Record<string, YamlValue> = {};
+
+  for (const type of types.filter(t => t !== "app")) {
+    const service = buildService(type);
+    composeServices[type] = service;
+    for (const mount of (service.volumes as string[] | undefined) || []) {
+      volumes[mount.split(":")[0]] = {};
+    }
+  }
+
+  const envLines = [
+    "# Environment for docker-compose.yml",
+    "# Copy to .env and fill in the values.",
+  ];
+
+  const passwordTypes = types.filter(t => CONTAINER_CONFIGS[t].passwordEnv?.length);
+  if (passwordTypes.length > 0) {
+    envLines.push("", "# Service passwords", ...passwordTypes.map(t => `${passwordVar(t)}=`));
+  }
+
+  if (types.includes("app")) {
+    const template = getAppTemplate((await getProject(projectId))?.framework);
+    const envVars = await getProjectEnvVars(projectId);
+
+    const environment: Record<string, string> = {
+      NODE_ENV: "development",
+      PORT: String(template.port),
+      HOST: "0.0.0.0",
+      HOSTNAME: "0.0.0.0",
+    };
+    for (const envVar of envVars) {
+      environment[envVar.key] = `\${${envVar.key}}`;
+    }
+
+    const dependsOn: Record<string, YamlValue> = {};
+    for (const type of types.filter(t => t !== "app")) {
+      dependsOn[type] = {
+        condition: CONTAINER_CONFIGS[type].healthCheck ? "service_healthy" : "service_started",
+      };
+    }
+
+    const config = CONTAINER_CONFIGS.app;
+    composeServices.app = {
+      image: `${config.image}:${config.tag}`,
+      restart: "unless-stopped",
+      working_dir: APP_DIR,
+      command: ["sh", "-c", escapeDollars(getAppStartCommand(template))],
+      environment,
+      ports: [`${template.port}:${template.port}`],
+      volumes: [`.:${APP_DIR}`],
+      ...(Object.keys(dependsOn).length > 0 && { depends_on: dependsOn }),
+      ...(config.resources && { deploy: toDeploy(config.resources) }),
+    };
+
+    if (envVars.length > 0) {
+      envLines.push(
+        "",
+        "# Project environment",
+        ...envVars.map(envVar => `${envVar.key}=${
+          envVar.is_secret ? "" : envValue(maskPasswords(toNetworkUrl(envVar.value, services), services))
+        }`)
+      );
+    }
+  }
+
+  const compose: Record<string, YamlValue> = { services: composeServices };
+  if (Object.keys(volumes).length > 0) {
+    compose.volumes = volumes;
+  }
+
+  return {
+    compose: `# Generated by Evolvo for project ${projectId}\n${toYaml(compose)}\n`,
+    envExample: `${envLines.join("\n")}\n`,
+  };
+}
@@ -0,0 +1,226 @@
+/**
+ * Credential Rotation
+ *
+ * Replaces the generated password of a project's Postgres, pgvector or Redis
+ * container in place. The server is switched to the new password and clients
+ * connected with the old one are disconnected, then the stored connection
+ * string and any ProjectEnvVar values carrying the old password (such as
+ * DATABASE_URL or REDIS_URL) are updated. The app container's environment is
+ * fixed when it is created, so it is redeployed to pick up the new values.
+ */
+
+import { getProjectEnvVars, setProjectEnvVar } from "@/lib/db/supabase";
+import { Container, CONTAINER_CONFIGS, REDIS_PASSWORD_FILE } from "./types";
+import { getDockerClient } from "./client";
+import {
+  buildConnectionString,
+  executeSql,
+  generatePassword,
+  getConnectionPassword,
+  isSimulationMode,
+  redeployApp,
+  sendRedisCommands,
+  wakeProject,
+} from "./manager";
+import { parseRespReplies } from "./redis";
+import { MAX_STATEMENT_TIMEOUT_MS, quoteSqlLiteral } from "./sql";
+import { loadProject, saveContainer } from "./store";
+
+export type RotatableContainerType = "postgres" | "pgvector" | "redis";
+
+export const ROTATABLE_CONTAINER_TYPES: RotatableContainerType[] = ["postgres", "pgvector", "redis"];
+
+export interface CredentialRotation {
+  containerType: RotatableContainerType;
+  connectionString: string;
+  envVars: string[]; // keys of the ProjectEnvVar entries that were updated
+  appRedeployed: boolean;
+  rotatedAt: number;
+}
+
+export type CredentialErrorCode = "not_found" | "unsupported" | "failed";
+
+/**
+ * Raised when a container's credentials cannot be rotated
+ */
+export class CredentialError extends Error {
+  code: CredentialErrorCode;
+
+  constructor(code: CredentialErrorCode, message: string) {
+    super(message);
+    this.name = "CredentialError";
+    this.code = code;
+  }
+}
+
+/**
+ * Find a project's container of a type, waking the project if it is asleep
+ */
+async function getServiceContainer(
+  projectId: string,
+  containerType: RotatableContainerType
+): Promise<{ container: Container & { containerId: string }; services: Container[] }> {
+  let project = await loadProject(projectId);
+  let container = project?.containers.find(c => c.type === containerType);
+
+  if (container?.status === "sleeping") {
+    if (!(await wakeProject(projectId))) {
+      throw new CredentialError("failed", `${containerType} container failed to wake`);
+    }
+    project = await loadProject(projectId);
+    container = project?.containers.find(c => c.type === containerType);
+  }
+
+  if (!project || !container || !container.containerId) {
+    throw new CredentialError("not_found", `${containerType} container not found`);
+  }
+  return { container: container as Container & { containerId: string }, services: project.containers };
+}
+
+/**
+ * Change the evolvo role's password and end its other sessions
+ */
+async function rotatePostgres(projectId: string, containerType: "postgres" | "pgvector", password: string): Promise<void> {
+  const result = await executeSql(projectId,
+    `ALTER ROLE evolvo WITH PASSWORD ${quoteSqlLiteral(password)}; ` +
+    `SELECT count(pg_terminate_backend(pid)) FROM pg_stat_activity ` +
+    `WHERE usename = 'evolvo' AND pid <> pg_backend_pid()`,
+    containerType,
+    { allowWrites: true, timeoutMs: MAX_STATEMENT_TIMEOUT_MS }
+  );
+  if (!result.success) {
+    throw new CredentialError("failed", result.error || `Failed to change the ${containerType} password`);
+  }
+}
+
+/**
+ * Send commands to Redis, throwing a CredentialError if any reply is an error
+ */
+async function runRedis(container: Container, commands: string[][]): Promise<void> {
+  const exec = await sendRedisCommands(container, commands);
+  if (!exec.success) {
+    throw new CredentialError("failed", exec.error || "Redis did not respond");
+  }
+
+  const replies = parseRespReplies(Buffer.from(exec.output), commands.length + (exec.authenticated ? 1 : 0));
+  for (const reply of replies) {
+    if (reply !== null && typeof reply === "object" && !Array.isArray(reply)) {
+      throw new CredentialError("failed", `Redis rejected the change: ${reply.error}`);
+    }
+  }
+}
+
+/**
+ * Change the Redis password, persist it for restarts, and disconnect clients
+ * The password file in the data volume is read when the server starts; if it
+ * cannot be written, the old password is put back.
+ */
+async function rotateRedis(container: Container & { containerId: string }, connectionString: string): Promise<void> {
+  const password = getConnectionPassword(connectionString);
+  const rotated = { ...container, connectionString };
+
+  await runRedis(container, [["CONFIG", "SET", "requirepass", password]]);
+
+  const write = await getDockerClient().exec(
+    container.containerId,
+    ["sh", "-c", `umask 077 && printf '%s' "$REDIS_PASSWORD" > ${REDIS_PASSWORD_FILE}`],
+    { env: [`REDIS_PASSWORD=${password}`] }
+  );
+  if (write.exitCode !== 0) {
+    await runRedis(rotated, [["CONFIG", "SET", "requirepass", getConnectionPassword(container.connectionString)]]);
+    throw new CredentialError("failed", write.stderr.trim() || "Failed to save the Redis password");
+  }
+
+  // CLIENT KILL skips the connection sending it
+  await runRedis(rotated, [
+    ["CLIENT", "KILL", "TYPE", "normal"],
+    ["CLIENT", "KILL", "TYPE", "pubsub"],
+  ]);
+}
+
+/**
+ * Replace the old password in a value: on its own, or in URLs pointing at
+ * the container by host port or by its network name
+ */
+function replacePassword(
+  value: string,
+  container: Container,
+  oldPassword: string,
+  password: string,
+  sharedPassword: boolean
+): string {
+  // A bare password shared with another container cannot be attributed to this one
+  if (value === oldPassword) {
+    return sharedPassword ? value : password;
+  }
+
+  const hosts = [
+    `localhost:${container.port}`,
+    `127.0.0.1:${container.port}`,
+    `${container.name}:${CONTAINER_CONFIGS[container.type].internalPort}`,
+  ];
+  let replaced = value;
+  for (const host of hosts) {
+    replaced = replaced.split(`:${oldPassword}@${host}`).join(`:${password}@${host}`);
+  }
+  return replaced;
+}
+
+/**
+ * Rotate the password of a project's Postgres, pgvector or Redis container
+ */
+export async function rotateCredentials(
+  projectId: string,
+  containerType: RotatableContainerType
+): Promise<CredentialRotation> {
+  if (!ROTATABLE_CONTAINER_TYPES.includes(containerType)) {
+    throw new CredentialError("unsupported", `Credentials can only be rotated for ${ROTATABLE_CONTAINER_TYPES.join(", ")}`);
+  }
+
+  const { container, services } = await getServiceContainer(projectId, containerType);
+  const oldPassword = getConnectionPassword(container.connectionString);
+  if (!oldPassword) {
+    throw new CredentialError("unsupported", `This ${containerType} container was provisioned without a password; recreate it to enable credential rotation`);
+  }
+
+  const password = generatePassword();
+  const connectionString = buildConnectionString(container.type, password, container.port)!;
+
+  if (isSimulationMode()) {
+    console.log(`[Docker Simulation] Rotated ${containerType} credentials for project ${projectId}`);
+  } else if (containerType === "redis") {
+    await rotateRedis(container, connectionString);
+  } else {
+    await rotatePostgres(projectId, containerType, password);
+  }
+
+  container.connectionString = connectionString;
+  await saveContainer(container);
+
+  const sharedPassword = services.some(c => c.id !== container.id && getConnectionPassword(c.connectionString) === oldPassword);
+  const envVars: string[] = [];
+  for (const envVar of await getProjectEnvVars(projectId)) {
+    const value = replacePassword(envVar.value, container, oldPassword, password, sharedPassword);
+    if (value !== envVar.value) {
+      await setProjectEnvVar(projectId, envVar.key, value, envVar.is_secret);
+      envVars.push(envVar.key);
+    }
+  }
+
+  let appRedeployed = false;
+  if (envVars.length > 0 && services.some(c => c.type === "app")) {
+    const redeploy = await redeployApp(projectId);
+    appRedeployed = redeploy.success;
+    if (!redeploy.success) {
+      console.error(`Failed to redeploy app after rotating ${containerType} credentials:`, redeploy.error);
+    }
+  }
+
+  return {
+    containerType,
+    connectionString,
+    envVars,
+    appRedeployed,
+    rotatedAt: Date.now(),
+  };
+}
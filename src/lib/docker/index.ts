@@ -6,3 +6,13 @@
 
 export * from "./types";
 export * from "./manager";
+export * from "./client";
+export * from "./monitor";
+export * from "./snapshots";
+export * from "./app";
+export * from "./sql";
+export * from "./redis";
+export * from "./compose";
+export * from "./migrations";
+export * from "./vectors";
+export * from "./credentials";
@@ -0,0 +1,225 @@
+/**
+ * Database Migrations
+ *
+ * Applies SQL migrations and seeds from a project's files to its Postgres
+ * container. Files are found by convention:
+ *   migrations/*.sql, db/migrations/*.sql, supabase/migrations/*.sql
+ *   prisma/migrations/<version>/migration.sql
+ *   seeds/*.sql, db/seeds/*.sql, prisma/seed.sql
+ * Applied versions are recorded in a tracking table inside the database, and
+ * each migration runs in a single transaction with its tracking row.
+ */
+
+import { createHash } from "crypto";
+import { getProjectFiles } from "@/lib/db/supabase";
+import { executeSql, isSimulationMode } from "./manager";
+import { MAX_SQL_ROWS, MAX_STATEMENT_TIMEOUT_MS, quoteSqlLiteral, SqlResult } from "./sql";
+
+export type MigrationKind = "migration" | "seed";
+
+export type MigrationContainerType = "postgres" | "pgvector";
+
+export type MigrationState =
+  | "applied"
+  | "pending"
+  | "changed" // applied, but the file has been edited since
+  | "missing"; // applied, but the file no longer exists
+
+export interface MigrationStatus {
+  version: string;
+  kind: MigrationKind;
+  path?: string;
+  state: MigrationState;
+  appliedAt?: number;
+}
+
+export interface MigrationRunResult {
+  applied: MigrationStatus[];
+  failed?: { version: string; kind: MigrationKind; error: string };
+}
+
+export type MigrationErrorCode = "failed";
+
+/**
+ * Raised when migration state cannot be read from the database
+ */
+export class MigrationError extends Error {
+  code: MigrationErrorCode;
+
+  constructor(code: MigrationErrorCode, message: string) {
+    super(message);
+    this.name = "MigrationError";
+    this.code = code;
+  }
+}
+
+interface MigrationFile {
+  version: string;
+  kind: MigrationKind;
+  path: string;
+  sql: string;
+  checksum: string;
+}
+
+const TRACKING_TABLE = "evolvo_schema_migrations";
+
+const FILE_PATTERNS: { kind: MigrationKind; pattern: RegExp }[] = [
+  { kind: "migration", pattern: /^(?:db\/|supabase\/)?migrations\/([^/]+)\.sql$/ },
+  { kind: "migration", pattern: /^prisma\/migrations\/([^/]+)\/migration\.sql$/ },
+  { kind: "seed", pattern: /^(?:db\/)?seeds\/([^/]+)\.sql$/ },
+  { kind: "seed", pattern: /^prisma\/(seed)\.sql$/ },
+];
+
+/**
+ * Run SQL that changes the database, throwing a MigrationError if it fails
+ */
+async function run(projectId: string, containerType: MigrationContainerType, sql: string): Promise<SqlResult> {
+  const result = await executeSql(projectId, sql, containerType, {
+    allowWrites: true,
+    limit: MAX_SQL_ROWS,
+    timeoutMs: MAX_STATEMENT_TIMEOUT_MS,
+  });
+  if (!result.success || !result.result) {
+    throw new MigrationError("failed", result.error || "Migration query failed");
+  }
+  return result.result;
+}
+
+/**
+ * Find a project's migration and seed files, in the order they apply
+ * Versions sort numerically, so 2_x comes before 10_x.
+ */
+async function findMigrationFiles(projectId: string): Promise<MigrationFile[]> {
+  const files: MigrationFile[] = [];
+
+  for (const file of await getProjectFiles(projectId)) {
+    const path = file.path.replace(/^\/+/, "");
+    for (const { kind, pattern } of FILE_PATTERNS) {
+      const match = pattern.exec(path);
+      if (!match) continue;
+      files.push({
+        version: match[1],
+        kind,
+        path,
+        sql: file.content,
+        checksum: createHash("sha256").update(file.content).digest("hex"),
+      });
+      break;
+    }
+  }
+
+  const compare = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+  return files.sort((a, b) =>
+    a.kind !== b.kind ? (a.kind === "migration" ? -1 : 1) : compare(a.version, b.version) || compare(a.path, b.path)
+  );
+}
+
+/**
+ * Read applied versions from the tracking table, creating it if needed
+ */
+async function getAppliedVersions(
+  projectId: string,
+  containerType: MigrationContainerType
+): Promise<Map<string, { checksum: string; appliedAt: number }>> {
+  const applied = new Map<string, { checksum: string; appliedAt: number }>();
+  if (isSimulationMode()) {
+    return applied;
+  }
+
+  const result = await run(projectId, containerType,
+    `CREATE TABLE IF NOT EXISTS ${TRACKING_TABLE} (` +
+    `kind TEXT NOT NULL, version TEXT NOT NULL, checksum TEXT NOT NULL, ` +
+    `applied_at TIMESTAMPTZ NOT NULL DEFAULT now(), PRIMARY KEY (kind, version)); ` +
+    `SELECT kind, version, checksum, extract(epoch FROM applied_at) * 1000 FROM ${TRACKING_TABLE} ORDER BY applied_at`
+  );
+
+  for (const [kind, version, checksum, appliedAt] of result.rows) {
+    applied.set(`${kind}:${version}`, { checksum: checksum || "", appliedAt: Math.round(Number(appliedAt)) });
+  }
+  return applied;
+}
+
+/**
+ * Compare a project's migration files with what has been applied
+ */
+export async function getMigrationStatus(
+  projectId: string,
+  containerType: MigrationContainerType = "postgres"
+): Promise<MigrationStatus[]> {
+  const files = await findMigrationFiles(projectId);
+  const applied = await getAppliedVersions(projectId, containerType);
+
+  const statuses: MigrationStatus[] = files.map(file => {
+    const record = applied.get(`${file.kind}:${file.version}`);
+    applied.delete(`${file.kind}:${file.version}`);
+    return {
+      version: file.version,
+      kind: file.kind,
+      path: file.path,
+      state: !record ? "pending" : record.checksum === file.checksum ? "applied" : "changed",
+      appliedAt: record?.appliedAt,
+    };
+  });
+
+  for (const [key, record] of applied) {
+    const [kind, ...version] = key.split(":");
+    statuses.push({
+      version: version.join(":"),
+      kind: kind as MigrationKind,
+      state: "missing",
+      appliedAt: record.appliedAt,
+    });
+  }
+
+  return statuses;
+}
+
+/**
+ * Apply pending migrations, and seeds if requested
+ * Stops at the first failure; migrations applied before it stay applied.
+ */
+export async function applyMigrations(
+  projectId: string,
+  options: { containerType?: MigrationContainerType; seed?: boolean } = {}
+): Promise<MigrationRunResult> {
+  const containerType = options.containerType || "postgres";
+  const files = await findMigrationFiles(projectId);
+  const applied = await getAppliedVersions(projectId, containerType);
+  const pending = files.filter(file =>
+    !applied.has(`${file.kind}:${file.version}`) && (file.kind === "migration" || options.seed)
+  );
+
+  const result: MigrationRunResult = { applied: [] };
+
+  for (const file of pending) {
+    if (isSimulationMode()) {
+      console.log(`[Docker Simulation] Applied ${file.kind} ${file.version} to ${containerType}`);
+    } else {
+      // The newline ends any trailing line comment before the tracking insert
+      try {
+        await run(projectId, containerType,
+          `${file.sql}\n;\n` +
+          `INSERT INTO ${TRACKING_TABLE} (kind, version, checksum) ` +
+          `VALUES (${quoteSqlLiteral(file.kind)}, ${quoteSqlLiteral(file.version)}, ${quoteSqlLiteral(file.checksum)})`
+        );
+      } catch (error) {
+        result.failed = {
+          version: file.version,
+          kind: file.kind,
+          error: error instanceof Error ? error.message : String(error),
+        };
+        break;
+      }
+    }
+
+    result.applied.push({
+      version: file.version,
+      kind: file.kind,
+      path: file.path,
+      state: "applied",
+      appliedAt: Date.now(),
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,497 @@
+/**
+ * Docker Health Monitor
+ *
+ * Background supervisor for provisioned containers. Each running container
+ * is checked on its configured health check interval; status changes are
+ * recorded as health events and a container is restarted after `retries`
+ * consecutive failed checks. Idle projects are put to sleep on the same timer,
+ * and running containers are sampled for CPU, memory, network and disk usage;
+ * a memory alert is raised when a container stays near its memory limit.
+ *
+ * Every server instance starts the monitor, but a poll only runs on the
+ * instance holding the monitor lease, so containers are not checked and
+ * restarted several times over.
+ */
+
+import { randomUUID } from "crypto";
+import { getUserSubscription } from "@/lib/db/supabase";
+import {
+  Container,
+  ContainerMetrics,
+  ContainerStatus,
+  CONTAINER_CONFIGS,
+  FleetUsage,
+  HealthEvent,
+  HealthSummary,
+  MetricsSummary,
+  ProjectContainers,
+  TIER_LIMITS,
+} from "./types";
+import { ContainerStats, getDockerClient } from "./client";
+import { isSimulationMode, sleepIdleProjects } from "./manager";
+import {
+  acquireLease,
+  countHealthEvents,
+  getStatusBefore,
+  listHealthEvents,
+  listLatestMetrics,
+  listMetrics,
+  listProjects,
+  pruneMetrics,
+  recordHealthEvent,
+  recordMetrics,
+  releaseLease,
+  saveContainerHealth,
+  updateContainerStatus,
+} from "./store";
+
+// Containers without a configured health check are only checked for being up
+const DEFAULT_CHECK_INTERVAL = 30; // seconds
+const DEFAULT_CHECK_TIMEOUT = 5; // seconds
+const DEFAULT_RETRIES = 3;
+
+const MONITOR_TICK_MS = 5000;
+const IDLE_SWEEP_INTERVAL_MS = 60 * 1000;
+const UPTIME_WINDOW_MS = 24 * 60 * 60 * 1000;
+const RECENT_FAILURE_LIMIT = 10;
+
+// Only the instance holding this lease polls; it lapses if that instance dies
+const MONITOR_LEASE = "health-monitor";
+const MONITOR_LEASE_MS = 60 * 1000;
+
+const METRICS_INTERVAL_MS = 60 * 1000;
+const METRICS_RETENTION_MS = 24 * 60 * 60 * 1000;
+const METRICS_WINDOW_MS = 60 * 60 * 1000; // series returned with container status
+const METRICS_TIMEOUT_MS = 10 * 1000;
+// Consecutive samples above the tier threshold before a memory alert is raised
+const MEMORY_ALERT_SAMPLES = 3;
+// Samples older than this are left out of fleet usage (the container has stopped)
+const FLEET_SAMPLE_MAX_AGE_MS = 3 * METRICS_INTERVAL_MS;
+
+// Statuses the monitor checks; others are transitional or owned by the manager
+const MONITORED_STATUSES: ContainerStatus[] = ["running", "creating", "stopped", "error"];
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let polling = false;
+let lastIdleSweep = 0;
+let lastMetricsSweep = 0;
+
+// Identifies this server instance as a lease holder
+const instanceId = randomUUID();
+
+// Consecutive samples above the memory alert threshold, by Container.id
+const memoryStreaks = new Map<string, number>();
+
+interface CheckResult {
+  status: ContainerStatus;
+  healthy: boolean;
+  reason?: string;
+}
+
+/**
+ * Reject if a promise does not settle within a time limit
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string = "Health check"): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms);
+    promise.then(
+      value => {
+        clearTimeout(timeout);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timeout);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Inspect a container and run its health check command
+ */
+async function runHealthCheck(container: Container, containerId: string): Promise<CheckResult> {
+  const client = getDockerClient();
+  const healthCheck = CONTAINER_CONFIGS[container.type].healthCheck;
+
+  try {
+    const info = await client.inspectContainer(containerId);
+    if (!info.State.Running) {
+      return {
+        status: "stopped",
+        healthy: false,
+        reason: `Container exited with code ${info.State.ExitCode}`,
+      };
+    }
+
+    if (!healthCheck) {
+      return { status: "running", healthy: true };
+    }
+
+    const timeoutMs = (healthCheck.timeout || DEFAULT_CHECK_TIMEOUT) * 1000;
+    const result = await withTimeout(
+      client.exec(containerId, ["sh", "-c", healthCheck.command]),
+      timeoutMs
+    );
+    if (result.exitCode !== 0) {
+      return {
+        status: "error",
+        healthy: false,
+        reason: (result.stderr || result.stdout).trim() || `Health check exited with code ${result.exitCode}`,
+      };
+    }
+
+    return { status: "running", healthy: true };
+  } catch (error) {
+    return {
+      status: "error",
+      healthy: false,
+      reason: error instanceof Error ? error.message : "Health check failed",
+    };
+  }
+}
+
+/**
+ * Check one container, updating its status and restarting it if it keeps failing
+ */
+export async function checkContainer(container: Container): Promise<ContainerStatus> {
+  if (!container.containerId) {
+    return container.status;
+  }
+
+  const result = await runHealthCheck(container, container.containerId);
+  container.failureCount = result.healthy ? 0 : (container.failureCount ?? 0) + 1;
+  container.error = result.healthy ? undefined : result.reason;
+  await updateContainerStatus(container, result.status, result.reason);
+
+  const retries = CONTAINER_CONFIGS[container.type].healthCheck?.retries ?? DEFAULT_RETRIES;
+  if (container.failureCount >= retries) {
+    const reason = `Restarted after ${container.failureCount} failed health checks`;
+    try {
+      await getDockerClient().restartContainer(container.containerId);
+      await recordHealthEvent({
+        containerId: container.id,
+        kind: "restart",
+        from: container.status,
+        to: "creating",
+        reason,
+        at: Date.now(),
+      });
+      container.status = "creating";
+      container.failureCount = 0;
+      await saveContainerHealth(container);
+    } catch (error) {
+      console.error(`Failed to restart container ${container.name}:`, error);
+    }
+  }
+
+  return container.status;
+}
+
+/**
+ * Check every monitored container whose interval has elapsed
+ */
+export async function pollContainers(now: number = Date.now()): Promise<void> {
+  if (polling) {
+    return;
+  }
+  polling = true;
+
+  try {
+    if (!(await acquireLease(MONITOR_LEASE, instanceId, MONITOR_LEASE_MS))) {
+      return;
+    }
+
+    for (const project of await listProjects()) {
+      for (const container of project.containers) {
+        if (!container.containerId || !MONITORED_STATUSES.includes(container.status)) {
+          continue;
+        }
+
+        const interval = CONTAINER_CONFIGS[container.type].healthCheck?.interval ?? DEFAULT_CHECK_INTERVAL;
+        if (now - (container.lastHealthCheck ?? 0) < interval * 1000) {
+          continue;
+        }
+
+        await checkContainer(container);
+      }
+    }
+
+    if (now - lastIdleSweep >= IDLE_SWEEP_INTERVAL_MS) {
+      lastIdleSweep = now;
+      await sleepIdleProjects(now);
+    }
+
+    if (now - lastMetricsSweep >= METRICS_INTERVAL_MS) {
+      lastMetricsSweep = now;
+      await collectMetrics(now);
+    }
+  } catch (error) {
+    console.error("Container health poll failed:", error);
+  } finally {
+    polling = false;
+  }
+}
+
+/**
+ * Convert a Docker stats sample to ContainerMetrics
+ * CPU and memory follow `docker stats`: CPU is the container's share of
+ * system CPU time since the previous reading, and memory excludes the
+ * inactive page cache.
+ */
+function toContainerMetrics(containerId: string, stats: ContainerStats, at: number): ContainerMetrics {
+  const cpuDelta = stats.cpu_stats.cpu_usage.total_usage - stats.precpu_stats.cpu_usage.total_usage;
+  const systemDelta = (stats.cpu_stats.system_cpu_usage ?? 0) - (stats.precpu_stats.system_cpu_usage ?? 0);
+  const onlineCpus = stats.cpu_stats.online_cpus || 1;
+
+  const memory = stats.memory_stats;
+  const inactiveFile = memory.stats?.inactive_file ?? memory.stats?.total_inactive_file ?? 0;
+
+  const networks = Object.values(stats.networks || {});
+  const io = stats.blkio_stats?.io_service_bytes_recursive || [];
+  const ioBytes = (op: string) => io
+    .filter(entry => entry.op.toLowerCase() === op)
+    .reduce((sum, entry) => sum + entry.value, 0);
+
+  return {
+    containerId,
+    cpuPercent: cpuDelta > 0 && systemDelta > 0 ? (cpuDelta / systemDelta) * onlineCpus * 100 : 0,
+    memoryBytes: Math.max(0, (memory.usage ?? 0) - inactiveFile),
+    memoryLimitBytes: memory.limit ?? 0,
+    networkRxBytes: networks.reduce((sum, n) => sum + n.rx_bytes, 0),
+    networkTxBytes: networks.reduce((sum, n) => sum + n.tx_bytes, 0),
+    diskReadBytes: ioBytes("read"),
+    diskWriteBytes: ioBytes("write"),
+    at,
+  };
+}
+
+/**
+ * Format a byte count as MiB or GiB
+ */
+function formatBytes(bytes: number): string {
+  const gib = bytes / (1024 * 1024 * 1024);
+  return gib >= 1 ? `${gib.toFixed(1)} GiB` : `${Math.round(bytes / (1024 * 1024))} MiB`;
+}
+
+/**
+ * Track a container's memory against its tier threshold, raising an alert
+ * once it has stayed above it for MEMORY_ALERT_SAMPLES samples in a row
+ * The alert is raised again only after usage has dropped below the threshold.
+ */
+async function checkMemoryAlert(container: Container, metrics: ContainerMetrics, threshold: number): Promise<void> {
+  if (threshold <= 0 || metrics.memoryLimitBytes <= 0) {
+    memoryStreaks.delete(container.id);
+    return;
+  }
+
+  const usage = metrics.memoryBytes / metrics.memoryLimitBytes;
+  if (usage < threshold) {
+    memoryStreaks.delete(container.id);
+    return;
+  }
+
+  const streak = (memoryStreaks.get(container.id) ?? 0) + 1;
+  memoryStreaks.set(container.id, streak);
+  if (streak !== MEMORY_ALERT_SAMPLES) {
+    return;
+  }
+
+  const reason = `Memory at ${Math.round(usage * 100)}% of its ${formatBytes(metrics.memoryLimitBytes)} limit`;
+  console.warn(`Container ${container.name}: ${reason}`);
+  await recordHealthEvent({
+    containerId: container.id,
+    kind: "memory_alert",
+    from: container.status,
+    to: container.status,
+    reason,
+    at: metrics.at,
+  });
+}
+
+/**
+ * Sample resource usage of a project's running containers
+ */
+async function collectProjectMetrics(project: ProjectContainers, threshold: number, now: number): Promise<void> {
+  const client = getDockerClient();
+
+  for (const container of project.containers) {
+    if (!container.containerId || container.status !== "running") {
+      memoryStreaks.delete(container.id);
+      continue;
+    }
+
+    try {
+      const stats = await withTimeout(client.stats(container.containerId), METRICS_TIMEOUT_MS, "Stats request");
+      const metrics = toContainerMetrics(container.id, stats, now);
+      await recordMetrics(metrics);
+      await checkMemoryAlert(container, metrics, threshold);
+    } catch (error) {
+      console.error(`Failed to collect metrics for container ${container.name}:`, error);
+    }
+  }
+}
+
+/**
+ * Sample every running container and drop samples past retention
+ */
+export async function collectMetrics(now: number = Date.now()): Promise<void> {
+  const tiers = new Map<string, string>();
+
+  for (const project of await listProjects()) {
+    if (!project.containers.some(c => c.status === "running")) {
+      project.containers.forEach(c => memoryStreaks.delete(c.id));
+      continue;
+    }
+
+    if (!tiers.has(project.userId)) {
+      const subscription = await getUserSubscription(project.userId);
+      tiers.set(project.userId, subscription?.tier || "free");
+    }
+    const limits = TIER_LIMITS[tiers.get(project.userId)!] || TIER_LIMITS.free;
+
+    await collectProjectMetrics(project, limits.memoryAlertThreshold, now);
+  }
+
+  await pruneMetrics(now - METRICS_RETENTION_MS);
+}
+
+/**
+ * Start the background health monitor (no-op in simulation mode or if already running)
+ */
+export function startHealthMonitor(): void {
+  if (timer || isSimulationMode()) {
+    return;
+  }
+
+  timer = setInterval(() => {
+    void pollContainers();
+  }, MONITOR_TICK_MS);
+  // Do not keep the process alive just for health checks
+  timer.unref?.();
+}
+
+/**
+ * Stop the background health monitor
+ */
+export function stopHealthMonitor(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+    releaseLease(MONITOR_LEASE, instanceId).catch(error => {
+      console.error("Failed to release the health monitor lease:", error);
+    });
+  }
+}
+
+/**
+ * Summarize uptime and recent failures for containers over the last day
+ */
+export async function getHealthSummaries(
+  containers: Container[],
+  now: number = Date.now()
+): Promise<Record<string, HealthSummary>> {
+  const since = now - UPTIME_WINDOW_MS;
+  const events = await listHealthEvents(containers.map(c => c.id), since);
+  const summaries: Record<string, HealthSummary> = {};
+
+  for (const container of containers) {
+    const windowStart = Math.max(since, container.createdAt);
+    const own = events.filter(e => e.containerId === container.id);
+    const transitions = own.filter(e => e.kind === "transition");
+
+    // Status at the start of the window
+    let status: ContainerStatus =
+      (await getStatusBefore(container.id, windowStart)) ??
+      transitions[0]?.from ??
+      container.status;
+    let statusSince = windowStart;
+    let runningMs = 0;
+
+    for (const event of transitions) {
+      if (status === "running") {
+        runningMs += event.at - statusSince;
+      }
+      status = event.to;
+      statusSince = event.at;
+    }
+    if (status === "running") {
+      runningMs += now - statusSince;
+    }
+
+    const failures: HealthEvent[] = own
+      .filter(e => e.kind === "restart" || e.to === "error" || e.to === "stopped")
+      .reverse()
+      .slice(0, RECENT_FAILURE_LIMIT);
+
+    summaries[container.id] = {
+      uptime: now > windowStart ? Math.min(1, runningMs / (now - windowStart)) : 1,
+      windowStart,
+      restarts: own.filter(e => e.kind === "restart").length,
+      recentFailures: failures,
+    };
+  }
+
+  return summaries;
+}
+
+/**
+ * Resource usage over the last hour and memory alerts over the last day
+ */
+export async function getMetricsSummaries(
+  containers: Container[],
+  now: number = Date.now()
+): Promise<Record<string, MetricsSummary>> {
+  const ids = containers.map(c => c.id);
+  const metrics = await listMetrics(ids, now - METRICS_WINDOW_MS);
+  const alerts = (await listHealthEvents(ids, now - UPTIME_WINDOW_MS)).filter(e => e.kind === "memory_alert");
+  const summaries: Record<string, MetricsSummary> = {};
+
+  for (const container of containers) {
+    const series = metrics.filter(m => m.containerId === container.id);
+    summaries[container.id] = {
+      latest: series[series.length - 1] ?? null,
+      series,
+      memoryAlerts: alerts.filter(e => e.containerId === container.id).reverse(),
+    };
+  }
+
+  return summaries;
+}
+
+/**
+ * Fleet-wide resource usage from each running container's latest sample,
+ * with the number of memory alerts raised since a time
+ */
+export async function getFleetUsage(alertsSince: number, now: number = Date.now()): Promise<FleetUsage> {
+  const latest = await listLatestMetrics(now - FLEET_SAMPLE_MAX_AGE_MS);
+  const usage: FleetUsage = {
+    containers: latest.length,
+    cpuPercent: 0,
+    memoryBytes: 0,
+    memoryLimitBytes: 0,
+    networkRxBytes: 0,
+    networkTxBytes: 0,
+    diskReadBytes: 0,
+    diskWriteBytes: 0,
+    byType: {},
+    memoryAlerts: await countHealthEvents("memory_alert", alertsSince),
+  };
+
+  for (const metrics of latest) {
+    usage.cpuPercent += metrics.cpuPercent;
+    usage.memoryBytes += metrics.memoryBytes;
+    usage.memoryLimitBytes += metrics.memoryLimitBytes;
+    usage.networkRxBytes += metrics.networkRxBytes;
+    usage.networkTxBytes += metrics.networkTxBytes;
+    usage.diskReadBytes += metrics.diskReadBytes;
+    usage.diskWriteBytes += metrics.diskWriteBytes;
+
+    const byType = usage.byType[metrics.type] ??= { containers: 0, cpuPercent: 0, memoryBytes: 0 };
+    byType.containers++;
+    byType.cpuPercent += metrics.cpuPercent;
+    byType.memoryBytes += metrics.memoryBytes;
+  }
+
+  return usage;
+}
@@ -0,0 +1,252 @@
+/**
+ * Redis Commands and Replies
+ *
+ * Tokenizes redis-cli style command lines, checks commands against the
+ * subscription tier's allowlist and a denylist that applies to every tier,
+ * and encodes/decodes the RESP wire protocol so replies can be returned as
+ * typed JSON.
+ */
+
+import { RedisCommandGroup, TIER_LIMITS } from "./types";
+
+export type RedisReply = string | number | null | RedisReply[] | { error: string };
+
+// Never allowed: server administration, persistence, replication,
+// commands that block or hold the connection open, and scripts (which can
+// call any command through redis.call, including the ones listed here)
+const DENIED_COMMANDS = [
+  "FLUSHALL", "CONFIG", "DEBUG", "SHUTDOWN", "SAVE", "BGSAVE", "BGREWRITEAOF",
+  "REPLICAOF", "SLAVEOF", "SYNC", "PSYNC", "FAILOVER", "CLUSTER", "MODULE",
+  "ACL", "MONITOR", "MIGRATE", "RESTORE", "SWAPDB", "SELECT", "AUTH", "HELLO",
+  "QUIT", "RESET", "MULTI", "EXEC", "DISCARD", "WATCH",
+  "SUBSCRIBE", "PSUBSCRIBE", "SSUBSCRIBE", "BLPOP", "BRPOP", "BRPOPLPUSH",
+  "BLMOVE", "BLMPOP", "BZPOPMIN", "BZPOPMAX", "BZMPOP", "WAIT", "WAITAOF",
+  "EVAL", "EVALSHA", "EVAL_RO", "EVALSHA_RO", "FCALL", "FCALL_RO", "FUNCTION", "SCRIPT",
+];
+
+// Commands available to each group; tiers are granted groups in TIER_LIMITS
+const COMMAND_GROUPS: Record<RedisCommandGroup, string[]> = {
+  read: [
+    "PING", "ECHO", "DBSIZE", "EXISTS", "TYPE", "TTL", "PTTL", "EXPIRETIME", "KEYS", "SCAN", "RANDOMKEY",
+    "GET", "MGET", "STRLEN", "GETRANGE",
+    "HGET", "HMGET", "HGETALL", "HKEYS", "HVALS", "HLEN", "HEXISTS", "HSTRLEN", "HSCAN", "HRANDFIELD",
+    "LRANGE", "LLEN", "LINDEX", "LPOS",
+    "SMEMBERS", "SISMEMBER", "SMISMEMBER", "SCARD", "SSCAN", "SRANDMEMBER", "SINTER", "SINTERCARD", "SUNION", "SDIFF",
+    "ZRANGE", "ZRANGEBYSCORE", "ZRANGEBYLEX", "ZREVRANGE", "ZREVRANGEBYSCORE", "ZSCORE", "ZMSCORE",
+    "ZCARD", "ZCOUNT", "ZLEXCOUNT", "ZRANK", "ZREVRANK", "ZSCAN", "ZRANDMEMBER",
+    "PFCOUNT", "GETBIT", "BITCOUNT", "BITPOS", "GEOPOS", "GEODIST", "GEOHASH", "GEOSEARCH",
+  ],
+  write: [
+    "SET", "SETEX", "PSETEX", "SETNX", "MSET", "MSETNX", "GETSET", "GETDEL", "GETEX", "APPEND", "SETRANGE",
+    "INCR", "INCRBY", "INCRBYFLOAT", "DECR", "DECRBY",
+    "DEL", "UNLINK", "EXPIRE", "PEXPIRE", "EXPIREAT", "PEXPIREAT", "PERSIST", "RENAME", "RENAMENX", "COPY",
+    "HSET", "HSETNX", "HMSET", "HDEL", "HINCRBY", "HINCRBYFLOAT",
+    "LPUSH", "RPUSH", "LPUSHX", "RPUSHX", "LPOP", "RPOP", "LSET", "LREM", "LTRIM", "LINSERT", "LMOVE", "LMPOP",
+    "SADD", "SREM", "SPOP", "SMOVE", "SINTERSTORE", "SUNIONSTORE", "SDIFFSTORE",
+    "ZADD", "ZREM", "ZINCRBY", "ZPOPMIN", "ZPOPMAX", "ZMPOP", "ZREMRANGEBYSCORE", "ZREMRANGEBYRANK",
+    "ZREMRANGEBYLEX", "ZRANGESTORE", "ZUNIONSTORE", "ZINTERSTORE",
+    "PFADD", "PFMERGE", "SETBIT", "BITOP", "GEOADD", "GEOSEARCHSTORE",
+  ],
+  streams: [
+    "XADD", "XRANGE", "XREVRANGE", "XLEN", "XREAD", "XDEL", "XTRIM", "XGROUP", "XREADGROUP",
+    "XACK", "XPENDING", "XINFO", "XCLAIM", "XAUTOCLAIM", "XSETID",
+  ],
+  pubsub: ["PUBLISH", "SPUBLISH", "PUBSUB"],
+  admin: ["FLUSHDB", "INFO", "MEMORY", "OBJECT", "SLOWLOG", "LATENCY", "CLIENT", "TIME", "LASTSAVE"],
+};
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  b: "\b",
+  a: "\x07",
+};
+
+/**
+ * Raised when a command line cannot be tokenized or is not allowed
+ */
+export class RedisCommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RedisCommandError";
+  }
+}
+
+/**
+ * Split a command line into arguments the way redis-cli does
+ * Double-quoted values support \n, \r, \t, \b, \a, \xHH and escaped
+ * quotes; single-quoted values are literal apart from \'.
+ */
+export function tokenizeRedisCommand(line: string): string[] {
+  const args: string[] = [];
+  let i = 0;
+
+  while (i < line.length) {
+    if (/\s/.test(line[i])) {
+      i++;
+      continue;
+    }
+
+    let arg = "";
+    const quote = line[i] === "\"" || line[i] === "'" ? line[i] : null;
+
+    if (!quote) {
+      while (i < line.length && !/\s/.test(line[i])) {
+        arg += line[i++];
+      }
+      args.push(arg);
+      continue;
+    }
+
+    i++;
+    let closed = false;
+    while (i < line.length) {
+      const char = line[i];
+
+      if (char === quote) {
+        closed = true;
+        i++;
+        break;
+      }
+
+      if (char === "\\" && quote === "\"" && i + 1 < line.length) {
+        const next = line[i + 1];
+        const hex = /^x([0-9a-fA-F]{2})/.exec(line.slice(i + 1));
+        if (hex) {
+          arg += String.fromCharCode(parseInt(hex[1], 16));
+          i += 4;
+        } else {
+          arg += SIMPLE_ESCAPES[next] ?? next;
+          i += 2;
+        }
+        continue;
+      }
+
+      if (char === "\\" && quote === "'" && line[i + 1] === "'") {
+        arg += "'";
+        i += 2;
+        continue;
+      }
+
+      arg += char;
+      i++;
+    }
+
+    if (!closed) {
+      throw new RedisCommandError("Unbalanced quotes in command");
+    }
+    if (i < line.length && !/\s/.test(line[i])) {
+      throw new RedisCommandError("Closing quote must be followed by a space");
+    }
+    args.push(arg);
+  }
+
+  return args;
+}
+
+/**
+ * Check a tokenized command against the denylist and the tier's allowlist
+ * Throws a RedisCommandError describing why the command is not allowed.
+ */
+export function checkRedisCommand(args: string[], tier: string): void {
+  if (args.length === 0) {
+    throw new RedisCommandError("Command is required");
+  }
+
+  const name = args[0].toUpperCase();
+  if (DENIED_COMMANDS.includes(name)) {
+    throw new RedisCommandError(`${name} is not allowed`);
+  }
+
+  // XREAD/XREADGROUP only block when asked to
+  if ((name === "XREAD" || name === "XREADGROUP") && args.some(a => a.toUpperCase() === "BLOCK")) {
+    throw new RedisCommandError(`${name} with BLOCK is not allowed`);
+  }
+
+  const groups = (TIER_LIMITS[tier] || TIER_LIMITS.free).redisCommands;
+  if (!groups.some(group => COMMAND_GROUPS[group].includes(name))) {
+    const known = Object.values(COMMAND_GROUPS).some(commands => commands.includes(name));
+    throw new RedisCommandError(
+      known ? `${name} is not available on the ${tier} plan` : `${name} is not a supported command`
+    );
+  }
+}
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+export function encodeRespCommand(args: string[]): string {
+  return `*${args.length}\r\n` +
+    args.map(arg => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join("");
+}
+
+/**
+ * Parse the first RESP reply in a buffer
+ * Handles RESP2 simple strings, errors, integers, bulk strings and arrays
+ * (including nil bulk strings and arrays).
+ */
+export function parseRespReply(data: Buffer): RedisReply {
+  return parseRespReplies(data, 1)[0];
+}
+
+/**
+ * Parse the first `count` RESP replies in a buffer, in order
+ */
+export function parseRespReplies(data: Buffer, count: number): RedisReply[] {
+  let pos = 0;
+
+  const readLine = (): string => {
+    const end = data.indexOf("\r\n", pos);
+    if (end === -1) {
+      throw new RedisCommandError("Incomplete reply from Redis");
+    }
+    const line = data.toString("utf8", pos, end);
+    pos = end + 2;
+    return line;
+  };
+
+  const readReply = (): RedisReply => {
+    if (pos >= data.length) {
+      throw new RedisCommandError("Incomplete reply from Redis");
+    }
+    const type = String.fromCharCode(data[pos++]);
+    const line = readLine();
+
+    switch (type) {
+      case "+":
+        return line;
+      case "-":
+        return { error: line };
+      case ":":
+        return Number(line);
+      case "$": {
+        const length = parseInt(line, 10);
+        if (length < 0) return null;
+        if (pos + length > data.length) {
+          throw new RedisCommandError("Incomplete reply from Redis");
+        }
+        const value = data.toString("utf8", pos, pos + length);
+        pos += length + 2;
+        return value;
+      }
+      case "*": {
+        const count = parseInt(line, 10);
+        if (count < 0) return null;
+        const items: RedisReply[] = [];
+        for (let i = 0; i < count; i++) {
+          items.push(readReply());
+        }
+        return items;
+      }
+      default:
+        throw new RedisCommandError(`Unexpected reply type "${type}" from Redis`);
+    }
+  };
+
+  const replies: RedisReply[] = [];
+  for (let i = 0; i < count; i++) {
+    replies.push(readReply());
+  }
+  return replies;
+}
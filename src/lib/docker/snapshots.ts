@@ -0,0 +1,208 @@
+/**
+ * Database Snapshots
+ *
+ * pg_dump snapshots of a project's postgres/pgvector containers, taken
+ * before risky changes and restored on request. Dumps are plain SQL files
+ * kept inside the database container; their metadata is stored in the
+ * database and the oldest are pruned beyond the tier's retention limit.
+ */
+
+import { randomUUID } from "crypto";
+import { Container, Snapshot, TIER_LIMITS } from "./types";
+import { getDockerClient } from "./client";
+import { isSimulationMode, wakeProject } from "./manager";
+import {
+  deleteSnapshots,
+  findSnapshotByName,
+  insertSnapshot,
+  listSnapshots,
+  loadProject,
+  loadSnapshot,
+} from "./store";
+
+export type SnapshotContainerType = Snapshot["containerType"];
+
+export type SnapshotErrorCode = "not_found" | "not_allowed" | "conflict" | "invalid" | "failed";
+
+/**
+ * Raised when a snapshot cannot be created, restored or deleted
+ */
+export class SnapshotError extends Error {
+  code: SnapshotErrorCode;
+
+  constructor(code: SnapshotErrorCode, message: string) {
+    super(message);
+    this.name = "SnapshotError";
+    this.code = code;
+  }
+}
+
+const SNAPSHOT_DIR = "/var/lib/evolvo/snapshots";
+const SNAPSHOT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+const DATABASE_NAMES: Record<SnapshotContainerType, string> = {
+  postgres: "app",
+  pgvector: "vectors",
+};
+
+/**
+ * Find a project's database container, waking it if it is asleep
+ */
+async function getDatabaseContainer(
+  projectId: string,
+  containerType: SnapshotContainerType
+): Promise<Container & { containerId: string }> {
+  const project = await loadProject(projectId);
+  const container = project?.containers.find(c => c.type === containerType);
+  if (!container || !container.containerId) {
+    throw new SnapshotError("not_found", `${containerType} container not found`);
+  }
+  if (container.status === "sleeping" && !(await wakeProject(projectId))) {
+    throw new SnapshotError("failed", `${containerType} container failed to wake`);
+  }
+  return container as Container & { containerId: string };
+}
+
+/**
+ * Run a command in a container, throwing a SnapshotError if it fails
+ */
+async function run(containerId: string, cmd: string[]): Promise<string> {
+  const result = await getDockerClient().exec(containerId, cmd);
+  if (result.exitCode !== 0) {
+    throw new SnapshotError("failed", result.stderr.trim() || `${cmd[0]} exited with code ${result.exitCode}`);
+  }
+  return result.stdout.trim();
+}
+
+/**
+ * Remove dump files from a container (missing files are ignored)
+ */
+async function removeDumps(projectId: string, snapshots: Snapshot[]): Promise<void> {
+  if (isSimulationMode() || snapshots.length === 0) {
+    return;
+  }
+
+  const project = await loadProject(projectId);
+  for (const type of Object.keys(DATABASE_NAMES) as SnapshotContainerType[]) {
+    const paths = snapshots.filter(s => s.containerType === type).map(s => s.path);
+    const container = project?.containers.find(c => c.type === type);
+    if (paths.length === 0 || !container?.containerId) continue;
+
+    try {
+      await run(container.containerId, ["rm", "-f", ...paths]);
+    } catch (error) {
+      console.error(`Failed to remove snapshot dumps for project ${projectId}:`, error);
+    }
+  }
+}
+
+/**
+ * List a project's snapshots, newest first
+ */
+export async function getProjectSnapshots(projectId: string): Promise<Snapshot[]> {
+  return listSnapshots(projectId);
+}
+
+/**
+ * Get a snapshot by ID
+ */
+export async function getSnapshot(id: string): Promise<Snapshot | null> {
+  return loadSnapshot(id);
+}
+
+/**
+ * Snapshot a database container with pg_dump
+ * Snapshots beyond the tier's retention limit are deleted, oldest first.
+ */
+export async function createSnapshot(
+  projectId: string,
+  options: { containerType?: SnapshotContainerType; name?: string; tier: string }
+): Promise<Snapshot> {
+  const containerType = options.containerType || "postgres";
+  const maxSnapshots = (TIER_LIMITS[options.tier] || TIER_LIMITS.free).maxSnapshots;
+  if (maxSnapshots <= 0) {
+    throw new SnapshotError("not_allowed", "Database snapshots require a Pro subscription or higher.");
+  }
+
+  const createdAt = Date.now();
+  const name = options.name?.trim() ||
+    `${containerType}-${new Date(createdAt).toISOString().replace(/[:.]/g, "-")}`;
+  if (!SNAPSHOT_NAME_PATTERN.test(name)) {
+    throw new SnapshotError("invalid", "Snapshot names may contain letters, numbers, '.', '_' and '-' (up to 64 characters)");
+  }
+  if (await findSnapshotByName(projectId, name)) {
+    throw new SnapshotError("conflict", `A snapshot named "${name}" already exists`);
+  }
+
+  const container = await getDatabaseContainer(projectId, containerType);
+  const id = randomUUID();
+  const snapshot: Snapshot = {
+    id,
+    projectId,
+    containerType,
+    name,
+    path: `${SNAPSHOT_DIR}/${id}.sql`,
+    sizeBytes: 0,
+    createdAt,
+  };
+
+  if (isSimulationMode()) {
+    console.log(`[Docker Simulation] Created snapshot ${name} of ${container.name}`);
+  } else {
+    await run(container.containerId, ["mkdir", "-p", SNAPSHOT_DIR]);
+    await run(container.containerId, [
+      "pg_dump", "-U", "evolvo", "-d", DATABASE_NAMES[containerType],
+      "--clean", "--if-exists", "--no-owner", "-f", snapshot.path,
+    ]);
+    snapshot.sizeBytes = parseInt(await run(container.containerId, ["stat", "-c", "%s", snapshot.path]), 10) || 0;
+  }
+
+  await insertSnapshot(snapshot);
+
+  // Apply retention
+  const expired = (await listSnapshots(projectId)).slice(maxSnapshots);
+  if (expired.length > 0) {
+    await removeDumps(projectId, expired);
+    await deleteSnapshots(expired.map(s => s.id));
+  }
+
+  return snapshot;
+}
+
+/**
+ * Restore a database container from a snapshot
+ * The dump drops and recreates the objects it contains; objects created
+ * after the snapshot are left in place.
+ */
+export async function restoreSnapshot(id: string): Promise<Snapshot> {
+  const snapshot = await loadSnapshot(id);
+  if (!snapshot) {
+    throw new SnapshotError("not_found", "Snapshot not found");
+  }
+
+  const container = await getDatabaseContainer(snapshot.projectId, snapshot.containerType);
+
+  if (isSimulationMode()) {
+    console.log(`[Docker Simulation] Restored snapshot ${snapshot.name} into ${container.name}`);
+  } else {
+    await run(container.containerId, [
+      "psql", "-U", "evolvo", "-d", DATABASE_NAMES[snapshot.containerType],
+      "-v", "ON_ERROR_STOP=1", "--single-transaction", "-q", "-f", snapshot.path,
+    ]);
+  }
+
+  return snapshot;
+}
+
+/**
+ * Delete a snapshot and its dump file
+ */
+export async function deleteSnapshot(id: string): Promise<void> {
+  const snapshot = await loadSnapshot(id);
+  if (!snapshot) {
+    throw new SnapshotError("not_found", "Snapshot not found");
+  }
+
+  await removeDumps(snapshot.projectId, [snapshot]);
+  await deleteSnapshots([snapshot.id]);
+}
@@ -0,0 +1,359 @@
+/**
+ * SQL Statements and Results
+ *
+ * Splits and classifies PostgreSQL statements so queries can run read-only
+ * unless the caller opts in to writes, and turns psql's CSV output into
+ * structured results (columns, rows, row count) with pagination.
+ */
+
+export type StatementKind = "read" | "write" | "ddl" | "other";
+
+export interface SqlStatement {
+  sql: string;
+  kind: StatementKind;
+  keyword: string; // leading keyword, uppercased
+}
+
+export type SqlValue = string | null;
+
+export interface SqlResult {
+  command: string; // leading keyword of the statement that produced the result
+  columns: string[];
+  rows: SqlValue[][];
+  rowCount: number; // rows returned, or rows affected by a write
+  offset: number;
+  limit: number;
+  hasMore: boolean; // more rows exist beyond this page
+}
+
+export interface SqlExecOptions {
+  allowWrites?: boolean; // allow DML/DDL (default: read-only)
+  limit?: number; // page size, capped at MAX_SQL_ROWS
+  offset?: number;
+  timeoutMs?: number; // statement timeout, capped at MAX_STATEMENT_TIMEOUT_MS
+}
+
+export const DEFAULT_SQL_ROWS = 100;
+export const MAX_SQL_ROWS = 1000;
+export const DEFAULT_STATEMENT_TIMEOUT_MS = 15000;
+export const MAX_STATEMENT_TIMEOUT_MS = 60000;
+
+// Printed by psql in place of NULL so it can be told apart from ''
+export const SQL_NULL_MARKER = "\\N";
+
+// Echoed by psql before the output of the last statement in a script
+export const SQL_RESULT_MARKER = "--evolvo-result--";
+
+const READ_KEYWORDS = ["SELECT", "WITH", "VALUES", "TABLE", "SHOW", "EXPLAIN"];
+const DATA_MODIFYING_KEYWORDS = ["INSERT", "UPDATE", "DELETE", "MERGE"];
+const WRITE_KEYWORDS = [...DATA_MODIFYING_KEYWORDS, "COPY", "CALL", "DO"];
+const DDL_KEYWORDS = [
+  "CREATE", "ALTER", "DROP", "TRUNCATE", "GRANT", "REVOKE", "COMMENT",
+  "REINDEX", "VACUUM", "CLUSTER", "REFRESH", "SECURITY", "IMPORT",
+];
+
+// Statements that can be wrapped in a subquery for pagination
+const PAGEABLE_KEYWORDS = ["SELECT", "WITH", "VALUES", "TABLE"];
+
+// psql command tags, e.g. "INSERT 0 3", "UPDATE 2", "CREATE TABLE"
+const COMMAND_TAG_PATTERN = /^[A-Z]+(?: [A-Z]+)*(?: \d+){0,2}$/;
+
+/**
+ * Replace comments and quoted text with spaces, keeping statement
+ * boundaries and keywords in place
+ */
+function maskSql(sql: string): string {
+  let masked = "";
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    // -- line comment
+    if (char === "-" && next === "-") {
+      const end = sql.indexOf("\n", i);
+      const stop = end === -1 ? sql.length : end;
+      masked += " ".repeat(stop - i);
+      i = stop;
+      continue;
+    }
+
+    // /* block comment */ (nestable in PostgreSQL)
+    if (char === "/" && next === "*") {
+      let depth = 0;
+      let j = i;
+      while (j < sql.length) {
+        if (sql[j] === "/" && sql[j + 1] === "*") {
+          depth++;
+          j += 2;
+        } else if (sql[j] === "*" && sql[j + 1] === "/") {
+          depth--;
+          j += 2;
+          if (depth === 0) break;
+        } else {
+          j++;
+        }
+      }
+      masked += " ".repeat(j - i);
+      i = j;
+      continue;
+    }
+
+    // 'string' and "identifier" ('' and "" escape the quote)
+    if (char === "'" || char === "\"") {
+      let j = i + 1;
+      while (j < sql.length) {
+        if (sql[j] === char && sql[j + 1] === char) {
+          j += 2;
+        } else if (sql[j] === char) {
+          j++;
+          break;
+        } else {
+          j++;
+        }
+      }
+      masked += " ".repeat(j - i);
+      i = j;
+      continue;
+    }
+
+    // $tag$ dollar-quoted $tag$
+    if (char === "$") {
+      const tag = /^\$[A-Za-z_]?[A-Za-z0-9_]*\$/.exec(sql.slice(i));
+      if (tag && !/[A-Za-z0-9_]/.test(sql[i - 1] || "")) {
+        const end = sql.indexOf(tag[0], i + tag[0].length);
+        const stop = end === -1 ? sql.length : end + tag[0].length;
+        masked += " ".repeat(stop - i);
+        i = stop;
+        continue;
+      }
+    }
+
+    masked += char;
+    i++;
+  }
+
+  return masked;
+}
+
+/**
+ * Classify a single statement from its masked text
+ */
+function classifyMasked(masked: string): { kind: StatementKind; keyword: string } {
+  const words: string[] = masked.toUpperCase().match(/[A-Z_]+/g) || [];
+  const keyword = words[0] || "";
+
+  if (READ_KEYWORDS.includes(keyword)) {
+    // Data-modifying CTEs, SELECT ... FOR UPDATE and EXPLAIN of a write
+    if (words.some(w => DATA_MODIFYING_KEYWORDS.includes(w))) {
+      return { kind: "write", keyword };
+    }
+    // SELECT INTO creates a table
+    if (keyword === "SELECT" && words.includes("INTO")) {
+      return { kind: "ddl", keyword };
+    }
+    return { kind: "read", keyword };
+  }
+  if (WRITE_KEYWORDS.includes(keyword)) {
+    return { kind: "write", keyword };
+  }
+  if (DDL_KEYWORDS.includes(keyword)) {
+    return { kind: "ddl", keyword };
+  }
+  return { kind: "other", keyword };
+}
+
+/**
+ * Split SQL into classified statements, ignoring empty ones
+ */
+export function parseStatements(sql: string): SqlStatement[] {
+  const masked = maskSql(sql);
+  const statements: SqlStatement[] = [];
+  let start = 0;
+
+  for (let i = 0; i <= masked.length; i++) {
+    if (i < masked.length && masked[i] !== ";") continue;
+
+    const text = sql.slice(start, i).trim();
+    const maskedText = masked.slice(start, i);
+    start = i + 1;
+
+    if (!maskedText.trim()) continue;
+    statements.push({ sql: text, ...classifyMasked(maskedText) });
+  }
+
+  return statements;
+}
+
+/**
+ * Describe why statements cannot run, or null if they can
+ * Without allowWrites only read statements are accepted.
+ */
+export function checkStatements(statements: SqlStatement[], allowWrites: boolean): string | null {
+  if (statements.length === 0) {
+    return "No SQL statement to execute";
+  }
+  // psql would run these as meta-commands (\!, \copy, ...)
+  if (statements.some(s => s.sql.startsWith("\\"))) {
+    return "psql meta-commands are not allowed";
+  }
+  if (allowWrites) {
+    return null;
+  }
+
+  const blocked = statements.find(s => s.kind !== "read");
+  if (blocked) {
+    return `${blocked.keyword || "This"} statements are not allowed in read-only mode; pass allowWrites to run writes or schema changes`;
+  }
+  return null;
+}
+
+/**
+ * Quote a string as a SQL literal
+ */
+export function quoteSqlLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Clamp a page size to the row cap
+ */
+export function clampRowLimit(limit?: number): number {
+  if (!limit || !Number.isFinite(limit) || limit < 1) {
+    return DEFAULT_SQL_ROWS;
+  }
+  return Math.min(Math.floor(limit), MAX_SQL_ROWS);
+}
+
+/**
+ * Clamp a statement timeout to the allowed range
+ */
+export function clampStatementTimeout(timeoutMs?: number): number {
+  if (!timeoutMs || !Number.isFinite(timeoutMs) || timeoutMs < 1) {
+    return DEFAULT_STATEMENT_TIMEOUT_MS;
+  }
+  return Math.min(Math.floor(timeoutMs), MAX_STATEMENT_TIMEOUT_MS);
+}
+
+/**
+ * Check whether a statement can be paged by the database
+ * SHOW and EXPLAIN cannot be wrapped in a subquery.
+ */
+export function isPageableStatement(statement: SqlStatement): boolean {
+  return statement.kind === "read" && PAGEABLE_KEYWORDS.includes(statement.keyword);
+}
+
+/**
+ * Wrap a read statement so the database returns one page of rows
+ * One extra row is fetched to tell whether more rows exist.
+ */
+export function paginateStatement(statement: SqlStatement, limit: number, offset: number): string {
+  if (!isPageableStatement(statement)) {
+    return statement.sql;
+  }
+  return `SELECT * FROM (\n${statement.sql}\n) AS evolvo_page LIMIT ${limit + 1} OFFSET ${offset}`;
+}
+
+/**
+ * Parse CSV records (RFC 4180 quoting) into fields, keeping whether each
+ * field was quoted
+ */
+function parseCsvRecords(text: string): { value: string; quoted: boolean }[][] {
+  const records: { value: string; quoted: boolean }[][] = [];
+  let record: { value: string; quoted: boolean }[] = [];
+  let field = "";
+  let quoted = false;
+  let inQuotes = false;
+  let i = 0;
+
+  const endField = () => {
+    record.push({ value: field, quoted });
+    field = "";
+    quoted = false;
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === "\"" && text[i + 1] === "\"") {
+        field += "\"";
+        i += 2;
+        continue;
+      }
+      if (char === "\"") {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === "\"") {
+      inQuotes = true;
+      quoted = true;
+    } else if (char === ",") {
+      endField();
+    } else if (char === "\n" || char === "\r") {
+      endField();
+      records.push(record);
+      record = [];
+      if (char === "\r" && text[i + 1] === "\n") i++;
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (field || quoted || record.length > 0) {
+    endField();
+    records.push(record);
+  }
+
+  return records;
+}
+
+/**
+ * Build a result from psql --csv output for a single statement
+ * Writes without RETURNING print only a command tag ("INSERT 0 3"), which
+ * gives the affected row count; with RETURNING the tag follows the rows.
+ */
+export function parseCsvResult(
+  output: string,
+  statement: SqlStatement,
+  limit: number,
+  offset: number
+): SqlResult {
+  const records = parseCsvRecords(output.replace(/\n+$/, ""));
+
+  let affected: number | null = null;
+  const last = records[records.length - 1];
+  if (
+    statement.kind !== "read" &&
+    last?.length === 1 &&
+    !last[0].quoted &&
+    COMMAND_TAG_PATTERN.test(last[0].value)
+  ) {
+    records.pop();
+    const count = /(\d+)$/.exec(last[0].value);
+    affected = count ? parseInt(count[1], 10) : 0;
+  }
+
+  const [header = [], ...data] = records;
+  const rows = data.map(fields =>
+    fields.map(f => (!f.quoted && f.value === SQL_NULL_MARKER ? null : f.value))
+  );
+  const hasMore = rows.length > limit;
+
+  return {
+    command: statement.keyword,
+    columns: header.map(f => f.value),
+    rows: rows.slice(0, limit),
+    rowCount: affected ?? Math.min(rows.length, limit),
+    offset,
+    limit,
+    hasMore,
+  };
+}
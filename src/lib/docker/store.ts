@@ -0,0 +1,515 @@
+/**
+ * Docker State Store
+ *
+ * Prisma-backed persistence for provisioned projects, containers and
+ * host port leases, so state survives restarts and is shared between
+ * server instances.
+ */
+
+import prisma, { isUuid } from "@/lib/db/prisma";
+import { Prisma } from "@prisma/client";
+import {
+  Container,
+  ContainerMetrics,
+  ContainerStatus,
+  ContainerType,
+  HealthEvent,
+  ProjectContainers,
+  Snapshot,
+} from "./types";
+
+type ProjectRecord = Prisma.DockerProjectGetPayload<{ include: { containers: true } }>;
+type ContainerRecord = Prisma.DockerContainerGetPayload<object>;
+type SnapshotRecord = Prisma.DockerSnapshotGetPayload<object>;
+type MetricRecord = Prisma.DockerContainerMetricGetPayload<object>;
+
+// Host port range for container bindings
+const PORT_RANGE_START = 10000;
+const PORT_RANGE_END = 65000;
+
+/**
+ * Convert a Prisma container record to a Container
+ */
+function toContainer(record: ContainerRecord): Container {
+  return {
+    id: record.id,
+    projectId: record.projectId,
+    type: record.type as ContainerType,
+    containerId: record.containerId,
+    name: record.name,
+    status: record.status as ContainerStatus,
+    host: record.host,
+    port: record.port,
+    connectionString: record.connectionString ?? undefined,
+    createdAt: record.createdAt.getTime(),
+    lastHealthCheck: record.lastHealthCheck?.getTime(),
+    failureCount: record.failureCount,
+    error: record.error ?? undefined,
+  };
+}
+
+/**
+ * Convert a Prisma project record to ProjectContainers
+ */
+function toProject(record: ProjectRecord): ProjectContainers {
+  return {
+    projectId: record.projectId,
+    userId: record.userId,
+    networkId: record.networkId,
+    containers: record.containers
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(toContainer),
+    createdAt: record.createdAt.getTime(),
+    lastActivity: record.lastActivity.getTime(),
+  };
+}
+
+/**
+ * Column values for a container row
+ */
+function containerData(container: Container) {
+  return {
+    type: container.type,
+    containerId: container.containerId,
+    name: container.name,
+    status: container.status,
+    host: container.host,
+    port: container.port,
+    connectionString: container.connectionString ?? null,
+    error: container.error ?? null,
+    lastHealthCheck: container.lastHealthCheck ? new Date(container.lastHealthCheck) : null,
+    failureCount: container.failureCount ?? 0,
+  };
+}
+
+/**
+ * Load a project's containers
+ */
+export async function loadProject(projectId: string): Promise<ProjectContainers | null> {
+  const record = await prisma.dockerProject.findUnique({
+    where: { projectId },
+    include: { containers: true },
+  });
+
+  return record ? toProject(record) : null;
+}
+
+/**
+ * List stored projects, optionally for one user
+ */
+export async function listProjects(userId?: string): Promise<ProjectContainers[]> {
+  const records = await prisma.dockerProject.findMany({
+    where: userId ? { userId } : undefined,
+    include: { containers: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return records.map(toProject);
+}
+
+/**
+ * Insert or replace a project and its containers
+ */
+export async function saveProject(project: ProjectContainers): Promise<void> {
+  const ids = project.containers.map(c => c.id);
+
+  await prisma.$transaction([
+    prisma.dockerProject.upsert({
+      where: { projectId: project.projectId },
+      create: {
+        projectId: project.projectId,
+        userId: project.userId,
+        networkId: project.networkId,
+        createdAt: new Date(project.createdAt),
+        lastActivity: new Date(project.lastActivity),
+      },
+      update: {
+        networkId: project.networkId,
+        lastActivity: new Date(project.lastActivity),
+      },
+    }),
+    prisma.dockerContainer.deleteMany({
+      where: { projectId: project.projectId, id: { notIn: ids } },
+    }),
+    ...project.containers.map(container =>
+      prisma.dockerContainer.upsert({
+        where: { id: container.id },
+        create: {
+          id: container.id,
+          projectId: project.projectId,
+          createdAt: new Date(container.createdAt),
+          ...containerData(container),
+        },
+        update: containerData(container),
+      })
+    ),
+  ]);
+}
+
+/**
+ * Update a single container row
+ */
+export async function saveContainer(container: Container): Promise<void> {
+  await prisma.dockerContainer.update({
+    where: { id: container.id },
+    data: containerData(container),
+  });
+}
+
+/**
+ * Change a container's status, recording the transition when it differs
+ */
+export async function updateContainerStatus(
+  container: Container,
+  status: ContainerStatus,
+  reason?: string
+): Promise<void> {
+  if (container.status !== status) {
+    await recordHealthEvent({
+      containerId: container.id,
+      kind: "transition",
+      from: container.status,
+      to: status,
+      reason,
+      at: Date.now(),
+    });
+    container.status = status;
+  }
+  container.lastHealthCheck = Date.now();
+  await saveContainerHealth(container);
+}
+
+/**
+ * Save a container's status, error and health check fields
+ * Other columns are left alone, so a stale copy of the container cannot
+ * overwrite changes made since it was loaded. A container deleted in the
+ * meantime is skipped.
+ */
+export async function saveContainerHealth(container: Container): Promise<void> {
+  await prisma.dockerContainer.updateMany({
+    where: { id: container.id },
+    data: {
+      status: container.status,
+      error: container.error ?? null,
+      lastHealthCheck: container.lastHealthCheck ? new Date(container.lastHealthCheck) : null,
+      failureCount: container.failureCount ?? 0,
+    },
+  });
+}
+
+/**
+ * Record a container status transition or restart
+ */
+export async function recordHealthEvent(event: HealthEvent): Promise<void> {
+  await prisma.dockerHealthEvent.create({
+    data: {
+      containerId: event.containerId,
+      kind: event.kind,
+      fromStatus: event.from,
+      toStatus: event.to,
+      reason: event.reason ?? null,
+      createdAt: new Date(event.at),
+    },
+  });
+}
+
+/**
+ * List health events for containers since a time, oldest first
+ */
+export async function listHealthEvents(containerIds: string[], since: number): Promise<HealthEvent[]> {
+  const records = await prisma.dockerHealthEvent.findMany({
+    where: { containerId: { in: containerIds }, createdAt: { gte: new Date(since) } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return records.map(record => ({
+    containerId: record.containerId,
+    kind: record.kind as HealthEvent["kind"],
+    from: record.fromStatus as ContainerStatus,
+    to: record.toStatus as ContainerStatus,
+    reason: record.reason ?? undefined,
+    at: record.createdAt.getTime(),
+  }));
+}
+
+/**
+ * Status of a container just before a time, from the last event preceding it
+ */
+export async function getStatusBefore(containerId: string, at: number): Promise<ContainerStatus | null> {
+  const record = await prisma.dockerHealthEvent.findFirst({
+    where: { containerId, kind: "transition", createdAt: { lt: new Date(at) } },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return record ? (record.toStatus as ContainerStatus) : null;
+}
+
+/**
+ * Count health events of a kind since a time, across all containers
+ */
+export async function countHealthEvents(kind: HealthEvent["kind"], since: number): Promise<number> {
+  return prisma.dockerHealthEvent.count({
+    where: { kind, createdAt: { gte: new Date(since) } },
+  });
+}
+
+/**
+ * Convert a Prisma metric record to ContainerMetrics
+ */
+function toMetrics(record: MetricRecord): ContainerMetrics {
+  return {
+    containerId: record.containerId,
+    cpuPercent: record.cpuPercent,
+    memoryBytes: Number(record.memoryBytes),
+    memoryLimitBytes: Number(record.memoryLimitBytes),
+    networkRxBytes: Number(record.networkRxBytes),
+    networkTxBytes: Number(record.networkTxBytes),
+    diskReadBytes: Number(record.diskReadBytes),
+    diskWriteBytes: Number(record.diskWriteBytes),
+    at: record.createdAt.getTime(),
+  };
+}
+
+/**
+ * Record a resource usage sample
+ */
+export async function recordMetrics(metrics: ContainerMetrics): Promise<void> {
+  await prisma.dockerContainerMetric.create({
+    data: {
+      containerId: metrics.containerId,
+      cpuPercent: metrics.cpuPercent,
+      memoryBytes: BigInt(Math.round(metrics.memoryBytes)),
+      memoryLimitBytes: BigInt(Math.round(metrics.memoryLimitBytes)),
+      networkRxBytes: BigInt(Math.round(metrics.networkRxBytes)),
+      networkTxBytes: BigInt(Math.round(metrics.networkTxBytes)),
+      diskReadBytes: BigInt(Math.round(metrics.diskReadBytes)),
+      diskWriteBytes: BigInt(Math.round(metrics.diskWriteBytes)),
+      createdAt: new Date(metrics.at),
+    },
+  });
+}
+
+/**
+ * List resource usage samples for containers since a time, oldest first
+ */
+export async function listMetrics(containerIds: string[], since: number): Promise<ContainerMetrics[]> {
+  const records = await prisma.dockerContainerMetric.findMany({
+    where: { containerId: { in: containerIds }, createdAt: { gte: new Date(since) } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return records.map(toMetrics);
+}
+
+/**
+ * Latest sample of every container sampled since a time, with its container type
+ */
+export async function listLatestMetrics(since: number): Promise<Array<ContainerMetrics & { type: ContainerType }>> {
+  const records = await prisma.dockerContainerMetric.findMany({
+    where: { createdAt: { gte: new Date(since) } },
+    distinct: ["containerId"],
+    orderBy: [{ containerId: "asc" }, { createdAt: "desc" }],
+    include: { container: { select: { type: true } } },
+  });
+
+  return records.map(record => ({ ...toMetrics(record), type: record.container.type as ContainerType }));
+}
+
+/**
+ * Delete resource usage samples older than a time
+ */
+export async function pruneMetrics(before: number): Promise<number> {
+  const result = await prisma.dockerContainerMetric.deleteMany({
+    where: { createdAt: { lt: new Date(before) } },
+  });
+  return result.count;
+}
+
+/**
+ * Record project activity
+ */
+export async function touchProject(projectId: string, at: number = Date.now()): Promise<void> {
+  await prisma.dockerProject.updateMany({
+    where: { projectId },
+    data: { lastActivity: new Date(at) },
+  });
+}
+
+/**
+ * Delete a project, its containers and its port leases
+ */
+export async function deleteProject(projectId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.dockerProject.deleteMany({ where: { projectId } }),
+    prisma.dockerPortLease.deleteMany({ where: { projectId } }),
+  ]);
+}
+
+/**
+ * Convert a Prisma snapshot record to a Snapshot
+ */
+function toSnapshot(record: SnapshotRecord): Snapshot {
+  return {
+    id: record.id,
+    projectId: record.projectId,
+    containerType: record.containerType as Snapshot["containerType"],
+    name: record.name,
+    path: record.path,
+    sizeBytes: Number(record.sizeBytes),
+    createdAt: record.createdAt.getTime(),
+  };
+}
+
+/**
+ * List a project's snapshots, newest first
+ */
+export async function listSnapshots(projectId: string): Promise<Snapshot[]> {
+  const records = await prisma.dockerSnapshot.findMany({
+    where: { projectId },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return records.map(toSnapshot);
+}
+
+/**
+ * Load a snapshot by ID
+ */
+export async function loadSnapshot(id: string): Promise<Snapshot | null> {
+  if (!isUuid(id)) {
+    return null;
+  }
+
+  const record = await prisma.dockerSnapshot.findUnique({ where: { id } });
+  return record ? toSnapshot(record) : null;
+}
+
+/**
+ * Find a project's snapshot by name
+ */
+export async function findSnapshotByName(projectId: string, name: string): Promise<Snapshot | null> {
+  const record = await prisma.dockerSnapshot.findUnique({
+    where: { projectId_name: { projectId, name } },
+  });
+  return record ? toSnapshot(record) : null;
+}
+
+/**
+ * Record a snapshot
+ */
+export async function insertSnapshot(snapshot: Snapshot): Promise<void> {
+  await prisma.dockerSnapshot.create({
+    data: {
+      id: snapshot.id,
+      projectId: snapshot.projectId,
+      containerType: snapshot.containerType,
+      name: snapshot.name,
+      path: snapshot.path,
+      sizeBytes: BigInt(snapshot.sizeBytes),
+      createdAt: new Date(snapshot.createdAt),
+    },
+  });
+}
+
+/**
+ * Delete snapshot records by ID
+ */
+export async function deleteSnapshots(ids: string[]): Promise<void> {
+  await prisma.dockerSnapshot.deleteMany({ where: { id: { in: ids } } });
+}
+
+/**
+ * Delete every snapshot record of a project
+ */
+export async function deleteProjectSnapshots(projectId: string): Promise<number> {
+  const result = await prisma.dockerSnapshot.deleteMany({ where: { projectId } });
+  return result.count;
+}
+
+/**
+ * Lease the lowest free host port for a project
+ * The port is the primary key, so a concurrent lease of the same port fails
+ * and the next free port is tried.
+ */
+export async function leasePort(projectId: string): Promise<number> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const leased = await prisma.dockerPortLease.findMany({
+      select: { port: true },
+      orderBy: { port: "asc" },
+    });
+
+    let port = PORT_RANGE_START;
+    for (const lease of leased) {
+      if (lease.port > port) break;
+      if (lease.port === port) port++;
+    }
+
+    if (port > PORT_RANGE_END) {
+      throw new Error("No free host ports available");
+    }
+
+    try {
+      await prisma.dockerPortLease.create({ data: { port, projectId } });
+      return port;
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002")) {
+        throw error;
+      }
+    }
+  }
+
+  throw new Error("Could not lease a host port");
+}
+
+/**
+ * Record an existing port binding as leased (used when adopting containers)
+ */
+export async function claimPort(projectId: string, port: number): Promise<void> {
+  await prisma.dockerPortLease.upsert({
+    where: { port },
+    create: { port, projectId },
+    update: { projectId },
+  });
+}
+
+/**
+ * Release a host port lease
+ */
+export async function releasePort(port: number): Promise<void> {
+  await prisma.dockerPortLease.deleteMany({ where: { port } });
+}
+
+/**
+ * Take or renew a named lease for a holder
+ * Succeeds when the lease is free, expired or already held by the holder.
+ */
+export async function acquireLease(name: string, holder: string, ttlMs: number): Promise<boolean> {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + ttlMs);
+
+  const { count } = await prisma.dockerLease.updateMany({
+    where: { name, OR: [{ holder }, { expiresAt: { lt: now } }] },
+    data: { holder, expiresAt },
+  });
+  if (count > 0) {
+    return true;
+  }
+
+  try {
+    await prisma.dockerLease.create({ data: { name, holder, expiresAt } });
+    return true;
+  } catch (error) {
+    // Held by another instance
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Give up a lease if the holder still has it
+ */
+export async function releaseLease(name: string, holder: string): Promise<void> {
+  await prisma.dockerLease.deleteMany({ where: { name, holder } });
+}
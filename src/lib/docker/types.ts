@@ -4,7 +4,7 @@
  * Types for Docker container management and cloud service provisioning.
  */
 
-export type ContainerType = "postgres" | "redis" | "pgvector" | "app";
+export type ContainerType = "postgres" | "redis" | "pgvector" | "mysql" | "mongodb" | "app";
 
 export type ContainerStatus = 
   | "pending" 
@@ -12,7 +12,8 @@ export type ContainerStatus =
   | "running" 
   | "stopped" 
   | "error" 
-  | "removing";
+  | "removing"
+  | "sleeping"; // stopped after inactivity, woken on next use
 
 export interface ContainerConfig {
   type: ContainerType;
@@ -21,7 +22,9 @@ export interface ContainerConfig {
   port: number;
   internalPort: number;
   env: Record<string, string>;
-  volumes?: string[];
+  passwordEnv?: string[]; // env vars set to the generated project password
+  command?: string[]; // replaces the image's default command
+  volumes?: string[]; // data directories (declared as volumes by the images)
   healthCheck?: {
     command: string;
     interval: number;
@@ -46,9 +49,75 @@ export interface Container {
   connectionString?: string;
   createdAt: number;
   lastHealthCheck?: number;
+  failureCount?: number; // consecutive failed health checks
   error?: string;
 }
 
+export interface LogLine {
+  stream: "stdout" | "stderr";
+  message: string;
+  timestamp?: number;
+}
+
+export interface Snapshot {
+  id: string;
+  projectId: string;
+  containerType: "postgres" | "pgvector";
+  name: string;
+  path: string; // dump file inside the container
+  sizeBytes: number;
+  createdAt: number;
+}
+
+export interface HealthEvent {
+  containerId: string; // Container.id
+  kind: "transition" | "restart" | "memory_alert";
+  from: ContainerStatus;
+  to: ContainerStatus;
+  reason?: string;
+  at: number;
+}
+
+// Resource usage sample recorded by the health monitor
+export interface ContainerMetrics {
+  containerId: string; // Container.id
+  cpuPercent: number; // of one CPU, so 150 is one and a half cores
+  memoryBytes: number;
+  memoryLimitBytes: number;
+  networkRxBytes: number; // cumulative since the container started
+  networkTxBytes: number;
+  diskReadBytes: number; // cumulative since the container started
+  diskWriteBytes: number;
+  at: number;
+}
+
+// Fleet-wide resource usage from each container's latest sample
+export interface FleetUsage {
+  containers: number; // containers with a recent sample
+  cpuPercent: number;
+  memoryBytes: number;
+  memoryLimitBytes: number;
+  networkRxBytes: number;
+  networkTxBytes: number;
+  diskReadBytes: number;
+  diskWriteBytes: number;
+  byType: Record<string, { containers: number; cpuPercent: number; memoryBytes: number }>;
+  memoryAlerts: number; // memory alerts raised in the requested period
+}
+
+export interface MetricsSummary {
+  latest: ContainerMetrics | null;
+  series: ContainerMetrics[]; // oldest first
+  memoryAlerts: HealthEvent[]; // newest first
+}
+
+export interface HealthSummary {
+  uptime: number; // fraction of the window spent running, 0 to 1
+  windowStart: number;
+  restarts: number;
+  recentFailures: HealthEvent[]; // newest first
+}
+
 export interface ProjectContainers {
   projectId: string;
   userId: string;
@@ -75,8 +144,16 @@ export interface ConnectionStrings {
   postgres?: string;
   redis?: string;
   pgvector?: string;
+  mysql?: string;
+  mongodb?: string;
+  app?: string; // URL of the running app
 }
 
+// Redis reads its password from the data volume, where credential rotation
+// writes it, falling back to the password it was provisioned with
+export const REDIS_PASSWORD_FILE = "/data/.evolvo-password";
+const REDIS_PASSWORD_SH = `$(cat ${REDIS_PASSWORD_FILE} 2>/dev/null || printf %s "$REDIS_PASSWORD")`;
+
 // Default container configurations
 export const CONTAINER_CONFIGS: Record<ContainerType, ContainerConfig> = {
   postgres: {
@@ -90,12 +167,14 @@ export const CONTAINER_CONFIGS: Record<ContainerType, ContainerConfig> = {
       POSTGRES_PASSWORD: "", // Generated per project
       POSTGRES_DB: "app",
     },
+    passwordEnv: ["POSTGRES_PASSWORD"],
     healthCheck: {
       command: "pg_isready -U evolvo -d app",
       interval: 10,
       timeout: 5,
       retries: 5,
     },
+    volumes: ["/var/lib/postgresql/data"],
     resources: {
       cpuLimit: "0.5",
       memoryLimit: "512m",
@@ -107,13 +186,19 @@ export const CONTAINER_CONFIGS: Record<ContainerType, ContainerConfig> = {
     tag: "7-alpine",
     port: 6379,
     internalPort: 6379,
-    env: {},
+    env: {
+      REDIS_PASSWORD: "", // Generated per project
+    },
+    passwordEnv: ["REDIS_PASSWORD"],
+    // Keeps the image entrypoint, which drops root before starting the server
+    command: ["sh", "-c", `exec docker-entrypoint.sh redis-server --requirepass "${REDIS_PASSWORD_SH}"`],
     healthCheck: {
-      command: "redis-cli ping",
+      command: `REDISCLI_AUTH="${REDIS_PASSWORD_SH}" redis-cli --no-auth-warning ping | grep -q PONG`,
       interval: 10,
       timeout: 5,
       retries: 5,
     },
+    volumes: ["/data"],
     resources: {
       cpuLimit: "0.25",
       memoryLimit: "256m",
@@ -130,12 +215,63 @@ export const CONTAINER_CONFIGS: Record<ContainerType, ContainerConfig> = {
       POSTGRES_PASSWORD: "", // Generated per project
       POSTGRES_DB: "vectors",
     },
+    passwordEnv: ["POSTGRES_PASSWORD"],
     healthCheck: {
       command: "pg_isready -U evolvo -d vectors",
       interval: 10,
       timeout: 5,
       retries: 5,
     },
+    volumes: ["/var/lib/postgresql/data"],
+    resources: {
+      cpuLimit: "0.5",
+      memoryLimit: "512m",
+    },
+  },
+  mysql: {
+    type: "mysql",
+    image: "mysql",
+    tag: "8.4",
+    port: 3306,
+    internalPort: 3306,
+    env: {
+      MYSQL_USER: "evolvo",
+      MYSQL_PASSWORD: "", // Generated per project
+      MYSQL_ROOT_PASSWORD: "", // Generated per project
+      MYSQL_DATABASE: "app",
+    },
+    passwordEnv: ["MYSQL_PASSWORD", "MYSQL_ROOT_PASSWORD"],
+    healthCheck: {
+      command: "MYSQL_PWD=\"$MYSQL_PASSWORD\" mysqladmin ping -h 127.0.0.1 -u evolvo --silent",
+      interval: 10,
+      timeout: 5,
+      retries: 5,
+    },
+    volumes: ["/var/lib/mysql"],
+    resources: {
+      cpuLimit: "0.5",
+      memoryLimit: "512m",
+    },
+  },
+  mongodb: {
+    type: "mongodb",
+    image: "mongo",
+    tag: "7",
+    port: 27017,
+    internalPort: 27017,
+    env: {
+      MONGO_INITDB_ROOT_USERNAME: "evolvo",
+      MONGO_INITDB_ROOT_PASSWORD: "", // Generated per project
+      MONGO_INITDB_DATABASE: "app",
+    },
+    passwordEnv: ["MONGO_INITDB_ROOT_PASSWORD"],
+    healthCheck: {
+      command: "mongosh --quiet --eval \"db.adminCommand('ping').ok\"",
+      interval: 10,
+      timeout: 5,
+      retries: 5,
+    },
+    volumes: ["/data/db"],
     resources: {
       cpuLimit: "0.5",
       memoryLimit: "512m",
@@ -157,6 +293,9 @@ export const CONTAINER_CONFIGS: Record<ContainerType, ContainerConfig> = {
   },
 };
 
+// Groups of Redis commands a tier may run through the exec API
+export type RedisCommandGroup = "read" | "write" | "streams" | "pubsub" | "admin";
+
 // Resource limits per subscription tier
 export const TIER_LIMITS: Record<string, {
   maxContainers: number;
@@ -164,6 +303,11 @@ export const TIER_LIMITS: Record<string, {
   cpuLimit: string;
   memoryLimit: string;
   inactivityTimeout: number; // hours
+  maxSnapshots: number; // per project; the oldest are pruned beyond this
+  sleepTimeout: number; // minutes idle before containers are stopped (0 = never)
+  services: ContainerType[]; // container types the tier may provision
+  redisCommands: RedisCommandGroup[];
+  memoryAlertThreshold: number; // fraction of a container's memory limit that raises an alert (0 = never)
 }> = {
   free: {
     maxContainers: 0, // No Docker access
@@ -171,6 +315,11 @@ export const TIER_LIMITS: Record<string, {
     cpuLimit: "0",
     memoryLimit: "0",
     inactivityTimeout: 0,
+    maxSnapshots: 0,
+    sleepTimeout: 0,
+    services: [],
+    redisCommands: [],
+    memoryAlertThreshold: 0,
   },
   pro: {
     maxContainers: 3,
@@ -178,6 +327,11 @@ export const TIER_LIMITS: Record<string, {
     cpuLimit: "2",
     memoryLimit: "2g",
     inactivityTimeout: 24,
+    maxSnapshots: 5,
+    sleepTimeout: 30,
+    services: ["postgres", "redis", "pgvector", "mysql", "app"],
+    redisCommands: ["read", "write"],
+    memoryAlertThreshold: 0.9,
   },
   team: {
     maxContainers: 5,
@@ -185,6 +339,11 @@ export const TIER_LIMITS: Record<string, {
     cpuLimit: "4",
     memoryLimit: "4g",
     inactivityTimeout: 72,
+    maxSnapshots: 20,
+    sleepTimeout: 60,
+    services: ["postgres", "redis", "pgvector", "mysql", "mongodb", "app"],
+    redisCommands: ["read", "write", "streams", "pubsub"],
+    memoryAlertThreshold: 0.9,
   },
   enterprise: {
     maxContainers: 10,
@@ -192,5 +351,10 @@ export const TIER_LIMITS: Record<string, {
     cpuLimit: "8",
     memoryLimit: "8g",
     inactivityTimeout: 168, // 1 week
+    maxSnapshots: 100,
+    sleepTimeout: 240,
+    services: ["postgres", "redis", "pgvector", "mysql", "mongodb", "app"],
+    redisCommands: ["read", "write", "streams", "pubsub", "admin"],
+    memoryAlertThreshold: 0.85,
   },
 };
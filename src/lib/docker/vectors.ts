@@ -0,0 +1,279 @@
+/**
+ * Vector Collections
+ *
+ * A small collection API over a project's pgvector container so generated
+ * apps can store embeddings and run similarity search without hand-written
+ * SQL. Each collection is a table of (id, embedding, metadata) with an HNSW
+ * index for its default metric; collections are listed in a catalog table.
+ */
+
+import { executeSql } from "./manager";
+import { MAX_STATEMENT_TIMEOUT_MS, quoteSqlLiteral, SqlResult } from "./sql";
+
+export type VectorMetric = "cosine" | "l2";
+
+export const VECTOR_METRICS: VectorMetric[] = ["cosine", "l2"];
+
+export interface VectorCollection {
+  name: string;
+  dimensions: number;
+  metric: VectorMetric; // default metric, used for the index
+  createdAt: number;
+}
+
+export interface VectorItem {
+  id: string;
+  vector: number[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface VectorMatch {
+  id: string;
+  distance: number;
+  score: number; // cosine similarity for cosine, 1 / (1 + distance) for l2
+  metadata: Record<string, unknown>;
+}
+
+export type VectorErrorCode = "not_found" | "conflict" | "invalid" | "failed";
+
+/**
+ * Raised when a collection operation is invalid or fails
+ */
+export class VectorError extends Error {
+  code: VectorErrorCode;
+
+  constructor(code: VectorErrorCode, message: string) {
+    super(message);
+    this.name = "VectorError";
+    this.code = code;
+  }
+}
+
+const CATALOG_TABLE = "evolvo_vector_collections";
+const COLLECTION_NAME_PATTERN = /^[a-z][a-z0-9_]{0,47}$/;
+const MAX_DIMENSIONS = 2000; // HNSW index limit
+const MAX_UPSERT_ITEMS = 500;
+const MAX_TOP_K = 100;
+const DEFAULT_TOP_K = 10;
+
+const DISTANCE_OPERATORS: Record<VectorMetric, string> = {
+  cosine: "<=>",
+  l2: "<->",
+};
+
+const INDEX_OPERATOR_CLASSES: Record<VectorMetric, string> = {
+  cosine: "vector_cosine_ops",
+  l2: "vector_l2_ops",
+};
+
+/**
+ * Table holding a collection's vectors
+ */
+function tableName(name: string): string {
+  return `evolvo_vec_${name}`;
+}
+
+/**
+ * Format a vector as a pgvector literal
+ */
+function toVectorLiteral(vector: number[]): string {
+  return `'[${vector.join(",")}]'::vector`;
+}
+
+/**
+ * Run SQL in the project's pgvector container, throwing a VectorError if it fails
+ */
+async function run(projectId: string, sql: string, allowWrites: boolean = false): Promise<SqlResult> {
+  const result = await executeSql(projectId, sql, "pgvector", {
+    allowWrites,
+    limit: MAX_TOP_K,
+    timeoutMs: MAX_STATEMENT_TIMEOUT_MS,
+  });
+  if (!result.success || !result.result) {
+    throw new VectorError("failed", result.error || "pgvector query failed");
+  }
+  return result.result;
+}
+
+/**
+ * Read collections from the catalog, creating the extension and catalog
+ * table first if needed
+ */
+async function readCatalog(projectId: string, name?: string): Promise<VectorCollection[]> {
+  const result = await run(projectId,
+    `CREATE EXTENSION IF NOT EXISTS vector; ` +
+    `CREATE TABLE IF NOT EXISTS ${CATALOG_TABLE} (` +
+    `name TEXT PRIMARY KEY, dimensions INTEGER NOT NULL, metric TEXT NOT NULL, ` +
+    `created_at TIMESTAMPTZ NOT NULL DEFAULT now()); ` +
+    `SELECT name, dimensions, metric, extract(epoch FROM created_at) * 1000 FROM ${CATALOG_TABLE} ` +
+    `${name ? `WHERE name = ${quoteSqlLiteral(name)} ` : ""}ORDER BY name`,
+    true
+  );
+  return result.rows.map(([collectionName, dimensions, metric, createdAt]) => ({
+    name: collectionName || "",
+    dimensions: Number(dimensions),
+    metric: metric as VectorMetric,
+    createdAt: Math.round(Number(createdAt)),
+  }));
+}
+
+/**
+ * Check that a vector has the collection's dimensions and finite values
+ */
+function validateVector(vector: unknown, dimensions: number, label: string): number[] {
+  if (!Array.isArray(vector) || vector.length !== dimensions) {
+    throw new VectorError("invalid", `${label} must be an array of ${dimensions} numbers`);
+  }
+  if (!vector.every(v => typeof v === "number" && Number.isFinite(v))) {
+    throw new VectorError("invalid", `${label} must contain only finite numbers`);
+  }
+  return vector as number[];
+}
+
+/**
+ * List a project's collections
+ */
+export async function listCollections(projectId: string): Promise<VectorCollection[]> {
+  return readCatalog(projectId);
+}
+
+/**
+ * Get a collection by name
+ * Throws a VectorError if it does not exist.
+ */
+export async function getCollection(projectId: string, name: string): Promise<VectorCollection> {
+  const [collection] = await readCatalog(projectId, name);
+  if (!collection) {
+    throw new VectorError("not_found", `Collection "${name}" not found`);
+  }
+  return collection;
+}
+
+/**
+ * Create a collection with a fixed dimension
+ */
+export async function createCollection(
+  projectId: string,
+  options: { name: string; dimensions: number; metric?: VectorMetric }
+): Promise<VectorCollection> {
+  const { name, dimensions } = options;
+  const metric = options.metric || "cosine";
+
+  if (!COLLECTION_NAME_PATTERN.test(name)) {
+    throw new VectorError("invalid", "Collection names must start with a letter and contain only lowercase letters, numbers and '_' (up to 48 characters)");
+  }
+  if (!Number.isInteger(dimensions) || dimensions < 1 || dimensions > MAX_DIMENSIONS) {
+    throw new VectorError("invalid", `dimensions must be an integer from 1 to ${MAX_DIMENSIONS}`);
+  }
+  if (!VECTOR_METRICS.includes(metric)) {
+    throw new VectorError("invalid", "metric must be cosine or l2");
+  }
+
+  if ((await readCatalog(projectId, name)).length > 0) {
+    throw new VectorError("conflict", `Collection "${name}" already exists`);
+  }
+
+  const table = tableName(name);
+  await run(projectId,
+    `CREATE TABLE ${table} (` +
+    `id TEXT PRIMARY KEY, embedding vector(${dimensions}) NOT NULL, ` +
+    `metadata JSONB NOT NULL DEFAULT '{}', updated_at TIMESTAMPTZ NOT NULL DEFAULT now()); ` +
+    `CREATE INDEX ${table}_embedding_idx ON ${table} USING hnsw (embedding ${INDEX_OPERATOR_CLASSES[metric]}); ` +
+    `INSERT INTO ${CATALOG_TABLE} (name, dimensions, metric) ` +
+    `VALUES (${quoteSqlLiteral(name)}, ${dimensions}, ${quoteSqlLiteral(metric)})`,
+    true
+  );
+
+  return getCollection(projectId, name);
+}
+
+/**
+ * Delete a collection and its vectors
+ */
+export async function deleteCollection(projectId: string, name: string): Promise<void> {
+  await getCollection(projectId, name);
+  await run(projectId,
+    `DROP TABLE IF EXISTS ${tableName(name)}; ` +
+    `DELETE FROM ${CATALOG_TABLE} WHERE name = ${quoteSqlLiteral(name)}`,
+    true
+  );
+}
+
+/**
+ * Insert vectors, replacing any with the same IDs
+ */
+export async function upsertVectors(projectId: string, name: string, items: VectorItem[]): Promise<number> {
+  const collection = await getCollection(projectId, name);
+
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new VectorError("invalid", "items must be a non-empty array");
+  }
+  if (items.length > MAX_UPSERT_ITEMS) {
+    throw new VectorError("invalid", `At most ${MAX_UPSERT_ITEMS} items can be upserted at once`);
+  }
+
+  const values = items.map((item, i) => {
+    if (typeof item?.id !== "string" || !item.id) {
+      throw new VectorError("invalid", `items[${i}].id must be a non-empty string`);
+    }
+    const vector = validateVector(item.vector, collection.dimensions, `items[${i}].vector`);
+    const metadata = item.metadata ?? {};
+    if (typeof metadata !== "object" || Array.isArray(metadata)) {
+      throw new VectorError("invalid", `items[${i}].metadata must be an object`);
+    }
+    return `(${quoteSqlLiteral(item.id)}, ${toVectorLiteral(vector)}, ${quoteSqlLiteral(JSON.stringify(metadata))}::jsonb)`;
+  });
+
+  const result = await run(projectId,
+    `INSERT INTO ${tableName(name)} (id, embedding, metadata) VALUES ${values.join(", ")} ` +
+    `ON CONFLICT (id) DO UPDATE SET embedding = EXCLUDED.embedding, metadata = EXCLUDED.metadata, updated_at = now()`,
+    true
+  );
+  return result.rowCount;
+}
+
+/**
+ * Find the vectors nearest to a query vector
+ * filter matches items whose metadata contains the given keys and values.
+ */
+export async function queryVectors(
+  projectId: string,
+  name: string,
+  options: { vector: number[]; topK?: number; metric?: VectorMetric; filter?: Record<string, unknown> }
+): Promise<VectorMatch[]> {
+  const collection = await getCollection(projectId, name);
+  const vector = validateVector(options.vector, collection.dimensions, "vector");
+  const metric = options.metric || collection.metric;
+
+  if (options.topK != null && (typeof options.topK !== "number" || !Number.isFinite(options.topK))) {
+    throw new VectorError("invalid", "topK must be a number");
+  }
+  const topK = Math.min(Math.max(Math.floor(options.topK || DEFAULT_TOP_K), 1), MAX_TOP_K);
+
+  if (!VECTOR_METRICS.includes(metric)) {
+    throw new VectorError("invalid", "metric must be cosine or l2");
+  }
+  if (options.filter !== undefined && (typeof options.filter !== "object" || Array.isArray(options.filter))) {
+    throw new VectorError("invalid", "filter must be an object");
+  }
+
+  const where = options.filter && Object.keys(options.filter).length > 0
+    ? `WHERE metadata @> ${quoteSqlLiteral(JSON.stringify(options.filter))}::jsonb `
+    : "";
+  const distance = `embedding ${DISTANCE_OPERATORS[metric]} ${toVectorLiteral(vector)}`;
+
+  const result = await run(projectId,
+    `SELECT id, ${distance} AS distance, metadata::text FROM ${tableName(name)} ` +
+    `${where}ORDER BY distance LIMIT ${topK}`
+  );
+
+  return result.rows.map(([id, rawDistance, metadata]) => {
+    const value = Number(rawDistance);
+    return {
+      id: id || "",
+      distance: value,
+      score: metric === "cosine" ? 1 - value : 1 / (1 + value),
+      metadata: metadata ? JSON.parse(metadata) : {},
+    };
+  });
+}
@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Session } from "next-auth";
+import { getProject, getUserByEmail } from "@/lib/db/supabase";
+import { checkServerModeAccess, DEFAULT_MAX_ITERATIONS, resolveMaxIterations } from "../server-mode";
+
+vi.mock("@/lib/db/supabase", () => ({
+  getUserByEmail: vi.fn(),
+  getProject: vi.fn(),
+}));
+
+const session = { user: { email: "dev@example.com" }, expires: "" } as Session;
+
+beforeEach(() => {
+  vi.mocked(getUserByEmail).mockReset().mockResolvedValue({ id: "u1" } as Awaited<ReturnType<typeof getUserByEmail>>);
+  vi.mocked(getProject).mockReset().mockResolvedValue({ id: "p1", user_id: "u1" } as Awaited<ReturnType<typeof getProject>>);
+});
+
+afterEach(() => {
+  delete process.env.SANDBOX_MAX_ITERATIONS;
+});
+
+describe("resolveMaxIterations", () => {
+  it("uses the requested cap up to the server-wide limit", () => {
+    process.env.SANDBOX_MAX_ITERATIONS = "20";
+    expect(resolveMaxIterations(5.7)).toBe(5);
+    expect(resolveMaxIterations(50)).toBe(20);
+    expect(resolveMaxIterations(0)).toBe(20);
+  });
+
+  it("falls back to the default limit", () => {
+    expect(resolveMaxIterations()).toBe(DEFAULT_MAX_ITERATIONS);
+    expect(resolveMaxIterations(Infinity)).toBe(DEFAULT_MAX_ITERATIONS);
+  });
+});
+
+describe("checkServerModeAccess", () => {
+  it("allows the project's owner", async () => {
+    expect(await checkServerModeAccess(session, "p1")).toBeNull();
+  });
+
+  it("requires a session and a project ID", async () => {
+    expect(await checkServerModeAccess(null, "p1")).toEqual({ error: "Not authenticated", status: 401 });
+    expect(await checkServerModeAccess(session, undefined)).toMatchObject({ status: 400 });
+  });
+
+  it("hides projects the user does not own", async () => {
+    vi.mocked(getProject).mockResolvedValue({ id: "p1", user_id: "u2" } as Awaited<ReturnType<typeof getProject>>);
+    expect(await checkServerModeAccess(session, "p1")).toEqual({ error: "Project not found", status: 404 });
+  });
+});
@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { deleteProjectFile, getProjectFiles, saveProjectFile } from "@/lib/db/supabase";
+import { executeServerTool } from "../tool-executor";
+
+vi.mock("@/lib/db/supabase", () => ({
+  getProjectFiles: vi.fn(),
+  saveProjectFile: vi.fn(),
+  deleteProjectFile: vi.fn(),
+}));
+
+vi.mock("@/lib/docker", () => ({
+  applyMigrations: vi.fn(),
+  createCollection: vi.fn(),
+  executeSql: vi.fn(),
+  getMigrationStatus: vi.fn(),
+  queryVectors: vi.fn(),
+  upsertVectors: vi.fn(),
+}));
+
+beforeEach(() => {
+  vi.mocked(getProjectFiles).mockReset().mockResolvedValue([
+    { path: "src/index.ts", content: "export {};" },
+  ] as Awaited<ReturnType<typeof getProjectFiles>>);
+  vi.mocked(saveProjectFile).mockReset();
+  vi.mocked(deleteProjectFile).mockReset();
+});
+
+describe("executeServerTool", () => {
+  it.each(["./src/index.ts", "/src/index.ts", "  //src/index.ts "])("normalizes %j to the stored path", async path => {
+    const result = await executeServerTool("p1", "t1", "read_file", { path });
+    expect(result).toEqual({ toolUseId: "t1", name: "read_file", result: "export {};", isError: false });
+  });
+
+  it("writes and deletes files at the normalized path", async () => {
+    await executeServerTool("p1", "t1", "write_file", { path: "./src/app.ts", content: "ok" });
+    await executeServerTool("p1", "t2", "delete_file", { path: "/src/index.ts" });
+
+    expect(saveProjectFile).toHaveBeenCalledWith("p1", "src/app.ts", "ok");
+    expect(deleteProjectFile).toHaveBeenCalledWith("p1", "src/index.ts");
+  });
+
+  it("rejects file tools without a path", async () => {
+    const result = await executeServerTool("p1", "t1", "write_file", { path: " ./ ", content: "ok" });
+    expect(result).toMatchObject({ isError: true, result: "Error: A non-empty 'path' is required" });
+    expect(saveProjectFile).not.toHaveBeenCalled();
+  });
+
+  it("refuses tools that only run in the browser sandbox", async () => {
+    const result = await executeServerTool("p1", "t1", "run_command", { command: "ls" });
+    expect(result).toEqual({
+      toolUseId: "t1",
+      name: "run_command",
+      result: "Error: Tool run_command cannot be executed on the server",
+      isError: true,
+    });
+  });
+
+  it("reports missing files", async () => {
+    const read = await executeServerTool("p1", "t1", "read_file", { path: "src/missing.ts" });
+    const deleted = await executeServerTool("p1", "t2", "delete_file", { path: "./src/missing.ts" });
+
+    expect(read).toMatchObject({ isError: true, result: "Error: File not found: src/missing.ts" });
+    expect(deleted).toMatchObject({ isError: true, result: "Error: File not found: src/missing.ts" });
+    expect(deleteProjectFile).not.toHaveBeenCalled();
+  });
+
+  it("returns storage failures as tool errors", async () => {
+    vi.mocked(saveProjectFile).mockRejectedValue(new Error("connection lost"));
+    const result = await executeServerTool("p1", "t1", "write_file", { path: "a.ts", content: "" });
+    expect(result).toMatchObject({ isError: true, result: "Error: connection lost" });
+  });
+});
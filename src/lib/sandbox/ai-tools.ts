@@ -125,6 +125,147 @@ export const SANDBOX_TOOLS: Anthropic.Tool[] = [
     }
   },
 
+  // === DATABASE OPERATIONS ===
+  {
+    name: "run_sql",
+    description: "Run SQL against the project's PostgreSQL or pgvector container. Runs read-only unless allowWrites is true. Returns JSON with columns, rows and rowCount; rows are paged with limit and offset (max 1000 per page).",
+    input_schema: {
+      type: "object",
+      properties: {
+        sql: {
+          type: "string",
+          description: "The SQL to run. Multiple statements run in one transaction; rows are returned for the last one."
+        },
+        containerType: {
+          type: "string",
+          enum: ["postgres", "pgvector"],
+          description: "Which database container to query (default: postgres)"
+        },
+        allowWrites: {
+          type: "boolean",
+          description: "Allow INSERT/UPDATE/DELETE and schema changes (default: false)"
+        },
+        limit: {
+          type: "number",
+          description: "Maximum rows to return (default: 100)"
+        },
+        offset: {
+          type: "number",
+          description: "Rows to skip, for paging through large results"
+        }
+      },
+      required: ["sql"]
+    }
+  },
+
+  {
+    name: "run_migrations",
+    description: "Apply or check SQL migrations from the project's files (migrations/*.sql, db/migrations/*.sql, supabase/migrations/*.sql, prisma/migrations/<version>/migration.sql) against its database container. Seeds (seeds/*.sql, prisma/seed.sql) are applied only when seed is true. Applied versions are tracked, so each file runs once.",
+    input_schema: {
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["up", "status"],
+          description: "'up' applies pending migrations, 'status' lists applied and pending ones"
+        },
+        containerType: {
+          type: "string",
+          enum: ["postgres", "pgvector"],
+          description: "Which database container to migrate (default: postgres)"
+        },
+        seed: {
+          type: "boolean",
+          description: "Also apply pending seed files (default: false)"
+        }
+      },
+      required: ["action"]
+    }
+  },
+
+  {
+    name: "create_vector_collection",
+    description: "Create a vector collection in the project's pgvector container for storing embeddings with metadata. Use this when building RAG or semantic search features.",
+    input_schema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Collection name: lowercase letters, numbers and underscores, starting with a letter"
+        },
+        dimensions: {
+          type: "number",
+          description: "Embedding dimensions (e.g. 1536 for text-embedding-3-small)"
+        },
+        metric: {
+          type: "string",
+          enum: ["cosine", "l2"],
+          description: "Default distance metric, used for the index (default: cosine)"
+        }
+      },
+      required: ["name", "dimensions"]
+    }
+  },
+  {
+    name: "upsert_vectors",
+    description: "Insert or replace vectors in a collection. Items with an existing ID are overwritten.",
+    input_schema: {
+      type: "object",
+      properties: {
+        collection: {
+          type: "string",
+          description: "The collection name"
+        },
+        items: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              id: { type: "string" },
+              vector: { type: "array", items: { type: "number" } },
+              metadata: { type: "object" }
+            },
+            required: ["id", "vector"]
+          },
+          description: "Vectors to upsert (up to 500), each with an ID and optional metadata"
+        }
+      },
+      required: ["collection", "items"]
+    }
+  },
+  {
+    name: "query_vectors",
+    description: "Find the top-k vectors in a collection nearest to a query vector, optionally filtered by metadata.",
+    input_schema: {
+      type: "object",
+      properties: {
+        collection: {
+          type: "string",
+          description: "The collection name"
+        },
+        vector: {
+          type: "array",
+          items: { type: "number" },
+          description: "The query vector"
+        },
+        topK: {
+          type: "number",
+          description: "Number of matches to return (default: 10, max: 100)"
+        },
+        metric: {
+          type: "string",
+          enum: ["cosine", "l2"],
+          description: "Distance metric (default: the collection's metric)"
+        },
+        filter: {
+          type: "object",
+          description: "Only match items whose metadata contains these keys and values"
+        }
+      },
+      required: ["collection", "vector"]
+    }
+  },
+
   // === BELIEF MEMORY OPERATIONS ===
   {
     name: "store_belief",
@@ -414,6 +555,9 @@ You have access to Docker cloud services for Pro and Enterprise users. These pro
 - If a free user requests these, explain that it's a premium feature
 - After provisioning, the connection string is available
 - You can run SQL with \`run_sql\` and Redis commands with \`run_redis_command\`
+- \`run_sql\` is read-only by default; set allowWrites only for schema changes and data writes the user asked for
+- Write schema changes as migration files (e.g. migrations/001_init.sql) and apply them with \`run_migrations\` instead of running DDL directly
+- For embeddings, use \`create_vector_collection\`, \`upsert_vectors\` and \`query_vectors\` rather than hand-writing pgvector SQL
 - Always set up the connection string as an environment variable
 
 **Example Flow:**
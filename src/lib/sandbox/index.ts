@@ -4,3 +4,6 @@
 
 export * from "./types";
 export * from "./ai-tools";
+export * from "./tool-executor";
+export * from "./model-selection";
+export * from "./server-mode";
@@ -0,0 +1,48 @@
+/**
+ * Sandbox Model Selection
+ * 
+ * Resolves the model requested by the sandbox chat routes against the
+ * AI_MODELS registry and the user's subscription tier.
+ */
+
+import { AIModel, getModel, canUseModel } from "@/lib/ai/models";
+import { type SubscriptionTier, getTierFeatures } from "@/lib/subscription/tiers";
+
+// Model used when the request doesn't specify one
+export const SANDBOX_DEFAULT_MODEL_ID = "claude-sonnet";
+
+export type SandboxModelResolution =
+  | { model: AIModel; error?: undefined; status?: undefined; requiresUpgrade?: undefined }
+  | { model?: undefined; error: string; status: number; requiresUpgrade?: boolean };
+
+/**
+ * Resolve and validate the model for a sandbox request
+ * 
+ * Sandbox tool calling uses the Anthropic Messages API, so only
+ * Anthropic models are accepted here.
+ */
+export function resolveSandboxModel(
+  modelId: string | undefined,
+  tier: SubscriptionTier
+): SandboxModelResolution {
+  const model = getModel(modelId || SANDBOX_DEFAULT_MODEL_ID);
+
+  if (!model) {
+    return { error: `Unknown model: ${modelId}`, status: 400 };
+  }
+
+  if (model.provider !== "anthropic") {
+    return { error: `${model.name} does not support sandbox tool calling`, status: 400 };
+  }
+
+  if (!canUseModel(model, tier)) {
+    const requiredTier = getTierFeatures(model.minTier || "free").name;
+    return {
+      error: `${model.name} requires a ${requiredTier} subscription or higher.`,
+      status: 403,
+      requiresUpgrade: true,
+    };
+  }
+
+  return { model };
+}
@@ -0,0 +1,54 @@
+/**
+ * Sandbox Server Execution Mode
+ *
+ * Shared request checks for the "server" execution mode of the sandbox
+ * chat routes, where file tools run against the project's stored files.
+ */
+
+import type { Session } from "next-auth";
+import { getUserByEmail, getProject } from "@/lib/db/supabase";
+
+// Default and hard cap for server-mode agent iterations
+export const DEFAULT_MAX_ITERATIONS = 10;
+
+export interface ServerModeDenial {
+  error: string;
+  status: number;
+}
+
+/**
+ * Resolve the iteration cap from the request and the server-wide limit
+ */
+export function resolveMaxIterations(requested?: number): number {
+  const serverCap = parseInt(process.env.SANDBOX_MAX_ITERATIONS || "", 10) || DEFAULT_MAX_ITERATIONS;
+  if (!requested || !Number.isFinite(requested) || requested < 1) {
+    return serverCap;
+  }
+  return Math.min(Math.floor(requested), serverCap);
+}
+
+/**
+ * Check that the session's user owns the project server mode writes to
+ * Returns the error response to send, or null when access is allowed.
+ */
+export async function checkServerModeAccess(
+  session: Session | null,
+  projectId: unknown
+): Promise<ServerModeDenial | null> {
+  if (!session?.user?.email) {
+    return { error: "Not authenticated", status: 401 };
+  }
+
+  if (!projectId || typeof projectId !== "string") {
+    return { error: "Project ID is required in server execution mode", status: 400 };
+  }
+
+  const user = await getUserByEmail(session.user.email);
+  const project = await getProject(projectId);
+
+  if (!user || !project || project.user_id !== user.id) {
+    return { error: "Project not found", status: 404 };
+  }
+
+  return null;
+}
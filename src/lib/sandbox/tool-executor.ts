@@ -0,0 +1,187 @@
+/**
+ * Server-side Tool Executor
+ *
+ * Executes file tools directly against the project's persisted files
+ * (ProjectFile table), and database tools against the project's Docker
+ * containers, so the agent loop can continue without a client round-trip.
+ * Browser-only tools (run_command, start_dev_server, ...) are not handled
+ * here and must still be executed by the WebContainer.
+ */
+
+import {
+  getProjectFiles,
+  saveProjectFile,
+  deleteProjectFile,
+} from "@/lib/db/supabase";
+import {
+  applyMigrations,
+  createCollection,
+  executeSql,
+  getMigrationStatus,
+  queryVectors,
+  upsertVectors,
+  VectorItem,
+  VectorMetric,
+} from "@/lib/docker";
+
+export interface ServerToolResult {
+  toolUseId: string;
+  name: string;
+  result: string;
+  isError: boolean;
+}
+
+// Tools that can run on the server without the browser sandbox
+export const SERVER_EXECUTABLE_TOOLS = [
+  "write_file",
+  "read_file",
+  "delete_file",
+  "run_sql",
+  "run_migrations",
+  "create_vector_collection",
+  "upsert_vectors",
+  "query_vectors",
+];
+
+// Server tools that operate on a file path
+const FILE_TOOLS = ["write_file", "read_file", "delete_file"];
+
+/**
+ * Check whether a tool can be executed on the server
+ */
+export function isServerExecutableTool(name: string): boolean {
+  return SERVER_EXECUTABLE_TOOLS.includes(name);
+}
+
+/**
+ * Normalize a tool-provided path to the format stored in ProjectFile
+ */
+function normalizePath(path: string): string {
+  return path.trim().replace(/^\.\//, "").replace(/^\/+/, "");
+}
+
+/**
+ * Execute a server-side tool for a project
+ */
+export async function executeServerTool(
+  projectId: string,
+  toolUseId: string,
+  name: string,
+  input: Record<string, unknown>
+): Promise<ServerToolResult> {
+  const fail = (result: string): ServerToolResult => ({ toolUseId, name, result, isError: true });
+
+  if (!isServerExecutableTool(name)) {
+    return fail(`Error: Tool ${name} cannot be executed on the server`);
+  }
+
+  const rawPath = typeof input.path === "string" ? input.path : "";
+  const path = normalizePath(rawPath);
+
+  if (FILE_TOOLS.includes(name) && !path) {
+    return fail("Error: A non-empty 'path' is required");
+  }
+
+  try {
+    switch (name) {
+      case "write_file": {
+        if (typeof input.content !== "string") {
+          return fail("Error: 'content' must be a string");
+        }
+        await saveProjectFile(projectId, path, input.content);
+        return {
+          toolUseId,
+          name,
+          result: `Successfully wrote ${path} (${input.content.length} characters)`,
+          isError: false,
+        };
+      }
+
+      case "read_file": {
+        const files = await getProjectFiles(projectId);
+        const file = files.find(f => f.path === path);
+        if (!file) {
+          return fail(`Error: File not found: ${path}`);
+        }
+        return { toolUseId, name, result: file.content, isError: false };
+      }
+
+      case "delete_file": {
+        const files = await getProjectFiles(projectId);
+        if (!files.some(f => f.path === path)) {
+          return fail(`Error: File not found: ${path}`);
+        }
+        await deleteProjectFile(projectId, path);
+        return { toolUseId, name, result: `Successfully deleted ${path}`, isError: false };
+      }
+
+      case "run_sql": {
+        if (typeof input.sql !== "string" || !input.sql.trim()) {
+          return fail("Error: A non-empty 'sql' is required");
+        }
+        const containerType = input.containerType === "pgvector" ? "pgvector" : "postgres";
+        const result = await executeSql(projectId, input.sql, containerType, {
+          allowWrites: input.allowWrites === true,
+          limit: typeof input.limit === "number" ? input.limit : undefined,
+          offset: typeof input.offset === "number" ? input.offset : undefined,
+        });
+        if (!result.success || !result.result) {
+          return fail(`Error: ${result.error || "SQL execution failed"}`);
+        }
+        return { toolUseId, name, result: JSON.stringify(result.result), isError: false };
+      }
+
+      case "run_migrations": {
+        const containerType = input.containerType === "pgvector" ? "pgvector" : "postgres";
+        if (input.action === "status") {
+          const migrations = await getMigrationStatus(projectId, containerType);
+          return { toolUseId, name, result: JSON.stringify({ migrations }), isError: false };
+        }
+        if (input.action !== "up") {
+          return fail("Error: 'action' must be 'up' or 'status'");
+        }
+        const result = await applyMigrations(projectId, { containerType, seed: input.seed === true });
+        return { toolUseId, name, result: JSON.stringify(result), isError: Boolean(result.failed) };
+      }
+
+      case "create_vector_collection": {
+        if (typeof input.name !== "string" || typeof input.dimensions !== "number") {
+          return fail("Error: 'name' and 'dimensions' are required");
+        }
+        const collection = await createCollection(projectId, {
+          name: input.name,
+          dimensions: input.dimensions,
+          metric: input.metric as VectorMetric | undefined,
+        });
+        return { toolUseId, name, result: JSON.stringify({ collection }), isError: false };
+      }
+
+      case "upsert_vectors": {
+        if (typeof input.collection !== "string") {
+          return fail("Error: 'collection' is required");
+        }
+        const upserted = await upsertVectors(projectId, input.collection, input.items as VectorItem[]);
+        return { toolUseId, name, result: `Upserted ${upserted} vectors into ${input.collection}`, isError: false };
+      }
+
+      case "query_vectors": {
+        if (typeof input.collection !== "string") {
+          return fail("Error: 'collection' is required");
+        }
+        const matches = await queryVectors(projectId, input.collection, {
+          vector: input.vector as number[],
+          topK: typeof input.topK === "number" ? input.topK : undefined,
+          metric: input.metric as VectorMetric | undefined,
+          filter: input.filter as Record<string, unknown> | undefined,
+        });
+        return { toolUseId, name, result: JSON.stringify({ matches }), isError: false };
+      }
+
+      default:
+        return fail(`Error: Unsupported tool: ${name}`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return fail(`Error: ${message}`);
+  }
+}
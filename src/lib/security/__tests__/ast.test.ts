@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { findCodeIssues } from "../ast";
+
+const rules = (path: string, content: string) => findCodeIssues(path, content).map(m => m.rule);
+
+describe("findCodeIssues", () => {
+  it("reports the line and column where the matched node starts", () => {
+    const content = [
+      "const a = 1;",
+      "function render(html: string) {",
+      "    el.innerHTML = html;",
+      "  return eval(",
+      "    html",
+      "  );",
+      "}",
+    ].join("\n");
+
+    expect(findCodeIssues("src/render.ts", content)).toEqual([
+      { rule: "innerHTML", line: 3, column: 5, code: "el.innerHTML = html;" },
+      { rule: "eval", line: 4, column: 10, code: "return eval(" },
+    ]);
+  });
+
+  it("matches calls that span several lines", () => {
+    const content = "db.query(\n  `SELECT * FROM users WHERE id = ${id}`\n);";
+    expect(findCodeIssues("src/db.js", content)).toEqual([
+      { rule: "sqlInjection", line: 1, column: 1, code: "db.query(", confidence: 0.9 },
+    ]);
+  });
+
+  it("does not flag relative imports as path traversal", () => {
+    const content = [
+      'import { api } from "../lib/api";',
+      'export * from "../../shared";',
+      'const config = require("../config");',
+    ].join("\n");
+    expect(rules("src/pages/index.tsx", content)).toEqual([]);
+  });
+
+  it("does not flag SQL words in comments or plain strings", () => {
+    const content = [
+      "// SELECT the user FROM the list, then DELETE FROM the cache",
+      "/* UPDATE users SET name = ${name} */",
+      'const label = "Select an item from the menu";',
+      "const message = `Delete ${count} items from your cart`;",
+    ].join("\n");
+    expect(rules("src/cart.ts", content)).toEqual([]);
+  });
+
+  it("ignores parameterized tagged templates", () => {
+    expect(rules("src/db.ts", "await sql`SELECT * FROM users WHERE id = ${id}`;")).toEqual([]);
+  });
+
+  it("checks the script blocks of Vue, Svelte and HTML files at their file positions", () => {
+    const vue = [
+      "<template>",
+      '  <div v-html="html"></div>',
+      "</template>",
+      '<script setup lang="ts">',
+      "const el = document.body as HTMLElement;",
+      "el.innerHTML = props.html;",
+      "</script>",
+    ].join("\n");
+    expect(findCodeIssues("src/App.vue", vue)).toEqual([
+      { rule: "innerHTML", line: 6, column: 1, code: "el.innerHTML = props.html;" },
+    ]);
+
+    const svelte = "<script>\n  const run = (code) => eval(code);\n</script>\n<p>eval(code)</p>";
+    expect(findCodeIssues("src/App.svelte", svelte)).toMatchObject([{ rule: "eval", line: 2, column: 25 }]);
+
+    const html = '<body><script>document.write(location.hash)</script><script type="application/json">{"url": "http://api.example.com"}</script></body>';
+    expect(findCodeIssues("index.html", html)).toMatchObject([{ rule: "documentWrite", line: 1, column: 15 }]);
+  });
+
+  it("returns nothing for other files", () => {
+    expect(rules("README.md", "eval(input)")).toEqual([]);
+  });
+});
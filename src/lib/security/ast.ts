@@ -0,0 +1,288 @@
+/**
+ * Syntax-Based Code Rules
+ *
+ * Parses JavaScript, TypeScript and JSX with the TypeScript compiler API and
+ * matches rules against syntax nodes instead of lines of text, so calls
+ * spanning several lines are understood and comments, imports and plain
+ * strings are not mistaken for code. Vue, Svelte and HTML files are checked
+ * through their <script> blocks.
+ */
+
+import ts from "typescript";
+
+export type CodeRuleId =
+  | "eval"
+  | "innerHTML"
+  | "dangerouslySetInnerHTML"
+  | "documentWrite"
+  | "sqlInjection"
+  | "commandInjection"
+  | "pathTraversal"
+  | "openCors"
+  | "weakHash"
+  | "insecureCookie"
+  | "httpUrl"
+  | "envExposed";
+
+export interface CodeMatch {
+  rule: CodeRuleId;
+  line: number; // 1-based
+  column: number; // 1-based
+  code: string; // the source line, trimmed
+  confidence?: number; // overrides the rule's default
+}
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  ".js": ts.ScriptKind.JS,
+  ".mjs": ts.ScriptKind.JS,
+  ".cjs": ts.ScriptKind.JS,
+  ".jsx": ts.ScriptKind.JSX,
+  ".ts": ts.ScriptKind.TS,
+  ".mts": ts.ScriptKind.TS,
+  ".cts": ts.ScriptKind.TS,
+  ".tsx": ts.ScriptKind.TSX,
+};
+
+// Methods that run a SQL string as-is; tagged templates (sql`...`,
+// prisma.$queryRaw`...`) are parameterized and never match
+const QUERY_METHODS = ["query", "execute", "raw", "unsafe", "$queryRawUnsafe", "$executeRawUnsafe"];
+const COMMAND_FUNCTIONS = ["exec", "execSync", "spawn", "spawnSync"];
+const PATH_FUNCTIONS = ["join", "resolve", "readFile", "readFileSync", "createReadStream", "sendFile"];
+const RESPONSE_METHODS = ["json", "send"];
+const WEAK_HASHES = ["md5", "sha1"];
+const COOKIE_FLAGS = ["httpOnly", "secure"];
+
+// Files whose code lives in <script> blocks
+const MARKUP_EXTENSIONS = [".vue", ".svelte", ".html", ".htm"];
+const SCRIPT_BLOCK = /(<script\b([^>]*)>)([\s\S]*?)<\/script\s*>/gi;
+// Script types that hold data or templates rather than code
+const NON_CODE_SCRIPT_TYPE = /(?:^|\s)type\s*=\s*["']?(?!module\b|(?:text|application)\/(?:javascript|ecmascript|babel|typescript)\b)[^"'\s>]/i;
+
+const USER_INPUT = /\breq(?:uest)?\.(?:body|query|params)\b/;
+const SQL_SHAPE = /\b(?:SELECT\b[\s\S]*\bFROM|INSERT\s+INTO|UPDATE\b[\s\S]*\bSET|DELETE\s+FROM|DROP\s+(?:TABLE|DATABASE)|UNION\s+(?:ALL\s+)?SELECT)\b/i;
+// XML namespaces (SVG in JSX) are identifiers, not requests
+const INSECURE_URL = /http:\/\/(?!localhost|127\.0\.0\.1|www\.w3\.org\/)/i;
+
+/**
+ * Script kind for a file, or null if it is not JavaScript or TypeScript
+ */
+export function getScriptKind(path: string): ts.ScriptKind | null {
+  const extension = /\.[a-z]+$/i.exec(path)?.[0].toLowerCase();
+  return extension ? SCRIPT_KINDS[extension] ?? null : null;
+}
+
+/**
+ * Whether a file is markup whose <script> blocks are checked
+ */
+function isMarkupFile(path: string): boolean {
+  const extension = /\.[a-z]+$/i.exec(path)?.[0].toLowerCase();
+  return !!extension && MARKUP_EXTENSIONS.includes(extension);
+}
+
+/**
+ * Keep only the code inside a markup file's <script> blocks
+ * Everything else is blanked out with newlines kept, so offsets, lines and
+ * columns in the result are the same as in the file.
+ */
+function extractScripts(content: string): { code: string; kind: ts.ScriptKind } {
+  const chars = content.replace(/[^\n]/g, " ").split("");
+  let kind: ts.ScriptKind = ts.ScriptKind.JS;
+
+  for (const match of content.matchAll(SCRIPT_BLOCK)) {
+    const [, open, attributes, body] = match;
+    if (NON_CODE_SCRIPT_TYPE.test(attributes)) {
+      continue;
+    }
+    if (/\blang\s*=\s*["']?tsx?\b/i.test(attributes)) {
+      kind = ts.ScriptKind.TS;
+    }
+    const start = (match.index ?? 0) + open.length;
+    for (let i = 0; i < body.length; i++) {
+      chars[start + i] = body[i];
+    }
+  }
+
+  return { code: chars.join(""), kind };
+}
+
+/**
+ * Remove parentheses, type assertions and `as` casts around an expression
+ */
+function unwrap(node: ts.Expression): ts.Expression {
+  while (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isTypeAssertionExpression(node)) {
+    node = node.expression;
+  }
+  return node;
+}
+
+/**
+ * Name a call is made through: `fn` for fn() and `method` for x.method()
+ */
+function calleeName(callee: ts.Expression): string | null {
+  if (ts.isIdentifier(callee)) return callee.text;
+  if (ts.isPropertyAccessExpression(callee)) return callee.name.text;
+  return null;
+}
+
+/**
+ * Text of a property or attribute name, if it is not computed
+ */
+function propertyName(name: ts.PropertyName | ts.JsxAttributeName): string | null {
+  return ts.isIdentifier(name) || ts.isStringLiteral(name) ? name.text : null;
+}
+
+/**
+ * Whether an expression is a string known at compile time
+ */
+function isStaticString(node: ts.Expression): boolean {
+  node = unwrap(node);
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return true;
+  }
+  return ts.isBinaryExpression(node) &&
+    node.operatorToken.kind === ts.SyntaxKind.PlusToken &&
+    isStaticString(node.left) &&
+    isStaticString(node.right);
+}
+
+/**
+ * Whether an expression builds a string from values: an interpolated
+ * template literal or a concatenation with non-literal parts
+ */
+function isDynamicString(node: ts.Expression): boolean {
+  node = unwrap(node);
+  if (ts.isTemplateExpression(node)) {
+    return true;
+  }
+  return ts.isBinaryExpression(node) &&
+    node.operatorToken.kind === ts.SyntaxKind.PlusToken &&
+    !isStaticString(node);
+}
+
+/**
+ * Whether a node reads process.env anywhere inside it
+ */
+function readsProcessEnv(node: ts.Node): boolean {
+  if (
+    ts.isPropertyAccessExpression(node) &&
+    node.name.text === "env" &&
+    ts.isIdentifier(node.expression) &&
+    node.expression.text === "process"
+  ) {
+    return true;
+  }
+  return ts.forEachChild(node, readsProcessEnv) ?? false;
+}
+
+/**
+ * Parse a file and match the code rules against its syntax tree
+ * Vue, Svelte and HTML files are checked through their <script> blocks;
+ * returns no matches for other files.
+ */
+export function findCodeIssues(path: string, content: string): CodeMatch[] {
+  const scriptKind = getScriptKind(path);
+  const script = scriptKind !== null
+    ? { code: content, kind: scriptKind }
+    : isMarkupFile(path) ? extractScripts(content) : null;
+  if (!script) {
+    return [];
+  }
+
+  const source = ts.createSourceFile(path, script.code, ts.ScriptTarget.Latest, true, script.kind);
+  const lines = content.split("\n");
+  const matches: CodeMatch[] = [];
+  // Template literals already reported as query arguments
+  const reported = new Set<ts.Node>();
+
+  const add = (rule: CodeRuleId, node: ts.Node, confidence?: number) => {
+    const { line, character } = source.getLineAndCharacterOfPosition(node.getStart(source));
+    matches.push({
+      rule,
+      line: line + 1,
+      column: character + 1,
+      code: (lines[line] || "").trim().substring(0, 100),
+      ...(confidence !== undefined && { confidence }),
+    });
+  };
+
+  const checkCall = (node: ts.CallExpression) => {
+    const callee = unwrap(node.expression);
+    const name = calleeName(callee);
+    const [first] = node.arguments;
+    const receiver = ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression)
+      ? callee.expression.text
+      : null;
+
+    if (name === "eval" && (receiver === null || ["window", "globalThis", "global", "self"].includes(receiver))) {
+      add("eval", node);
+    } else if (receiver === "document" && (name === "write" || name === "writeln")) {
+      add("documentWrite", node);
+    } else if (name === "insertAdjacentHTML" && node.arguments[1] && !isStaticString(node.arguments[1])) {
+      add("innerHTML", node);
+    } else if (name && QUERY_METHODS.includes(name) && first && isDynamicString(first)) {
+      reported.add(unwrap(first));
+      add("sqlInjection", node, 0.9);
+    } else if (
+      name && COMMAND_FUNCTIONS.includes(name) && first &&
+      (isDynamicString(first) || USER_INPUT.test(first.getText(source)))
+    ) {
+      add("commandInjection", node);
+    } else if (
+      name && PATH_FUNCTIONS.includes(name) &&
+      node.arguments.some(arg => USER_INPUT.test(arg.getText(source)))
+    ) {
+      add("pathTraversal", node);
+    } else if (name === "cors" && ts.isIdentifier(callee) && node.arguments.length === 0) {
+      add("openCors", node);
+    } else if (
+      name === "createHash" && first && ts.isStringLiteralLike(first) &&
+      WEAK_HASHES.includes(first.text.toLowerCase())
+    ) {
+      add("weakHash", node);
+    } else if (name && RESPONSE_METHODS.includes(name) && node.arguments.some(readsProcessEnv)) {
+      add("envExposed", node);
+    }
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isCallExpression(node)) {
+      checkCall(node);
+    } else if (
+      ts.isBinaryExpression(node) &&
+      (node.operatorToken.kind === ts.SyntaxKind.EqualsToken || node.operatorToken.kind === ts.SyntaxKind.PlusEqualsToken) &&
+      ts.isPropertyAccessExpression(node.left) &&
+      ["innerHTML", "outerHTML"].includes(node.left.name.text) &&
+      !isStaticString(node.right)
+    ) {
+      add("innerHTML", node);
+    } else if (ts.isJsxAttribute(node) && propertyName(node.name) === "dangerouslySetInnerHTML") {
+      add("dangerouslySetInnerHTML", node);
+    } else if (ts.isPropertyAssignment(node)) {
+      const name = propertyName(node.name);
+      const value = unwrap(node.initializer);
+      if (name === "dangerouslySetInnerHTML") {
+        add("dangerouslySetInnerHTML", node);
+      } else if (name && COOKIE_FLAGS.includes(name) && value.kind === ts.SyntaxKind.FalseKeyword) {
+        add("insecureCookie", node);
+      } else if (name === "origin" && ts.isStringLiteralLike(value) && value.text === "*") {
+        add("openCors", node);
+      }
+    } else if (ts.isTemplateExpression(node) && !reported.has(node) && !ts.isTaggedTemplateExpression(node.parent)) {
+      const text = [node.head.text, ...node.templateSpans.map(span => span.literal.text)].join(" ");
+      if (SQL_SHAPE.test(text)) {
+        add("sqlInjection", node, 0.7);
+      }
+    } else if (
+      (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateHead(node)) &&
+      !ts.isImportDeclaration(node.parent) && !ts.isExportDeclaration(node.parent) &&
+      INSECURE_URL.test(node.text)
+    ) {
+      add("httpUrl", node);
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(source);
+  return matches;
+}
@@ -2,6 +2,7 @@
  * Security Audit Engine
  * 
  * Performs static and heuristic security analysis on project files.
+ * JavaScript and TypeScript are analyzed on their syntax tree (see ./ast).
  */
 
 import {
@@ -12,65 +13,171 @@ import {
   type PartialSecurityScan,
   type FullSecurityAudit,
 } from "./types";
+import { findCodeIssues, type CodeRuleId } from "./ast";
 
 // Generate unique IDs
 function generateId(): string {
   return `finding_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
-// Common vulnerability patterns
-const VULNERABILITY_PATTERNS = {
-  // Secrets & Credentials
-  hardcodedApiKey: /(['"`])(sk_live_|pk_live_|api[_-]?key|secret[_-]?key)[a-zA-Z0-9_-]{20,}(['"`])/gi,
-  hardcodedPassword: /(password|passwd|pwd)\s*[:=]\s*(['"`])[^'"]{4,}(['"`])/gi,
-  hardcodedSecret: /(secret|token|auth|bearer)\s*[:=]\s*(['"`])[^'"]{8,}(['"`])/gi,
-  awsCredentials: /AKIA[0-9A-Z]{16}/g,
-  privateKey: /-----BEGIN (RSA |EC |OPENSSH )?PRIVATE KEY-----/g,
-  jwtToken: /eyJ[a-zA-Z0-9_-]*\.eyJ[a-zA-Z0-9_-]*\.[a-zA-Z0-9_-]*/g,
-  
-  // SQL Injection
-  sqlInjection: /(\$\{|`)[^}]*\b(SELECT|INSERT|UPDATE|DELETE|DROP|UNION)\b/gi,
-  unsafeQuery: /query\s*\([^)]*\$\{/gi,
-  rawSql: /\.raw\s*\([^)]*\$\{/gi,
-  
-  // XSS
-  dangerouslySetInnerHTML: /dangerouslySetInnerHTML/g,
-  documentWrite: /document\.write\s*\(/g,
-  innerHTML: /\.innerHTML\s*=/g,
-  unsafeEval: /\beval\s*\(/g,
-  
-  // Insecure HTTP
-  httpUrl: /http:\/\/(?!localhost|127\.0\.0\.1)/gi,
-  
-  // Insecure Cookie
-  insecureCookie: /httpOnly\s*:\s*false|secure\s*:\s*false/gi,
-  
-  // Path Traversal
-  pathTraversal: /\.\.\//g,
-  unsafePath: /path\.(join|resolve)\s*\([^)]*req\.(body|query|params)/gi,
-  
-  // Command Injection
-  execCommand: /exec\s*\([^)]*(\$\{|req\.(body|query|params))/gi,
-  spawnCommand: /spawn\s*\([^)]*(\$\{|req\.(body|query|params))/gi,
-  
-  // CORS Issues
-  openCors: /cors\s*\(\s*\)|origin\s*:\s*['"]\*['"]/gi,
-  
-  // Missing Security Headers
-  noHelmet: /helmet/gi,
-  noCsp: /Content-Security-Policy/gi,
-  
-  // Weak Crypto
-  md5Hash: /createHash\s*\(\s*['"]md5['"]\s*\)/gi,
-  sha1Hash: /createHash\s*\(\s*['"]sha1['"]\s*\)/gi,
-  weakCipher: /(DES|RC4|RC2|BLOWFISH|IDEA|SEED)/gi,
-  
-  // Auth Issues
-  noAuthCheck: /\/(api|admin)\/.*\.(ts|js)$/,
-  jwtNoVerify: /jwt\.(decode|sign)\s*\([^)]*\)(?!.*verify)/gi,
-  
-  // Environment Variables
-  processEnvExposed: /process\.env\.[A-Z_]+.*return|res\.(json|send)\([^)]*process\.env/gi,
+type FindingTemplate = Pick<
+  SecurityFinding,
+  "category" | "severity" | "title" | "description" | "impact" | "recommendation" | "confidence"
+>;
+
+// Secrets are matched in the raw text of every file: a key in a comment or
+// config file is leaked all the same
+const SECRET_PATTERNS: { pattern: RegExp; codeLength?: number; finding: FindingTemplate }[] = [
+  {
+    pattern: /(['"`])(sk_live_|pk_live_|api[_-]?key|secret[_-]?key)[a-zA-Z0-9_-]{20,}(['"`])/gi,
+    codeLength: 100,
+    finding: {
+      category: "secrets",
+      severity: "critical",
+      title: "Hardcoded API Key Detected",
+      description: "An API key appears to be hardcoded in the source code. This exposes the key to anyone with access to the codebase.",
+      impact: "Attackers could use the exposed key to access your services, potentially leading to data breaches, financial loss, or service abuse.",
+      recommendation: "Move API keys to environment variables and ensure they are not committed to version control. Use a secrets manager for production.",
+      confidence: 1.0,
+    },
+  },
+  {
+    pattern: /AKIA[0-9A-Z]{16}/g,
+    codeLength: 60,
+    finding: {
+      category: "secrets",
+      severity: "critical",
+      title: "AWS Access Key Exposed",
+      description: "AWS access key ID found in source code. This could grant unauthorized access to AWS resources.",
+      impact: "Complete compromise of AWS account, potential data exfiltration, cryptocurrency mining, or destruction of resources.",
+      recommendation: "Immediately rotate the exposed credentials in AWS IAM. Use IAM roles or environment variables instead.",
+      confidence: 1.0,
+    },
+  },
+  {
+    pattern: /-----BEGIN (RSA |EC |OPENSSH )?PRIVATE KEY-----/g,
+    finding: {
+      category: "secrets",
+      severity: "critical",
+      title: "Private Key Exposed",
+      description: "A private key is embedded in the source code.",
+      impact: "Private keys allow impersonation, decryption of sensitive data, and unauthorized access to protected resources.",
+      recommendation: "Remove the private key immediately and rotate it. Store keys securely in a secrets manager or hardware security module.",
+      confidence: 1.0,
+    },
+  },
+];
+
+// Findings for the syntax rules in ./ast
+const CODE_RULE_FINDINGS: Record<CodeRuleId, FindingTemplate> = {
+  eval: {
+    category: "csrf-xss",
+    severity: "critical",
+    title: "Unsafe eval() Usage",
+    description: "Using eval() can execute arbitrary code and is a severe security risk.",
+    impact: "Remote code execution vulnerability - attackers could run arbitrary JavaScript with full access to the application context.",
+    recommendation: "Replace eval() with safer alternatives like JSON.parse() for data, or a lookup table for dynamic behavior.",
+    confidence: 1.0,
+  },
+  innerHTML: {
+    category: "csrf-xss",
+    severity: "high",
+    title: "Potential XSS via innerHTML",
+    description: "HTML built from dynamic values is written into the DOM through innerHTML, outerHTML or insertAdjacentHTML.",
+    impact: "Attackers could inject malicious scripts that execute in users' browsers, stealing credentials, session tokens, or performing actions on behalf of users.",
+    recommendation: "Use textContent for text, build elements with the DOM API, or sanitize the HTML with a library like DOMPurify first.",
+    confidence: 0.85,
+  },
+  dangerouslySetInnerHTML: {
+    category: "csrf-xss",
+    severity: "high",
+    title: "Potential XSS via dangerouslySetInnerHTML",
+    description: "Using dangerouslySetInnerHTML can lead to XSS attacks if the content is not properly sanitized.",
+    impact: "Attackers could inject malicious scripts that execute in users' browsers, stealing credentials, session tokens, or performing actions on behalf of users.",
+    recommendation: "Sanitize HTML content using a library like DOMPurify before rendering. Consider if raw HTML rendering is necessary.",
+    confidence: 0.9,
+  },
+  documentWrite: {
+    category: "csrf-xss",
+    severity: "medium",
+    title: "document.write() Usage",
+    description: "document.write() inserts raw HTML into the page.",
+    impact: "If any part of the written HTML comes from user input, attackers could inject scripts into the page.",
+    recommendation: "Create elements with the DOM API or render through your UI framework instead of document.write().",
+    confidence: 0.8,
+  },
+  sqlInjection: {
+    category: "api-security",
+    severity: "critical",
+    title: "Potential SQL Injection",
+    description: "SQL query appears to use string interpolation, which can lead to SQL injection attacks.",
+    impact: "Attackers could read, modify, or delete database records, potentially gaining full database access.",
+    recommendation: "Use parameterized queries or an ORM. Never concatenate user input directly into SQL queries.",
+    confidence: 0.85,
+  },
+  commandInjection: {
+    category: "api-security",
+    severity: "critical",
+    title: "Potential Command Injection",
+    description: "User input appears to be passed to a shell command, which could allow command injection.",
+    impact: "Attackers could execute arbitrary system commands, potentially compromising the entire server.",
+    recommendation: "Never pass user input to shell commands. Use child_process.execFile with fixed arguments or a whitelist approach.",
+    confidence: 0.8,
+  },
+  pathTraversal: {
+    category: "file-handling",
+    severity: "high",
+    title: "Potential Path Traversal",
+    description: "A file path is built from request input, which could let a request reach files outside the intended directory.",
+    impact: "Attackers could read or overwrite arbitrary files on the server using paths such as ../../etc/passwd.",
+    recommendation: "Resolve the path and check it stays within an allowed base directory, or map request values to a fixed set of files.",
+    confidence: 0.8,
+  },
+  openCors: {
+    category: "configuration",
+    severity: "medium",
+    title: "Open CORS Configuration",
+    description: "CORS is configured to allow all origins, which could allow unauthorized cross-origin requests.",
+    impact: "Malicious websites could make authenticated requests to your API on behalf of users.",
+    recommendation: "Configure CORS to only allow specific, trusted origins. Use credentials: false if cross-origin auth isn't needed.",
+    confidence: 0.95,
+  },
+  weakHash: {
+    category: "authentication",
+    severity: "high",
+    title: "Weak Cryptographic Hash",
+    description: "MD5 or SHA1 hashing is used, which are considered cryptographically weak.",
+    impact: "Hashed data could be reversed or collisions found, compromising password security or data integrity.",
+    recommendation: "Use SHA-256 or stronger for general hashing, or bcrypt/argon2 for password hashing.",
+    confidence: 1.0,
+  },
+  insecureCookie: {
+    category: "configuration",
+    severity: "medium",
+    title: "Insecure Cookie Configuration",
+    description: "Cookie is configured without secure or httpOnly flags.",
+    impact: "Session cookies could be stolen via XSS attacks or transmitted over insecure connections.",
+    recommendation: "Set httpOnly: true to prevent JavaScript access and secure: true for HTTPS-only transmission.",
+    confidence: 0.95,
+  },
+  httpUrl: {
+    category: "configuration",
+    severity: "medium",
+    title: "Insecure HTTP URL",
+    description: "An HTTP (non-HTTPS) URL is used, which transmits data unencrypted.",
+    impact: "Data transmitted over HTTP can be intercepted and modified by attackers (man-in-the-middle attacks).",
+    recommendation: "Use HTTPS URLs for all external requests. Enable HSTS header to enforce HTTPS.",
+    confidence: 0.9,
+  },
+  envExposed: {
+    category: "secrets",
+    severity: "high",
+    title: "Environment Variables Exposed in API",
+    description: "Environment variables appear to be exposed in API responses.",
+    impact: "Sensitive configuration and secrets could be leaked to clients, exposing API keys, database credentials, etc.",
+    recommendation: "Never return process.env values directly in API responses. Create a whitelist of safe values to expose.",
+    confidence: 0.85,
+  },
 };
 
 // Known vulnerable packages (simplified - in production would use actual CVE database)
@@ -89,6 +196,18 @@ const KNOWN_VULNERABLE_PACKAGES: Record<string, { severity: SecuritySeverity; cv
   "qs": { severity: "high", cve: "CVE-2022-24999", fixVersion: "6.11.0", description: "Prototype pollution" },
 };
 
+/**
+ * 1-based line and column of an offset in a file
+ */
+function positionAt(content: string, offset: number): { line: number; column: number } {
+  const before = content.slice(0, offset);
+  const lineStart = before.lastIndexOf("\n") + 1;
+  return {
+    line: before.split("\n").length,
+    column: offset - lineStart + 1,
+  };
+}
+
 /**
  * Perform static analysis on code files
  */
@@ -104,242 +223,42 @@ function staticAnalysis(files: { path: string; content: string }[]): SecurityFin
       continue;
     }
     
-    // Check each line for vulnerability patterns
-    for (let lineNum = 0; lineNum < lines.length; lineNum++) {
-      const line = lines[lineNum];
-      
-      // Hardcoded API Keys
-      if (VULNERABILITY_PATTERNS.hardcodedApiKey.test(line)) {
-        findings.push({
-          id: generateId(),
-          category: "secrets",
-          severity: "critical",
-          title: "Hardcoded API Key Detected",
-          description: "An API key appears to be hardcoded in the source code. This exposes the key to anyone with access to the codebase.",
-          file: path,
-          line: lineNum + 1,
-          code: line.trim().substring(0, 100) + (line.length > 100 ? "..." : ""),
-          impact: "Attackers could use the exposed key to access your services, potentially leading to data breaches, financial loss, or service abuse.",
-          recommendation: "Move API keys to environment variables and ensure they are not committed to version control. Use a secrets manager for production.",
-          confidence: 1.0,
-          isStatic: true,
-        });
-      }
-      VULNERABILITY_PATTERNS.hardcodedApiKey.lastIndex = 0;
-      
-      // AWS Credentials
-      if (VULNERABILITY_PATTERNS.awsCredentials.test(line)) {
-        findings.push({
-          id: generateId(),
-          category: "secrets",
-          severity: "critical",
-          title: "AWS Access Key Exposed",
-          description: "AWS access key ID found in source code. This could grant unauthorized access to AWS resources.",
-          file: path,
-          line: lineNum + 1,
-          code: line.trim().substring(0, 60) + "...",
-          impact: "Complete compromise of AWS account, potential data exfiltration, cryptocurrency mining, or destruction of resources.",
-          recommendation: "Immediately rotate the exposed credentials in AWS IAM. Use IAM roles or environment variables instead.",
-          confidence: 1.0,
-          isStatic: true,
-        });
-      }
-      VULNERABILITY_PATTERNS.awsCredentials.lastIndex = 0;
-      
-      // Private Keys
-      if (VULNERABILITY_PATTERNS.privateKey.test(line)) {
-        findings.push({
-          id: generateId(),
-          category: "secrets",
-          severity: "critical",
-          title: "Private Key Exposed",
-          description: "A private key is embedded in the source code.",
-          file: path,
-          line: lineNum + 1,
-          impact: "Private keys allow impersonation, decryption of sensitive data, and unauthorized access to protected resources.",
-          recommendation: "Remove the private key immediately and rotate it. Store keys securely in a secrets manager or hardware security module.",
-          confidence: 1.0,
-          isStatic: true,
-        });
-      }
-      VULNERABILITY_PATTERNS.privateKey.lastIndex = 0;
-      
-      // dangerouslySetInnerHTML (XSS)
-      if (VULNERABILITY_PATTERNS.dangerouslySetInnerHTML.test(line)) {
-        findings.push({
-          id: generateId(),
-          category: "csrf-xss",
-          severity: "high",
-          title: "Potential XSS via dangerouslySetInnerHTML",
-          description: "Using dangerouslySetInnerHTML can lead to XSS attacks if the content is not properly sanitized.",
-          file: path,
-          line: lineNum + 1,
-          code: line.trim().substring(0, 100),
-          impact: "Attackers could inject malicious scripts that execute in users' browsers, stealing credentials, session tokens, or performing actions on behalf of users.",
-          recommendation: "Sanitize HTML content using a library like DOMPurify before rendering. Consider if raw HTML rendering is necessary.",
-          confidence: 0.9,
-          isStatic: true,
-        });
-      }
-      VULNERABILITY_PATTERNS.dangerouslySetInnerHTML.lastIndex = 0;
-      
-      // eval()
-      if (VULNERABILITY_PATTERNS.unsafeEval.test(line)) {
-        findings.push({
-          id: generateId(),
-          category: "csrf-xss",
-          severity: "critical",
-          title: "Unsafe eval() Usage",
-          description: "Using eval() can execute arbitrary code and is a severe security risk.",
-          file: path,
-          line: lineNum + 1,
-          code: line.trim().substring(0, 100),
-          impact: "Remote code execution vulnerability - attackers could run arbitrary JavaScript with full access to the application context.",
-          recommendation: "Replace eval() with safer alternatives like JSON.parse() for data or Function constructor for controlled scenarios.",
-          confidence: 1.0,
-          isStatic: true,
-        });
-      }
-      VULNERABILITY_PATTERNS.unsafeEval.lastIndex = 0;
-      
-      // SQL Injection
-      if (VULNERABILITY_PATTERNS.sqlInjection.test(line)) {
-        findings.push({
-          id: generateId(),
-          category: "api-security",
-          severity: "critical",
-          title: "Potential SQL Injection",
-          description: "SQL query appears to use string interpolation, which can lead to SQL injection attacks.",
-          file: path,
-          line: lineNum + 1,
-          code: line.trim().substring(0, 100),
-          impact: "Attackers could read, modify, or delete database records, potentially gaining full database access.",
-          recommendation: "Use parameterized queries or an ORM. Never concatenate user input directly into SQL queries.",
-          confidence: 0.85,
-          isStatic: true,
-        });
-      }
-      VULNERABILITY_PATTERNS.sqlInjection.lastIndex = 0;
-      
-      // Open CORS
-      if (VULNERABILITY_PATTERNS.openCors.test(line)) {
-        findings.push({
-          id: generateId(),
-          category: "configuration",
-          severity: "medium",
-          title: "Open CORS Configuration",
-          description: "CORS is configured to allow all origins, which could allow unauthorized cross-origin requests.",
-          file: path,
-          line: lineNum + 1,
-          code: line.trim().substring(0, 100),
-          impact: "Malicious websites could make authenticated requests to your API on behalf of users.",
-          recommendation: "Configure CORS to only allow specific, trusted origins. Use credentials: false if cross-origin auth isn't needed.",
-          confidence: 0.95,
-          isStatic: true,
-        });
-      }
-      VULNERABILITY_PATTERNS.openCors.lastIndex = 0;
-      
-      // Weak Hashing
-      if (VULNERABILITY_PATTERNS.md5Hash.test(line) || VULNERABILITY_PATTERNS.sha1Hash.test(line)) {
+    // Secrets anywhere in the file
+    for (const { pattern, codeLength, finding } of SECRET_PATTERNS) {
+      for (const match of content.matchAll(pattern)) {
+        const { line, column } = positionAt(content, match.index ?? 0);
+        const text = lines[line - 1].trim();
         findings.push({
           id: generateId(),
-          category: "authentication",
-          severity: "high",
-          title: "Weak Cryptographic Hash",
-          description: "MD5 or SHA1 hashing is used, which are considered cryptographically weak.",
+          ...finding,
           file: path,
-          line: lineNum + 1,
-          code: line.trim().substring(0, 100),
-          impact: "Hashed data could be reversed or collisions found, compromising password security or data integrity.",
-          recommendation: "Use SHA-256 or stronger for general hashing, or bcrypt/argon2 for password hashing.",
-          confidence: 1.0,
+          line,
+          column,
+          ...(codeLength && {
+            code: text.substring(0, codeLength) + (text.length > codeLength ? "..." : ""),
+          }),
           isStatic: true,
         });
       }
-      VULNERABILITY_PATTERNS.md5Hash.lastIndex = 0;
-      VULNERABILITY_PATTERNS.sha1Hash.lastIndex = 0;
-      
-      // HTTP URLs
-      if (VULNERABILITY_PATTERNS.httpUrl.test(line) && (path.endsWith(".ts") || path.endsWith(".js") || path.endsWith(".tsx") || path.endsWith(".jsx"))) {
-        findings.push({
-          id: generateId(),
-          category: "configuration",
-          severity: "medium",
-          title: "Insecure HTTP URL",
-          description: "An HTTP (non-HTTPS) URL is used, which transmits data unencrypted.",
-          file: path,
-          line: lineNum + 1,
-          code: line.trim().substring(0, 100),
-          impact: "Data transmitted over HTTP can be intercepted and modified by attackers (man-in-the-middle attacks).",
-          recommendation: "Use HTTPS URLs for all external requests. Enable HSTS header to enforce HTTPS.",
-          confidence: 0.9,
-          isStatic: true,
-        });
-      }
-      VULNERABILITY_PATTERNS.httpUrl.lastIndex = 0;
-      
-      // Command Injection
-      if (VULNERABILITY_PATTERNS.execCommand.test(line) || VULNERABILITY_PATTERNS.spawnCommand.test(line)) {
-        findings.push({
-          id: generateId(),
-          category: "api-security",
-          severity: "critical",
-          title: "Potential Command Injection",
-          description: "User input appears to be passed to a shell command, which could allow command injection.",
-          file: path,
-          line: lineNum + 1,
-          code: line.trim().substring(0, 100),
-          impact: "Attackers could execute arbitrary system commands, potentially compromising the entire server.",
-          recommendation: "Never pass user input to shell commands. Use child_process.execFile with fixed arguments or a whitelist approach.",
-          confidence: 0.8,
-          isStatic: true,
-        });
-      }
-      VULNERABILITY_PATTERNS.execCommand.lastIndex = 0;
-      VULNERABILITY_PATTERNS.spawnCommand.lastIndex = 0;
-      
-      // Insecure Cookie
-      if (VULNERABILITY_PATTERNS.insecureCookie.test(line)) {
-        findings.push({
-          id: generateId(),
-          category: "configuration",
-          severity: "medium",
-          title: "Insecure Cookie Configuration",
-          description: "Cookie is configured without secure or httpOnly flags.",
-          file: path,
-          line: lineNum + 1,
-          code: line.trim().substring(0, 100),
-          impact: "Session cookies could be stolen via XSS attacks or transmitted over insecure connections.",
-          recommendation: "Set httpOnly: true to prevent JavaScript access and secure: true for HTTPS-only transmission.",
-          confidence: 0.95,
-          isStatic: true,
-        });
-      }
-      VULNERABILITY_PATTERNS.insecureCookie.lastIndex = 0;
     }
     
-    // File-level checks
-    const contentLower = content.toLowerCase();
-    
-    // Check for exposed environment variables in API responses
-    if (path.includes("/api/") && VULNERABILITY_PATTERNS.processEnvExposed.test(content)) {
+    // Syntax rules for JavaScript and TypeScript
+    for (const match of findCodeIssues(path, content)) {
+      const finding = CODE_RULE_FINDINGS[match.rule];
       findings.push({
         id: generateId(),
-        category: "secrets",
-        severity: "high",
-        title: "Environment Variables Exposed in API",
-        description: "Environment variables appear to be exposed in API responses.",
+        ...finding,
         file: path,
-        impact: "Sensitive configuration and secrets could be leaked to clients, exposing API keys, database credentials, etc.",
-        recommendation: "Never return process.env values directly in API responses. Create a whitelist of safe values to expose.",
-        confidence: 0.85,
+        line: match.line,
+        column: match.column,
+        code: match.code,
+        confidence: match.confidence ?? finding.confidence,
         isStatic: true,
       });
     }
-    VULNERABILITY_PATTERNS.processEnvExposed.lastIndex = 0;
     
     // Check for missing auth in API routes
+    const contentLower = content.toLowerCase();
     if (path.includes("/api/") && !path.includes("auth") && !path.includes("webhook") && !path.includes("health")) {
       if (!contentLower.includes("getserversession") && !contentLower.includes("auth") && !contentLower.includes("token")) {
         findings.push({
@@ -739,7 +658,7 @@ export function exportAuditMarkdown(audit: FullSecurityAudit): string {
     lines.push("");
     lines.push(`**Category:** ${finding.category}`);
     if (finding.file) {
-      lines.push(`**File:** ${finding.file}${finding.line ? `:${finding.line}` : ""}`);
+      lines.push(`**File:** ${finding.file}${finding.line ? `:${finding.line}` : ""}${finding.line && finding.column ? `:${finding.column}` : ""}`);
     }
     if (finding.cve) {
       lines.push(`**CVE:** ${finding.cve}`);
@@ -28,7 +28,8 @@ export interface SecurityFinding {
   title: string;
   description: string;
   file?: string;
-  line?: number;
+  line?: number; // 1-based
+  column?: number; // 1-based
   code?: string;
   impact: string;
   recommendation: string;